@@ -10,12 +10,29 @@ import { VectorModule } from './modules/vector/vector.module';
 import { ChatModule } from './modules/chat/chat.module';
 import { FoldersModule } from './modules/folders/folders.module';
 import { SearchModule } from './modules/search/search.module';
+import { JobsModule } from './modules/jobs/jobs.module';
+import { UsersModule } from './modules/users/users.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { SharingModule } from './modules/sharing/sharing.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
 import configuration from './config/configuration';
 import { UserEntity } from './entities/user.entity';
 import { ChatSessionEntity } from './entities/chat-session.entity';
 import { DocumentEntity } from './entities/document.entity';
+import { DocumentVersionEntity } from './entities/document-version.entity';
 import { FolderEntity } from './entities/folder.entity';
+import { OrganizationEntity } from './entities/organization.entity';
+import { FranchiseEntity } from './entities/franchise.entity';
 import { QACache } from './modules/chat/entities/qa-cache.entity';
+import { AnswerFeedbackEntity } from './modules/chat/entities/answer-feedback.entity';
+import { KnowledgeEntryEntity } from './modules/chat/entities/knowledge-entry.entity';
+import { JobEntity } from './modules/jobs/entities/job.entity';
+import { ReindexRunEntity } from './modules/documents/entities/reindex-run.entity';
+import { FolderShareEntity } from './modules/sharing/entities/folder-share.entity';
+import { RefreshTokenEntity } from './modules/auth/entities/refresh-token.entity';
+import { VerificationTokenEntity } from './modules/auth/entities/verification-token.entity';
+import { ApiKeyEntity } from './modules/api-keys/entities/api-key.entity';
+import { OrganizationInvitationEntity } from './modules/organizations/entities/organization-invitation.entity';
 
 @Module({
   imports: [
@@ -29,7 +46,25 @@ import { QACache } from './modules/chat/entities/qa-cache.entity';
       useFactory: (configService: ConfigService) => ({
         type: 'postgres',
         url: configService.get('database.url'),
-        entities: [UserEntity, ChatSessionEntity, DocumentEntity, FolderEntity, QACache],
+        entities: [
+          UserEntity,
+          ChatSessionEntity,
+          DocumentEntity,
+          DocumentVersionEntity,
+          FolderEntity,
+          QACache,
+          AnswerFeedbackEntity,
+          KnowledgeEntryEntity,
+          JobEntity,
+          ReindexRunEntity,
+          OrganizationEntity,
+          FranchiseEntity,
+          FolderShareEntity,
+          RefreshTokenEntity,
+          VerificationTokenEntity,
+          ApiKeyEntity,
+          OrganizationInvitationEntity,
+        ],
         synchronize: true, // ⚠️ Set to false in production, use migrations
         logging: false,
         ssl: {
@@ -44,6 +79,11 @@ import { QACache } from './modules/chat/entities/qa-cache.entity';
     ChatModule,
     FoldersModule,
     SearchModule,
+    JobsModule,
+    UsersModule,
+    OrganizationsModule,
+    SharingModule,
+    ApiKeysModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../utils/permissions';
+
+// Routes accept API keys only when marked with the scope a key needs to call them
+export const API_KEY_SCOPE_KEY = 'apiKeyScope';
+export const ApiKeyScope = (scope: Permission) => SetMetadata(API_KEY_SCOPE_KEY, scope);
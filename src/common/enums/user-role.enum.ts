@@ -0,0 +1,6 @@
+export enum UserRole {
+  PLATFORM_ADMIN = 'platform_admin', // Operates the platform, can act on any user's content
+  FRANCHISOR = 'franchisor', // Franchisor HQ, publishes the manuals every outlet reads
+  FRANCHISE_OWNER = 'franchise_owner', // Runs an outlet, manages its own documents
+  FRANCHISE_STAFF = 'franchise_staff', // Outlet staff, read-only
+}
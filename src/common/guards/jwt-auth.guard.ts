@@ -1,10 +1,21 @@
-import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { API_KEY_SCOPE_KEY } from '../decorators/api-key-scope.decorator';
+import { Permission, hasPermission } from '../utils/permissions';
 
+/**
+ * Accepts bearer JWTs and, on routes marked with @ApiKeyScope(), API keys (X-API-Key header)
+ * that carry the route's scope while the key creator's current role still grants it
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -22,10 +33,28 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     return super.canActivate(context);
   }
 
-  handleRequest(err, user, info) {
+  handleRequest(err, user, info, context: ExecutionContext) {
     if (err || !user) {
       throw err || new UnauthorizedException('Invalid or expired token');
     }
+
+    if (user.apiKey) {
+      const scope = this.reflector.getAllAndOverride<Permission>(API_KEY_SCOPE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (!scope) {
+        throw new ForbiddenException('This endpoint does not accept API keys');
+      }
+      if (!user.apiKey.scopes.includes(scope)) {
+        throw new ForbiddenException(`API key is missing the ${scope} scope`);
+      }
+      if (!hasPermission(user.role, scope)) {
+        throw new ForbiddenException(`The role of the API key's owner no longer allows ${scope}`);
+      }
+    }
+
     return user;
   }
 }
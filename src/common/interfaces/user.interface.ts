@@ -1,12 +1,21 @@
+import { UserRole } from '../enums/user-role.enum';
+import { Permission } from '../utils/permissions';
+
 export interface User {
   id: string;
   email: string;
   username: string;
+  role: UserRole;
+  emailVerifiedAt?: Date | null;
+  organizationId?: string | null;
+  franchiseId?: string | null;
   createdAt: Date;
+  apiKey?: { id: string; scopes: Permission[] }; // Set when the request authenticated with an API key
 }
 
 export interface JwtPayload {
   sub: string;
   email: string;
   username: string;
+  ver: number; // Token version of the user when the token was issued
 }
@@ -0,0 +1,156 @@
+import { FindOperator } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+
+type Row = Record<string, any>;
+type Where<T> = Partial<Record<keyof T, any>>;
+
+interface FindOptions<T> {
+  where?: Where<T> | Where<T>[];
+  order?: Partial<Record<keyof T, 'ASC' | 'DESC'>>;
+  take?: number;
+}
+
+/**
+ * Minimal stand-in for a TypeORM repository in service specs. Rows live in memory; `where`
+ * supports plain values and the In, IsNull, LessThan and Not operators, and OR-ed arrays.
+ * Rows are copied on the way in and out, as they would be by the database.
+ */
+export class InMemoryRepository<T extends Row> {
+  readonly rows: T[] = [];
+
+  constructor(private readonly defaults: Partial<T> = {}) {}
+
+  create(data: Partial<T> = {}): T {
+    return { ...data } as T;
+  }
+
+  async save(entity: T): Promise<T> {
+    const now = new Date();
+    const existing = entity.id ? this.rows.find((row) => row.id === entity.id) : undefined;
+
+    if (existing) {
+      Object.assign(existing, entity, { updatedAt: now });
+      return entity;
+    }
+
+    Object.assign(entity, { ...this.defaults, ...entity });
+    (entity as Row).id ??= uuidv4();
+    (entity as Row).createdAt ??= now;
+    (entity as Row).updatedAt = now;
+    this.rows.push({ ...entity });
+    return entity;
+  }
+
+  async find(options: FindOptions<T> = {}): Promise<T[]> {
+    let rows = this.rows.filter((row) => this.matches(row, options.where));
+
+    if (options.order) {
+      const order = Object.entries(options.order);
+      rows = [...rows].sort((a, b) => {
+        for (const [field, direction] of order) {
+          const diff = this.compare(a[field], b[field]);
+          if (diff !== 0) {
+            return direction === 'DESC' ? -diff : diff;
+          }
+        }
+        return 0;
+      });
+    }
+
+    return rows.slice(0, options.take ?? rows.length).map((row) => ({ ...row }));
+  }
+
+  async findOne(options: FindOptions<T>): Promise<T | null> {
+    const [row] = await this.find({ ...options, take: 1 });
+    return row ?? null;
+  }
+
+  async count(options: FindOptions<T> = {}): Promise<number> {
+    return this.rows.filter((row) => this.matches(row, options.where)).length;
+  }
+
+  async update(criteria: string | Where<T>, partial: Partial<T>): Promise<{ affected: number }> {
+    const rows = this.rows.filter((row) => this.matches(row, this.toWhere(criteria)));
+    // Raw SQL expressions (e.g. `() => 'usage_count + 1'`) are not evaluated
+    const values = Object.fromEntries(
+      Object.entries(partial).filter(([, value]) => typeof value !== 'function'),
+    );
+
+    rows.forEach((row) => Object.assign(row, values));
+    return { affected: rows.length };
+  }
+
+  async increment(
+    criteria: Where<T>,
+    property: keyof T & string,
+    value: number,
+  ): Promise<{ affected: number }> {
+    const rows = this.rows.filter((row) => this.matches(row, criteria));
+
+    rows.forEach((row) => ((row as any)[property] = ((row as any)[property] ?? 0) + value));
+    return { affected: rows.length };
+  }
+
+  async delete(criteria: string | Where<T>): Promise<{ affected: number }> {
+    const where = this.toWhere(criteria);
+    const before = this.rows.length;
+
+    for (let i = this.rows.length - 1; i >= 0; i--) {
+      if (this.matches(this.rows[i], where)) {
+        this.rows.splice(i, 1);
+      }
+    }
+    return { affected: before - this.rows.length };
+  }
+
+  private toWhere(criteria: string | Where<T>): Where<T> {
+    return typeof criteria === 'string' ? ({ id: criteria } as Where<T>) : criteria;
+  }
+
+  private matches(row: T, where?: Where<T> | Where<T>[]): boolean {
+    if (!where) {
+      return true;
+    }
+    if (Array.isArray(where)) {
+      return where.some((condition) => this.matches(row, condition));
+    }
+    return Object.entries(where).every(([field, expected]) =>
+      this.matchesValue(row[field], expected),
+    );
+  }
+
+  private matchesValue(actual: any, expected: any): boolean {
+    if (!(expected instanceof FindOperator)) {
+      return this.compare(actual, expected) === 0;
+    }
+
+    switch (expected.type) {
+      case 'in':
+        return expected.value.some((value: any) => this.compare(actual, value) === 0);
+      case 'isNull':
+        return actual === null || actual === undefined;
+      case 'lessThan':
+        return actual !== null && actual !== undefined && this.compare(actual, expected.value) < 0;
+      case 'not':
+        return !this.matchesValue(actual, expected.child ?? expected.value);
+      default:
+        throw new Error(`Unsupported find operator: ${expected.type}`);
+    }
+  }
+
+  private compare(a: any, b: any): number {
+    const left = a instanceof Date ? a.getTime() : (a ?? null);
+    const right = b instanceof Date ? b.getTime() : (b ?? null);
+
+    if (left === right) {
+      return 0;
+    }
+    if (left === null) {
+      return -1;
+    }
+    if (right === null) {
+      return 1;
+    }
+    return left < right ? -1 : 1;
+  }
+}
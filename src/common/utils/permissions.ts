@@ -0,0 +1,40 @@
+import { ForbiddenException } from '@nestjs/common';
+import { UserRole } from '../enums/user-role.enum';
+
+export type Permission =
+  | 'documents:read'
+  | 'documents:write'
+  | 'documents:delete'
+  | 'folders:read'
+  | 'folders:write'
+  | 'chat:ask'
+  | 'users:manage'
+  | 'system:manage';
+
+const READ_PERMISSIONS: Permission[] = ['documents:read', 'folders:read', 'chat:ask'];
+const WRITE_PERMISSIONS: Permission[] = [
+  ...READ_PERMISSIONS,
+  'documents:write',
+  'documents:delete',
+  'folders:write',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.PLATFORM_ADMIN]: [...WRITE_PERMISSIONS, 'users:manage', 'system:manage'],
+  [UserRole.FRANCHISOR]: WRITE_PERMISSIONS,
+  [UserRole.FRANCHISE_OWNER]: WRITE_PERMISSIONS,
+  [UserRole.FRANCHISE_STAFF]: READ_PERMISSIONS,
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Throw 403 unless the role grants the permission
+ */
+export function assertPermission(user: { role: UserRole }, permission: Permission): void {
+  if (!hasPermission(user.role, permission)) {
+    throw new ForbiddenException(`Your role does not allow ${permission}`);
+  }
+}
@@ -0,0 +1,91 @@
+import { UserRole } from '../enums/user-role.enum';
+import {
+  TenantMember,
+  canModifyTenantContent,
+  canReadTenantContent,
+  getReadableScopes,
+  getTenantScope,
+} from './tenant-scope';
+
+describe('tenant scope', () => {
+  const admin: TenantMember = { id: 'admin', role: UserRole.PLATFORM_ADMIN };
+  const hq: TenantMember = { id: 'hq', role: UserRole.FRANCHISOR, organizationId: 'org-1' };
+  const owner: TenantMember = {
+    id: 'owner',
+    role: UserRole.FRANCHISE_OWNER,
+    organizationId: 'org-1',
+    franchiseId: 'fr-1',
+  };
+  const staff: TenantMember = {
+    id: 'staff',
+    role: UserRole.FRANCHISE_STAFF,
+    organizationId: 'org-1',
+    franchiseId: 'fr-1',
+  };
+  const otherOutlet: TenantMember = {
+    id: 'other-owner',
+    role: UserRole.FRANCHISE_OWNER,
+    organizationId: 'org-1',
+    franchiseId: 'fr-2',
+  };
+  const outsider: TenantMember = { id: 'outsider', role: UserRole.FRANCHISOR };
+
+  const manual = { userId: 'hq', organizationId: 'org-1', franchiseId: null };
+  const outletDoc = { userId: 'owner', organizationId: 'org-1', franchiseId: 'fr-1' };
+  const privateDoc = { userId: 'outsider', organizationId: null, franchiseId: null };
+
+  it('stamps the narrowest scope of the owner', () => {
+    expect(getTenantScope(outletDoc)).toBe('franchise:fr-1');
+    expect(getTenantScope(manual)).toBe('org:org-1');
+    expect(getTenantScope(privateDoc)).toBe('user:outsider');
+  });
+
+  it('lets outlet members read their own, HQ and outlet scopes', () => {
+    expect(getReadableScopes(staff)).toEqual(['user:staff', 'org:org-1', 'franchise:fr-1']);
+    expect(getReadableScopes(outsider)).toEqual(['user:outsider']);
+  });
+
+  describe('canReadTenantContent', () => {
+    it('shares HQ content with every outlet of the organization', () => {
+      expect(canReadTenantContent(staff, manual)).toBe(true);
+      expect(canReadTenantContent(otherOutlet, manual)).toBe(true);
+    });
+
+    it('keeps outlet content within the outlet', () => {
+      expect(canReadTenantContent(staff, outletDoc)).toBe(true);
+      expect(canReadTenantContent(otherOutlet, outletDoc)).toBe(false);
+      expect(canReadTenantContent(hq, outletDoc)).toBe(false);
+    });
+
+    it('keeps private content with its owner and platform admins', () => {
+      expect(canReadTenantContent(outsider, privateDoc)).toBe(true);
+      expect(canReadTenantContent(admin, privateDoc)).toBe(true);
+      expect(canReadTenantContent(hq, privateDoc)).toBe(false);
+      expect(canReadTenantContent(outsider, manual)).toBe(false);
+    });
+  });
+
+  describe('canModifyTenantContent', () => {
+    it('lets franchisor HQ users change HQ content only', () => {
+      expect(canModifyTenantContent({ ...hq, id: 'hq-2' }, manual)).toBe(true);
+      expect(canModifyTenantContent(hq, outletDoc)).toBe(false);
+    });
+
+    it('lets franchise owners change their outlet content only', () => {
+      expect(canModifyTenantContent(owner, { ...outletDoc, userId: 'staff' })).toBe(true);
+      expect(canModifyTenantContent(otherOutlet, outletDoc)).toBe(false);
+      expect(canModifyTenantContent(owner, manual)).toBe(false);
+    });
+
+    it('does not let staff change content they can read', () => {
+      expect(canReadTenantContent(staff, outletDoc)).toBe(true);
+      expect(canModifyTenantContent(staff, outletDoc)).toBe(false);
+      expect(canModifyTenantContent(staff, manual)).toBe(false);
+    });
+
+    it('lets owners and platform admins change anything they own or administer', () => {
+      expect(canModifyTenantContent(outsider, privateDoc)).toBe(true);
+      expect(canModifyTenantContent(admin, outletDoc)).toBe(true);
+    });
+  });
+});
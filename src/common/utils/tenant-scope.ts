@@ -0,0 +1,134 @@
+import { IsNull } from 'typeorm';
+import { UserRole } from '../enums/user-role.enum';
+
+export interface TenantOwned {
+  userId: string;
+  organizationId?: string | null;
+  franchiseId?: string | null;
+}
+
+export interface TenantMember {
+  id: string;
+  role: UserRole;
+  organizationId?: string | null;
+  franchiseId?: string | null;
+}
+
+/**
+ * Scope string stamped on content (vector chunk metadata `scope`, Q&A cache entries):
+ * outlet content is private to the franchise, HQ content is shared with the whole
+ * organization, and content of users without an organization stays with its owner.
+ */
+export function getTenantScope(owner: TenantOwned): string {
+  if (owner.franchiseId) {
+    return `franchise:${owner.franchiseId}`;
+  }
+  if (owner.organizationId) {
+    return `org:${owner.organizationId}`;
+  }
+  return `user:${owner.userId}`;
+}
+
+/**
+ * Scope of content created by the user
+ */
+export function getUserScope(user: TenantMember): string {
+  return getTenantScope({
+    userId: user.id,
+    organizationId: user.organizationId,
+    franchiseId: user.franchiseId,
+  });
+}
+
+/**
+ * Scopes whose content the user can read: their own, their organization's HQ content and
+ * their franchise's content
+ */
+export function getReadableScopes(user: TenantMember): string[] {
+  const scopes = [`user:${user.id}`];
+  if (user.organizationId) {
+    scopes.push(`org:${user.organizationId}`);
+  }
+  if (user.organizationId && user.franchiseId) {
+    scopes.push(`franchise:${user.franchiseId}`);
+  }
+  return scopes;
+}
+
+export function canReadTenantContent(user: TenantMember, content: TenantOwned): boolean {
+  if (user.role === UserRole.PLATFORM_ADMIN || content.userId === user.id) {
+    return true;
+  }
+  if (!user.organizationId || content.organizationId !== user.organizationId) {
+    return false;
+  }
+  return !content.franchiseId || content.franchiseId === user.franchiseId;
+}
+
+/**
+ * Owners and platform admins can change content; so can franchisor HQ users for their
+ * organization's HQ content and franchise owners for their outlet's content
+ */
+export function canModifyTenantContent(user: TenantMember, content: TenantOwned): boolean {
+  if (user.role === UserRole.PLATFORM_ADMIN || content.userId === user.id) {
+    return true;
+  }
+  if (!user.organizationId || content.organizationId !== user.organizationId) {
+    return false;
+  }
+  if (!content.franchiseId) {
+    return user.role === UserRole.FRANCHISOR && !user.franchiseId;
+  }
+  return user.role === UserRole.FRANCHISE_OWNER && content.franchiseId === user.franchiseId;
+}
+
+/**
+ * SQL condition (for query builders) matching rows of `alias` the user can read;
+ * null when the user can read everything
+ */
+export function readableCondition(
+  alias: string,
+  user: TenantMember,
+): { sql: string; params: Record<string, any> } | null {
+  if (user.role === UserRole.PLATFORM_ADMIN) {
+    return null;
+  }
+  if (!user.organizationId) {
+    return { sql: `${alias}.userId = :readerId`, params: { readerId: user.id } };
+  }
+
+  const outlet = user.franchiseId
+    ? `${alias}.franchiseId IS NULL OR ${alias}.franchiseId = :readerFranchiseId`
+    : `${alias}.franchiseId IS NULL`;
+
+  return {
+    sql: `(${alias}.userId = :readerId OR (${alias}.organizationId = :readerOrganizationId AND (${outlet})))`,
+    params: {
+      readerId: user.id,
+      readerOrganizationId: user.organizationId,
+      readerFranchiseId: user.franchiseId,
+    },
+  };
+}
+
+/**
+ * TypeORM where conditions (OR-ed) matching the content a user can read, combined with `where`
+ */
+export function readableWhere<T extends Record<string, any>>(user: TenantMember, where: T): T[] {
+  if (user.role === UserRole.PLATFORM_ADMIN) {
+    return [where];
+  }
+
+  const conditions: Record<string, any>[] = [{ ...where, userId: user.id }];
+  if (user.organizationId) {
+    conditions.push({ ...where, organizationId: user.organizationId, franchiseId: IsNull() });
+    if (user.franchiseId) {
+      conditions.push({
+        ...where,
+        organizationId: user.organizationId,
+        franchiseId: user.franchiseId,
+      });
+    }
+  }
+  return conditions as T[];
+}
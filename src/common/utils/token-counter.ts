@@ -0,0 +1,13 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+let encoding: Tiktoken;
+
+/**
+ * Count tokens with the cl100k_base encoding used by OpenAI's embedding models
+ * (an approximation for other providers)
+ */
+export function countTokens(text: string): number {
+  // Loading the ranks takes a moment, so do it on first use
+  encoding = encoding || getEncoding('cl100k_base');
+  return encoding.encode(text).length;
+}
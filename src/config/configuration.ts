@@ -3,7 +3,64 @@ export default () => ({
 
   jwt: {
     secret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m', // Access tokens
+    refreshTtlDays: parseInt(process.env.JWT_REFRESH_TTL_DAYS, 10) || 30,
+  },
+
+  auth: {
+    // Users with these emails are given the platform_admin role once verified (comma-separated)
+    platformAdminEmails: (process.env.PLATFORM_ADMIN_EMAILS || '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES, 10) || 60,
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS, 10) || 48,
+    // Opt-in demo account for local development
+    demoUser: {
+      enabled: process.env.DEMO_USER_ENABLED === 'true',
+      email: process.env.DEMO_USER_EMAIL || 'demo@example.com',
+      password: process.env.DEMO_USER_PASSWORD || 'demo123',
+    },
+  },
+
+  knowledgeBase: {
+    // Queue answers generated without knowledge base context for review (self-learning)
+    selfLearningEnabled: process.env.KB_SELF_LEARNING_ENABLED !== 'false',
+  },
+
+  organizations: {
+    invitationTtlDays: parseInt(process.env.ORGANIZATION_INVITATION_TTL_DAYS, 10) || 7,
+  },
+
+  apiKeys: {
+    // Per-key request limit when the key does not set its own
+    defaultRateLimitPerMinute: parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE, 10) || 60,
+  },
+
+  mail: {
+    provider: process.env.MAIL_PROVIDER || 'file', // 'smtp' or 'file' (local testing)
+    from: process.env.MAIL_FROM || 'AI Assistant <no-reply@example.com>',
+    appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, ''), // Links in emails
+    outputDir: process.env.MAIL_OUTPUT_DIR || 'mail-outbox',
+    smtpHost: process.env.SMTP_HOST,
+    smtpPort: parseInt(process.env.SMTP_PORT, 10) || 587,
+    smtpSecure: process.env.SMTP_SECURE === 'true', // TLS from the start (port 465)
+    smtpUser: process.env.SMTP_USER,
+    smtpPassword: process.env.SMTP_PASSWORD,
+  },
+
+  ai: {
+    provider: process.env.AI_PROVIDER || 'openai', // 'openai', 'openai-compatible' or 'fake'
+    embeddingProvider: process.env.AI_EMBEDDING_PROVIDER, // Defaults to ai.provider
+    // Per-request routing by model name, e.g. "llama3*=openai-compatible,gpt-4o=openai"
+    modelRoutes: (process.env.AI_MODEL_ROUTES || '')
+      .split(',')
+      .map((route) => route.trim())
+      .filter((route) => route.includes('='))
+      .map((route) => {
+        const [pattern, provider] = route.split('=');
+        return { pattern: pattern.trim(), provider: provider.trim() };
+      }),
   },
 
   openai: {
@@ -12,11 +69,22 @@ export default () => ({
     embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
   },
 
+  openaiCompatible: {
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL, // e.g. http://localhost:11434/v1 for Ollama
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    model: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+    embeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || 'nomic-embed-text',
+    visionModel: process.env.OPENAI_COMPATIBLE_VISION_MODEL,
+  },
+
   vector: {
     provider: process.env.VECTOR_PROVIDER || 'chroma',
     chromaMode: process.env.CHROMA_MODE || 'local', // 'local' or 'cloud'
     chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
     collectionName: process.env.COLLECTION_NAME || 'ai-assistant-docs',
+    pgvectorTable: process.env.PGVECTOR_TABLE || 'vector_chunks', // Prefix of the per-collection tables
+    // HNSW candidates scanned per search; raise it if filtered searches return too few chunks
+    pgvectorEfSearch: parseInt(process.env.PGVECTOR_EF_SEARCH, 10) || 100,
     chromaCloud: {
       apiKey: process.env.CHROMA_CLOUD_API_KEY,
       tenant: process.env.CHROMA_CLOUD_TENANT,
@@ -42,19 +110,73 @@ export default () => ({
       'text/plain',
       'application/msword',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/html',
+      'text/markdown',
+      'text/x-markdown',
     ],
   },
 
+  storage: {
+    provider: process.env.STORAGE_PROVIDER || 'local', // 'local', 's3' or 'memory'
+    localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    s3Endpoint: process.env.S3_ENDPOINT, // e.g. http://localhost:9000 for MinIO
+    s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    s3Prefix: (process.env.S3_PREFIX || '').replace(/\/+$/, ''),
+  },
+
+  download: {
+    // Signs short-lived download links (GET /documents/:id/download/signed); derived from
+    // jwt.secret when unset (see DocumentDownloadService)
+    urlSecret: process.env.DOWNLOAD_URL_SECRET,
+    urlTtlSeconds: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS, 10) || 300,
+    publicBaseUrl: (process.env.PUBLIC_API_URL || '').replace(/\/$/, ''), // Prefix for signed URLs
+  },
+
   ingestion: {
     chunkSize: parseInt(process.env.CHUNK_SIZE, 10) || 1000,
     chunkOverlap: parseInt(process.env.CHUNK_OVERLAP, 10) || 200,
   },
 
+  enrichment: {
+    enabled: process.env.ENRICHMENT_ENABLED !== 'false',
+    // Franchise taxonomy the AI picks a category from
+    categories: (
+      process.env.ENRICHMENT_CATEGORIES ||
+      'Operations,HR,Marketing,Finance,Compliance,Training,Legal,Other'
+    )
+      .split(',')
+      .map((category) => category.trim())
+      .filter(Boolean),
+    maxContentChars: parseInt(process.env.ENRICHMENT_MAX_CONTENT_CHARS, 10) || 12000,
+    model: process.env.ENRICHMENT_MODEL, // Defaults to the default chat model
+  },
+
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false', // Run queue workers in this process
+    concurrency: parseInt(process.env.JOB_CONCURRENCY, 10) || 2,
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS, 10) || 2000,
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS, 10) || 3,
+    backoffMs: parseInt(process.env.JOB_BACKOFF_MS, 10) || 5000, // Doubles with each attempt
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS, 10) || 120000,
+  },
+
   chat: {
     topK: parseInt(process.env.CHAT_TOP_K, 10) || 5,
     temperature: parseFloat(process.env.CHAT_TEMPERATURE) || 0.7,
     maxTokens: parseInt(process.env.CHAT_MAX_TOKENS, 10) || 2048,
     relevanceThreshold: parseFloat(process.env.CHAT_RELEVANCE_THRESHOLD) || 0.5,
     enableSuggestions: process.env.CHAT_ENABLE_SUGGESTIONS !== 'false',
+    // Q&A cache entries unused for this long are removed by a periodic sweep
+    cacheTtlDays: parseInt(process.env.CHAT_CACHE_TTL_DAYS, 10) || 30,
+    cacheSweepEnabled: process.env.CHAT_CACHE_SWEEP_ENABLED !== 'false',
+    cacheSweepIntervalMinutes: parseInt(process.env.CHAT_CACHE_SWEEP_INTERVAL_MINUTES, 10) || 60,
+    // Minimum cosine similarity for a cached answer to be reused (organizations can override it)
+    cacheSimilarityThreshold: parseFloat(process.env.CHAT_CACHE_SIMILARITY_THRESHOLD) || 0.85,
+    // Model that rewrites follow-ups into standalone cache questions (default: the answering model)
+    condenseModel: process.env.CHAT_CONDENSE_MODEL,
   },
 });
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity, DocumentMetadata } from './document.entity';
+
+@Entity('document_versions')
+@Index(['documentId', 'versionNumber'], { unique: true })
+export class DocumentVersionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  documentId: string;
+
+  @ManyToOne(() => DocumentEntity, (document) => document.versions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: DocumentEntity;
+
+  @Column({ type: 'int' })
+  versionNumber: number;
+
+  @Column()
+  fileName: string;
+
+  @Column()
+  originalName: string;
+
+  @Column()
+  filePath: string; // Storage key of this revision's file
+
+  @Column({ type: 'bigint' })
+  fileSize: number;
+
+  @Column()
+  mimeType: string;
+
+  @Column({ nullable: true })
+  contentHash: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  metadata: DocumentMetadata; // Snapshot taken when another version became active
+
+  @Column({ nullable: true })
+  note: string;
+
+  @Column()
+  uploadedBy: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,8 +1,40 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
 import { UserEntity } from './user.entity';
 import { FolderEntity } from './folder.entity';
+import { DocumentVersionEntity } from './document-version.entity';
+import { PageOffset } from '../modules/extraction/interfaces/document-extractor.interface';
+
+// How a document's chunks were produced, per vector collection (see ReindexService)
+export interface IndexFingerprint {
+  embeddingModel: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  contentHash: string;
+  indexedAt: string;
+}
+
+export interface DocumentMetadata {
+  summary?: string;
+  keywords?: string[];
+  category?: string;
+  tags?: string[];
+  enrichedAt?: string; // Last automatic enrichment
+  overrides?: string[]; // Fields set manually - never replaced by enrichment
+}
 
 @Entity('documents')
+@Index(['userId', 'contentHash'])
+@Index(['organizationId', 'franchiseId'])
 export class DocumentEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -14,6 +46,13 @@ export class DocumentEntity {
   @JoinColumn({ name: 'userId' })
   user: UserEntity;
 
+  // Tenant: HQ content when franchiseId is null, outlet-private otherwise (see TenantScope)
+  @Column({ nullable: true })
+  organizationId: string;
+
+  @Column({ nullable: true })
+  franchiseId: string;
+
   @Column({ nullable: true })
   folderId: string;
 
@@ -31,7 +70,7 @@ export class DocumentEntity {
   originalName: string;
 
   @Column()
-  filePath: string;
+  filePath: string; // Storage key (see StorageService); absolute local paths for older uploads
 
   @Column({ type: 'bigint' })
   fileSize: number;
@@ -39,21 +78,33 @@ export class DocumentEntity {
   @Column()
   mimeType: string;
 
+  @Column({ nullable: true })
+  contentHash: string; // SHA-256 of the active version's file; null for documents uploaded before hashing
+
   @Column({ default: 'pending' })
   status: 'pending' | 'processing' | 'completed' | 'failed';
 
   @Column({ nullable: true })
   errorMessage: string;
 
-  @Column({ type: 'text', nullable: true })
+  // Not loaded by default - can be large; see DocumentsService.getDocumentContent
+  @Column({ type: 'text', nullable: true, select: false })
   extractedContent: string;
 
+  @Column({ type: 'simple-json', nullable: true, select: false })
+  pageOffsets: PageOffset[]; // Where each PDF page starts and ends in extractedContent
+
   @Column({ type: 'simple-json', nullable: true })
-  metadata: {
-    keywords?: string[];
-    category?: string;
-    tags?: string[];
-  };
+  metadata: DocumentMetadata;
+
+  @Column({ type: 'simple-json', nullable: true })
+  indexInfo: Record<string, IndexFingerprint>; // Keyed by collection name
+
+  @Column({ type: 'int', default: 1 })
+  currentVersion: number; // versionNumber of the active revision (the one indexed for chat)
+
+  @OneToMany(() => DocumentVersionEntity, (version) => version.document)
+  versions: DocumentVersionEntity[];
 
   @CreateDateColumn()
   uploadedAt: Date;
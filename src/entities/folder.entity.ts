@@ -25,6 +25,13 @@ export class FolderEntity {
   @Column()
   userId: string;
 
+  // Tenant, as for documents
+  @Column({ nullable: true })
+  organizationId: string;
+
+  @Column({ nullable: true })
+  franchiseId: string;
+
   @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user: UserEntity;
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { OrganizationEntity } from './organization.entity';
+
+/**
+ * An outlet of a franchisor. Its content is private to its members.
+ */
+@Entity('franchises')
+@Index(['organizationId'])
+export class FranchiseEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  organizationId: string;
+
+  @ManyToOne(() => OrganizationEntity, (organization) => organization.franchises, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  code: string; // e.g. the outlet's store number
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
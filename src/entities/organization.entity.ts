@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { FranchiseEntity } from './franchise.entity';
+
+/**
+ * A franchisor (tenant). Its HQ content is visible to every franchise under it.
+ */
+@Entity('organizations')
+export class OrganizationEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ default: true })
+  selfLearningEnabled: boolean; // Queue AI-generated answers for the knowledge base
+
+  @Column({ type: 'float', nullable: true })
+  cacheSimilarityThreshold: number; // Overrides chat.cacheSimilarityThreshold when set
+
+  @OneToMany(() => FranchiseEntity, (franchise) => franchise.organization)
+  franchises: FranchiseEntity[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
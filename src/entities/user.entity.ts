@@ -1,6 +1,18 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
 import { ChatSessionEntity } from './chat-session.entity';
 import { DocumentEntity } from './document.entity';
+import { OrganizationEntity } from './organization.entity';
+import { FranchiseEntity } from './franchise.entity';
+import { UserRole } from '../common/enums/user-role.enum';
 
 @Entity('users')
 export class UserEntity {
@@ -16,6 +28,30 @@ export class UserEntity {
   @Column()
   password: string;
 
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date;
+
+  @Column({ type: 'varchar', length: 32, default: UserRole.FRANCHISE_OWNER })
+  role: UserRole;
+
+  @Column({ type: 'int', default: 0 })
+  tokenVersion: number; // Carried by access tokens; bumped to revoke all of them (see AuthService)
+
+  // Membership: a franchisor (HQ user when franchiseId is null) and optionally one of its outlets
+  @Column({ nullable: true })
+  organizationId: string;
+
+  @ManyToOne(() => OrganizationEntity, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity;
+
+  @Column({ nullable: true })
+  franchiseId: string;
+
+  @ManyToOne(() => FranchiseEntity, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'franchiseId' })
+  franchise: FranchiseEntity;
+
   @OneToMany(() => ChatSessionEntity, session => session.user)
   sessions: ChatSessionEntity[];
 
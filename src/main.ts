@@ -49,6 +49,9 @@ async function bootstrap() {
     }),
   );
 
+  // Let background job workers finish in-flight jobs on SIGTERM
+  app.enableShutdownHooks();
+
   // Global exception filter
   app.useGlobalFilters(new HttpExceptionFilter());
 
@@ -67,6 +70,7 @@ async function bootstrap() {
     .addTag('auth', 'Authentication endpoints')
     .addTag('documents', 'Document management')
     .addTag('chat', 'Chat with AI assistant')
+    .addTag('jobs', 'Background job status')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
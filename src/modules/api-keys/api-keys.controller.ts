@@ -0,0 +1,64 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../../common/interfaces/user.interface';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+// Keys are managed with a signed-in session only: routes here have no @ApiKeyScope
+@ApiTags('api-keys')
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key (the key is only returned once)' })
+  @ApiResponse({ status: 201, description: 'API key created successfully' })
+  @ApiResponse({ status: 403, description: 'Scope or franchise not allowed' })
+  async createKey(@Body() dto: CreateApiKeyDto, @CurrentUser() user: User) {
+    const apiKey = await this.apiKeysService.createKey(user, dto);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'API key created successfully. Store it now: it will not be shown again.',
+      data: apiKey,
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List the user's API keys" })
+  @ApiResponse({ status: 200, description: 'API keys retrieved successfully' })
+  async getKeys(@CurrentUser() user: User) {
+    const apiKeys = await this.apiKeysService.getKeys(user.id);
+    return {
+      statusCode: HttpStatus.OK,
+      data: apiKeys,
+    };
+  }
+
+  @Get('organization')
+  @ApiOperation({ summary: "List the API keys of the organization's members (franchisor HQ)" })
+  @ApiResponse({ status: 200, description: 'API keys retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getOrganizationKeys(@CurrentUser() user: User) {
+    const apiKeys = await this.apiKeysService.getOrganizationKeys(user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: apiKeys,
+    };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 200, description: 'API key revoked successfully' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeKey(@Param('id') id: string, @CurrentUser() user: User) {
+    await this.apiKeysService.revokeKey(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'API key revoked successfully',
+    };
+  }
+}
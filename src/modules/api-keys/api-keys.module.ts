@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PassportModule } from '@nestjs/passport';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { ApiKeyEntity } from './entities/api-key.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiKeyEntity, FranchiseEntity]), PassportModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyStrategy],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
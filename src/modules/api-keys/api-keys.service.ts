@@ -0,0 +1,241 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyEntity } from './entities/api-key.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+import { User } from '../../common/interfaces/user.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { Permission, hasPermission } from '../../common/utils/permissions';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+// Scopes an API key can carry (never user or system administration)
+export const API_KEY_SCOPES: Permission[] = [
+  'documents:read',
+  'documents:write',
+  'documents:delete',
+  'folders:read',
+  'folders:write',
+  'chat:ask',
+];
+
+const KEY_PREFIX = 'ak_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 unless the limit was exceeded
+}
+
+/**
+ * API Keys Service
+ * Keys are shown once at creation and stored hashed. Rate limits are counted per key in
+ * fixed one-minute windows, in memory (per API instance).
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly defaultRateLimit: number;
+  private readonly windows = new Map<string, { startedAt: number; count: number }>();
+
+  constructor(
+    @InjectRepository(ApiKeyEntity)
+    private apiKeyRepository: Repository<ApiKeyEntity>,
+    @InjectRepository(FranchiseEntity)
+    private franchiseRepository: Repository<FranchiseEntity>,
+    private configService: ConfigService,
+  ) {
+    this.defaultRateLimit = this.configService.get<number>('apiKeys.defaultRateLimitPerMinute');
+  }
+
+  /**
+   * Create a key; the returned `key` is the only time the secret is available
+   */
+  async createKey(user: User, dto: CreateApiKeyDto): Promise<ApiKeyEntity & { key: string }> {
+    const notGranted = dto.scopes.filter((scope) => !hasPermission(user.role, scope));
+    if (notGranted.length > 0) {
+      throw new ForbiddenException(`Your role does not allow ${notGranted.join(', ')}`);
+    }
+
+    if (dto.franchiseId) {
+      const isHq =
+        user.role === UserRole.PLATFORM_ADMIN ||
+        (user.role === UserRole.FRANCHISOR && !user.franchiseId);
+      const franchise = await this.franchiseRepository.findOne({
+        where: { id: dto.franchiseId },
+      });
+
+      if (!isHq || !user.organizationId) {
+        throw new ForbiddenException('Only the franchisor HQ can create keys for a franchise');
+      }
+      if (!franchise || franchise.organizationId !== user.organizationId) {
+        throw new BadRequestException('Franchise not found in your organization');
+      }
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const saved = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        userId: user.id,
+        name: dto.name,
+        prefix: key.slice(0, 10),
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        franchiseId: dto.franchiseId || null,
+        rateLimitPerMinute: dto.rateLimitPerMinute || null,
+        expiresAt: dto.expiresInDays ? new Date(Date.now() + dto.expiresInDays * DAY_MS) : null,
+      }),
+    );
+    delete saved.keyHash;
+
+    this.logger.log(`🔑 API key "${saved.name}" (${saved.prefix}…) created by ${user.email}`);
+    return { ...saved, key };
+  }
+
+  async getKeys(userId: string): Promise<ApiKeyEntity[]> {
+    return this.apiKeyRepository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Keys of every member of the user's organization (all keys for platform admins)
+   */
+  async getOrganizationKeys(user: User): Promise<ApiKeyEntity[]> {
+    const query = this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .innerJoin('apiKey.user', 'owner')
+      .addSelect(['owner.id', 'owner.email', 'owner.username'])
+      .orderBy('apiKey.createdAt', 'DESC');
+
+    if (user.role !== UserRole.PLATFORM_ADMIN) {
+      if (user.role !== UserRole.FRANCHISOR || !user.organizationId || user.franchiseId) {
+        throw new ForbiddenException('Only the franchisor HQ can list organization keys');
+      }
+      query.where('owner.organizationId = :organizationId', {
+        organizationId: user.organizationId,
+      });
+    }
+
+    return query.getMany();
+  }
+
+  /**
+   * Revoke a key: its owner, HQ franchisors of the owner's organization and platform admins may
+   */
+  async revokeKey(keyId: string, user: User): Promise<void> {
+    const key = await this.apiKeyRepository.findOne({
+      where: { id: keyId },
+      relations: ['user'],
+    });
+
+    const canRevoke =
+      key &&
+      (key.userId === user.id ||
+        user.role === UserRole.PLATFORM_ADMIN ||
+        (user.role === UserRole.FRANCHISOR &&
+          !user.franchiseId &&
+          !!user.organizationId &&
+          key.user?.organizationId === user.organizationId));
+
+    if (!canRevoke) {
+      throw new NotFoundException('API key not found');
+    }
+    if (key.revokedAt) {
+      return;
+    }
+
+    await this.apiKeyRepository.update(keyId, { revokedAt: new Date() });
+    this.windows.delete(keyId);
+    this.logger.log(`API key ${key.prefix}… revoked by ${user.email}`);
+  }
+
+  /**
+   * Resolve a presented key to the user it acts as
+   */
+  async authenticate(key: string): Promise<{ apiKey: ApiKeyEntity; user: User }> {
+    const apiKey = key.startsWith(KEY_PREFIX)
+      ? await this.apiKeyRepository.findOne({
+          where: { keyHash: this.hashKey(key) },
+          relations: ['user'],
+        })
+      : null;
+
+    if (!apiKey || !apiKey.user || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: new Date() });
+    }
+
+    const { id, email, username, role, emailVerifiedAt, organizationId, franchiseId, createdAt } =
+      apiKey.user;
+    const user: User = {
+      id,
+      email,
+      username,
+      role,
+      emailVerifiedAt,
+      organizationId,
+      franchiseId,
+      createdAt,
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+    };
+
+    // Franchise keys act for the outlet, within the organization they were created in, with the
+    // creator's current role (scopes the role no longer grants are refused by JwtAuthGuard)
+    if (apiKey.franchiseId) {
+      const franchise = await this.franchiseRepository.findOne({
+        where: { id: apiKey.franchiseId },
+      });
+      if (!franchise || franchise.organizationId !== organizationId) {
+        throw new UnauthorizedException('API key is no longer valid for its franchise');
+      }
+      user.franchiseId = franchise.id;
+    }
+
+    return { apiKey, user };
+  }
+
+  /**
+   * Count a request against the key's per-minute limit
+   */
+  consumeRateLimit(apiKey: ApiKeyEntity): RateLimitState {
+    const limit = apiKey.rateLimitPerMinute || this.defaultRateLimit;
+    const now = Date.now();
+
+    let window = this.windows.get(apiKey.id);
+    if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(apiKey.id, window);
+    }
+
+    if (window.count >= limit) {
+      return {
+        limit,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000),
+      };
+    }
+
+    window.count++;
+    return { limit, remaining: limit - window.count, retryAfterSeconds: 0 };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
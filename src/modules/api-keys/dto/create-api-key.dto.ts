@@ -0,0 +1,49 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { API_KEY_SCOPES } from '../api-keys.service';
+import { Permission } from '../../../common/utils/permissions';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ description: 'What the key is used for', example: 'POS integration' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: API_KEY_SCOPES, isArray: true, example: ['chat:ask'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: Permission[];
+
+  @ApiPropertyOptional({
+    description: 'Bind the key to a franchise (outlet) of your organization (franchisor HQ only)',
+  })
+  @IsUUID()
+  @IsOptional()
+  franchiseId?: string;
+
+  @ApiPropertyOptional({ description: 'Requests per minute', example: 60 })
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  @IsOptional()
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({ description: 'Expire the key after this many days' })
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  @IsOptional()
+  expiresInDays?: number;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from '../../../entities/user.entity';
+import { Permission } from '../../../common/utils/permissions';
+
+/**
+ * API key for server-to-server integrations (stored as a SHA-256 hash). It acts as its owner,
+ * or, when franchiseId is set, as a franchise owner of that outlet of the owner's organization.
+ */
+@Entity('api_keys')
+@Index(['keyHash'], { unique: true })
+@Index(['userId'])
+export class ApiKeyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  prefix: string; // Start of the key, to recognize it in listings
+
+  @Column({ type: 'varchar', length: 64, select: false })
+  keyHash: string;
+
+  @Column({ type: 'simple-array' })
+  scopes: Permission[];
+
+  @Column({ nullable: true })
+  franchiseId: string; // Outlet the key is bound to (organization keys)
+
+  @Column({ type: 'int', nullable: true })
+  rateLimitPerMinute: number; // Defaults to apiKeys.defaultRateLimitPerMinute
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
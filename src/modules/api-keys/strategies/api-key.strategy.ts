@@ -0,0 +1,37 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import { User } from '../../../common/interfaces/user.interface';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(req: Request): Promise<User | null> {
+    const key = req.headers[API_KEY_HEADER];
+
+    // No key: let the request fail as unauthenticated
+    if (typeof key !== 'string' || !key) {
+      return null;
+    }
+
+    const { apiKey, user } = await this.apiKeysService.authenticate(key);
+    const rateLimit = this.apiKeysService.consumeRateLimit(apiKey);
+
+    req.res?.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    req.res?.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+
+    if (rateLimit.retryAfterSeconds > 0) {
+      req.res?.setHeader('Retry-After', rateLimit.retryAfterSeconds);
+      throw new HttpException('API key rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    return user;
+  }
+}
@@ -8,11 +8,19 @@ import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { UserEntity } from '../../entities/user.entity';
+import { UsersModule } from '../users/users.module';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { VerificationTokenEntity } from './entities/verification-token.entity';
+import { VerificationTokenService } from './services/verification-token.service';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([UserEntity]),
+    TypeOrmModule.forFeature([UserEntity, RefreshTokenEntity, VerificationTokenEntity]),
     PassportModule,
+    UsersModule,
+    MailModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -25,7 +33,13 @@ import { UserEntity } from '../../entities/user.entity';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
+  providers: [
+    AuthService,
+    RefreshTokenService,
+    VerificationTokenService,
+    JwtStrategy,
+    LocalStrategy,
+  ],
   exports: [AuthService],
 })
 export class AuthModule { }
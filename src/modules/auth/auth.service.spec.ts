@@ -0,0 +1,64 @@
+import { AuthService } from './auth.service';
+import { UserEntity } from '../../entities/user.entity';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { InMemoryRepository } from '../../common/testing/in-memory-repository';
+
+describe('AuthService', () => {
+  let repository: InMemoryRepository<UserEntity>;
+  let service: AuthService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository<UserEntity>();
+    await repository.save(
+      repository.create({
+        id: 'user-1',
+        email: 'user@example.com',
+        username: 'user',
+        password: 'hash',
+        role: UserRole.FRANCHISE_OWNER,
+        tokenVersion: 2,
+      }),
+    );
+    const refreshTokenService = { revokeAllForUser: jest.fn() };
+    service = new AuthService(
+      repository as any,
+      null,
+      null,
+      refreshTokenService as any,
+      null,
+      null,
+      null,
+    );
+  });
+
+  const payload = (ver: number) => ({
+    sub: 'user-1',
+    email: 'user@example.com',
+    username: 'user',
+    ver,
+  });
+
+  it('accepts access tokens of the current token version only', async () => {
+    await expect(service.validateAccessToken(payload(2))).resolves.toMatchObject({
+      id: 'user-1',
+    });
+    await expect(service.validateAccessToken(payload(1))).resolves.toBeNull();
+    await expect(
+      service.validateAccessToken({ ...payload(2), ver: undefined }),
+    ).resolves.toBeNull();
+  });
+
+  it('revokes every access token issued before logging out everywhere, however recent', async () => {
+    await service.logoutAll('user-1');
+
+    await expect(service.validateAccessToken(payload(2))).resolves.toBeNull();
+    await expect(service.validateAccessToken(payload(3))).resolves.not.toBeNull();
+  });
+
+  it('does not expose the password or token version', async () => {
+    const user = await service.validateAccessToken(payload(2));
+
+    expect(user).not.toHaveProperty('password');
+    expect(user).not.toHaveProperty('tokenVersion');
+  });
+});
@@ -1,47 +1,85 @@
-import { Injectable, UnauthorizedException, ConflictException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { User, JwtPayload } from '../../common/interfaces/user.interface';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { UserEntity } from '../../entities/user.entity';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { UsersService } from '../users/users.service';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { VerificationTokenService } from './services/verification-token.service';
+import { MailService } from '../mail/mail.service';
+
+export interface AuthResult {
+  user: User;
+  token: string; // Short-lived access token
+  refreshToken: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
 
 @Injectable()
-export class AuthService {
+export class AuthService implements OnApplicationBootstrap {
   private readonly logger = new Logger(AuthService.name);
 
   constructor(
     @InjectRepository(UserEntity)
     private userRepository: Repository<UserEntity>,
     private jwtService: JwtService,
-  ) {
-    // Create a demo user on startup
-    this.createDemoUser();
+    private usersService: UsersService,
+    private refreshTokenService: RefreshTokenService,
+    private verificationTokenService: VerificationTokenService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    if (this.configService.get<boolean>('auth.demoUser.enabled')) {
+      await this.createDemoUser();
+    }
   }
 
+  /**
+   * Create the demo account (auth.demoUser) if it does not exist yet
+   */
   private async createDemoUser() {
+    const { email, password } = this.configService.get<{ email: string; password: string }>(
+      'auth.demoUser',
+    );
+
     try {
-      const existingDemo = await this.userRepository.findOne({ where: { email: 'demo@example.com' } });
+      const existingDemo = await this.userRepository.findOne({ where: { email } });
       if (!existingDemo) {
-        const hashedPassword = await bcrypt.hash('demo123', 10);
+        const hashedPassword = await bcrypt.hash(password, 10);
         const demoUser = this.userRepository.create({
-          email: 'demo@example.com',
+          email,
           username: 'demo',
           password: hashedPassword,
+          emailVerifiedAt: new Date(),
         });
         await this.userRepository.save(demoUser);
-        this.logger.log('✅ Demo user created: demo@example.com / demo123');
+        this.logger.log(`✅ Demo user created: ${email}`);
       } else {
-        this.logger.log('ℹ️  Demo user already exists: demo@example.com / demo123');
+        this.logger.log(`ℹ️  Demo user already exists: ${email}`);
       }
     } catch (error) {
       this.logger.error('Failed to create demo user:', error.message);
     }
   }
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto): Promise<AuthResult> {
     const { email, password, username } = registerDto;
 
     // Check if user exists
@@ -58,39 +96,157 @@ export class AuthService {
       email,
       username,
       password: hashedPassword,
+      role: UserRole.FRANCHISE_OWNER, // Platform admins are only promoted once their email is verified
     });
 
     await this.userRepository.save(user);
 
     this.logger.log(`✅ New user registered: ${email}`);
 
-    // Generate token
-    const token = this.generateToken(user);
+    await this.sendVerificationEmail(user);
 
-    return {
-      user: this.sanitizeUser(user),
-      token,
-    };
+    return this.issueTokens(user);
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto): Promise<AuthResult> {
     const { email, password } = loginDto;
 
-    const user = await this.validateUser(email, password);
+    const user = await this.findUserByCredentials(email, password);
 
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const token = this.generateToken(user);
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token (rotation)
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const rotated = await this.refreshTokenService.rotate(refreshToken);
+    const user = await this.userRepository.findOne({ where: { id: rotated.userId } });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
 
     return {
       user: this.sanitizeUser(user),
-      token,
+      token: this.generateToken(user),
+      refreshToken: rotated.refreshToken,
     };
   }
 
+  /**
+   * End the session of a refresh token (the access token expires on its own)
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.refreshTokenService.revokeSession(refreshToken);
+  }
+
+  /**
+   * Change the password of a signed-in user; other sessions are logged out
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<AuthResult> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    await this.setPassword(userId, newPassword);
+    this.logger.log(`🔑 Password changed for ${user.email}`);
+
+    // Reload for the token version bumped by the logout of every session
+    return this.issueTokens(await this.userRepository.findOne({ where: { id: userId } }));
+  }
+
+  /**
+   * Email a password reset link. Unknown addresses are ignored so that the response does not
+   * reveal which emails have accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { email } });
+    if (!user) {
+      return;
+    }
+
+    const ttlMinutes = this.configService.get<number>('auth.passwordResetTtlMinutes');
+    const token = await this.verificationTokenService.issue(
+      user.id,
+      'password_reset',
+      ttlMinutes * MINUTE_MS,
+    );
+    const link = this.mailService.appLink('/reset-password', { token });
+
+    try {
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Hi ${user.username},\n\nUse this link to choose a new password (valid for ${ttlMinutes} minutes):\n${link}\n\nIf you did not ask for a password reset, you can ignore this email.`,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send password reset email to ${user.email}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set a new password with a reset token; every session is logged out
+   */
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    const userId = await this.verificationTokenService.consume(token, 'password_reset');
+
+    await this.setPassword(userId, newPassword);
+    // The reset link proves the user owns the address
+    await this.userRepository.update(
+      { id: userId, emailVerifiedAt: IsNull() },
+      { emailVerifiedAt: new Date() },
+    );
+    await this.usersService.grantPlatformAdminIfListed(userId);
+
+    this.logger.log(`🔑 Password reset for user ${userId}`);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.verificationTokenService.consume(token, 'email_verification');
+    await this.userRepository.update(userId, { emailVerifiedAt: new Date() });
+    await this.usersService.grantPlatformAdminIfListed(userId);
+    this.logger.log(`✅ Email verified for user ${userId}`);
+  }
+
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Revoke every refresh token and every access token issued so far
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.userRepository.increment({ id: userId }, 'tokenVersion', 1);
+    await this.refreshTokenService.revokeAllForUser(userId);
+    this.logger.log(`🔒 All sessions revoked for user ${userId}`);
+  }
+
   async validateUser(email: string, password: string): Promise<User | null> {
+    const user = await this.findUserByCredentials(email, password);
+    return user ? this.sanitizeUser(user) : null;
+  }
+
+  private async findUserByCredentials(email: string, password: string): Promise<UserEntity | null> {
     const user = await this.userRepository.findOne({ where: { email } });
 
     if (!user) {
@@ -103,7 +259,7 @@ export class AuthService {
       return null;
     }
 
-    return this.sanitizeUser(user);
+    return user;
   }
 
   async validateUserById(userId: string): Promise<User | null> {
@@ -116,18 +272,74 @@ export class AuthService {
     return this.sanitizeUser(user);
   }
 
-  generateToken(user: User): string {
+  /**
+   * User for an access token, unless the token carries an outdated token version: logging out
+   * everywhere bumps the version, revoking every token issued before, however recently
+   */
+  async validateAccessToken(payload: JwtPayload): Promise<User | null> {
+    const user = await this.userRepository.findOne({ where: { id: payload.sub } });
+
+    if (!user || payload.ver !== user.tokenVersion) {
+      return null;
+    }
+
+    return this.sanitizeUser(user);
+  }
+
+  generateToken(user: UserEntity): string {
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
       username: user.username,
+      ver: user.tokenVersion,
     };
 
     return this.jwtService.sign(payload);
   }
 
-  private sanitizeUser(user: User & { password?: string }): User {
+  /**
+   * Store a new password and log out every session
+   */
+  private async setPassword(userId: string, password: string): Promise<void> {
+    await this.userRepository.update(userId, { password: await bcrypt.hash(password, 10) });
+    await this.logoutAll(userId);
+  }
+
+  /**
+   * Failures are logged: the user can ask for another email
+   */
+  private async sendVerificationEmail(user: UserEntity): Promise<void> {
+    const ttlHours = this.configService.get<number>('auth.emailVerificationTtlHours');
+
+    try {
+      const token = await this.verificationTokenService.issue(
+        user.id,
+        'email_verification',
+        ttlHours * HOUR_MS,
+      );
+      const link = this.mailService.appLink('/verify-email', { token });
+
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: `Hi ${user.username},\n\nPlease confirm your email address (link valid for ${ttlHours} hours):\n${link}`,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send verification email to ${user.email}: ${error.message}`);
+    }
+  }
+
+  private async issueTokens(user: UserEntity): Promise<AuthResult> {
+    return {
+      user: this.sanitizeUser(user),
+      token: this.generateToken(user),
+      refreshToken: await this.refreshTokenService.issue(user.id),
+    };
+  }
+
+  private sanitizeUser(user: User & { password?: string; tokenVersion?: number }): User {
     const { password, ...sanitized } = user;
+    delete sanitized.tokenVersion;
     return sanitized as User;
   }
 
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token returned by login, register or refresh' })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
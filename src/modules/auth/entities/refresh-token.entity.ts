@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from '../../../entities/user.entity';
+
+/**
+ * A refresh token (stored as a SHA-256 hash). Each use rotates it: the token is revoked and
+ * replaced by a new one in the same family, so a family is one login session.
+ */
+@Entity('refresh_tokens')
+@Index(['tokenHash'], { unique: true })
+@Index(['userId'])
+@Index(['familyId'])
+export class RefreshTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'uuid' })
+  familyId: string; // Shared by every token rotated from the same login
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date; // Set on rotation, logout or when reuse of the family is detected
+
+  @Column({ type: 'uuid', nullable: true })
+  replacedById: string; // Token issued when this one was rotated
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from '../../../entities/user.entity';
+
+export type VerificationTokenType = 'password_reset' | 'email_verification';
+
+/**
+ * Single-use, expiring token sent by email (stored as a SHA-256 hash)
+ */
+@Entity('verification_tokens')
+@Index(['tokenHash'], { unique: true })
+@Index(['userId', 'type'])
+export class VerificationTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  @Column({ type: 'varchar', length: 32 })
+  type: VerificationTokenType;
+
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,80 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RefreshTokenEntity } from '../entities/refresh-token.entity';
+import { RefreshTokenService } from './refresh-token.service';
+import { InMemoryRepository } from '../../../common/testing/in-memory-repository';
+
+describe('RefreshTokenService', () => {
+  let repository: InMemoryRepository<RefreshTokenEntity>;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository<RefreshTokenEntity>({
+      revokedAt: null,
+      replacedById: null,
+    });
+    service = new RefreshTokenService(
+      repository as any,
+      new ConfigService({ jwt: { refreshTtlDays: 30 } }),
+    );
+  });
+
+  it('stores only a hash of the token', async () => {
+    const token = await service.issue('user-1');
+
+    expect(repository.rows).toHaveLength(1);
+    expect(repository.rows[0].tokenHash).not.toContain(token);
+    expect(repository.rows[0].tokenHash).toHaveLength(64);
+  });
+
+  it('rotates a token into a new one of the same family', async () => {
+    const token = await service.issue('user-1');
+
+    const { userId, refreshToken } = await service.rotate(token);
+
+    expect(userId).toBe('user-1');
+    expect(refreshToken).not.toBe(token);
+    const [rotated, next] = repository.rows;
+    expect(rotated.revokedAt).toBeInstanceOf(Date);
+    expect(rotated.replacedById).toBe(next.id);
+    expect(next.familyId).toBe(rotated.familyId);
+    expect(next.revokedAt).toBeNull();
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const token = await service.issue('user-1');
+    const { refreshToken } = await service.rotate(token);
+
+    await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+
+    expect(repository.rows.every((row) => row.revokedAt)).toBe(true);
+    await expect(service.rotate(refreshToken)).rejects.toThrow('Refresh token has been revoked');
+  });
+
+  it('leaves other sessions of the user alone', async () => {
+    const token = await service.issue('user-1');
+    const otherSession = await service.issue('user-1');
+    await service.rotate(token);
+
+    await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+
+    await expect(service.rotate(otherSession)).resolves.toMatchObject({ userId: 'user-1' });
+  });
+
+  it('revokes the session on logout without treating it as reuse', async () => {
+    const token = await service.issue('user-1');
+
+    await service.revokeSession(token);
+
+    await expect(service.rotate(token)).rejects.toThrow('Refresh token has been revoked');
+    expect(repository.rows).toHaveLength(1);
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    await expect(service.rotate('unknown')).rejects.toThrow('Invalid refresh token');
+
+    const token = await service.issue('user-1');
+    repository.rows[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.rotate(token)).rejects.toThrow('Refresh token has expired');
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { RefreshTokenEntity } from '../entities/refresh-token.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refresh Token Service
+ * Issues opaque refresh tokens (only their hash is stored) and rotates them on every use.
+ * Presenting a token that was already rotated means it leaked, so its whole family is revoked.
+ */
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+  private readonly ttlMs: number;
+
+  constructor(
+    @InjectRepository(RefreshTokenEntity)
+    private refreshTokenRepository: Repository<RefreshTokenEntity>,
+    private configService: ConfigService,
+  ) {
+    this.ttlMs = this.configService.get<number>('jwt.refreshTtlDays') * DAY_MS;
+  }
+
+  /**
+   * Issue a refresh token, starting a new family (login) unless one is given (rotation)
+   */
+  async issue(userId: string, familyId: string = uuidv4()): Promise<string> {
+    return (await this.createToken(userId, familyId)).token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one; returns the user it belongs to
+   */
+  async rotate(token: string): Promise<{ userId: string; refreshToken: string }> {
+    const current = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!current) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (current.revokedAt) {
+      if (current.replacedById) {
+        await this.revokeFamily(current.familyId);
+        this.logger.warn(
+          `⚠️ Reuse of rotated refresh token detected for user ${current.userId} - session revoked`,
+        );
+      }
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+    if (current.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    const next = await this.createToken(current.userId, current.familyId);
+
+    // Only one concurrent request may rotate a token; the loser is treated as reuse
+    const { affected } = await this.refreshTokenRepository.update(
+      { id: current.id, revokedAt: IsNull() },
+      { revokedAt: new Date(), replacedById: next.id },
+    );
+    if (!affected) {
+      await this.revokeFamily(current.familyId);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    return { userId: current.userId, refreshToken: next.token };
+  }
+
+  /**
+   * Revoke the session (token family) a refresh token belongs to; unknown tokens are ignored
+   */
+  async revokeSession(token: string): Promise<void> {
+    const current = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+      select: ['id', 'familyId'],
+    });
+
+    if (current) {
+      await this.revokeFamily(current.familyId);
+    }
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  private async createToken(
+    userId: string,
+    familyId: string,
+  ): Promise<{ id: string; token: string }> {
+    // Expired tokens are no longer useful, even for reuse detection
+    await this.refreshTokenRepository.delete({ userId, expiresAt: LessThan(new Date()) });
+
+    const token = randomBytes(48).toString('base64url');
+    const entity = await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        userId,
+        familyId,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + this.ttlMs),
+      }),
+    );
+
+    return { id: entity.id, token };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import {
+  VerificationTokenEntity,
+  VerificationTokenType,
+} from '../entities/verification-token.entity';
+
+/**
+ * Verification Token Service
+ * Password reset and email verification tokens. Issuing a token invalidates the user's earlier
+ * tokens of the same type, and a token can be consumed once.
+ */
+@Injectable()
+export class VerificationTokenService {
+  constructor(
+    @InjectRepository(VerificationTokenEntity)
+    private tokenRepository: Repository<VerificationTokenEntity>,
+  ) {}
+
+  async issue(userId: string, type: VerificationTokenType, ttlMs: number): Promise<string> {
+    await this.tokenRepository.delete({ userId, type, usedAt: IsNull() });
+
+    const token = randomBytes(32).toString('base64url');
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId,
+        type,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      }),
+    );
+
+    return token;
+  }
+
+  /**
+   * Mark a token used; returns the user it was issued to
+   */
+  async consume(token: string, type: VerificationTokenType): Promise<string> {
+    const tokenHash = this.hashToken(token);
+    const invalid = new BadRequestException('Invalid or expired token');
+
+    const entity = await this.tokenRepository.findOne({ where: { tokenHash, type } });
+    if (!entity) {
+      throw invalid;
+    }
+
+    // Conditional update so that concurrent requests cannot both use the token
+    const { affected } = await this.tokenRepository.update(
+      { id: entity.id, usedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw invalid;
+    }
+
+    return entity.userId;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
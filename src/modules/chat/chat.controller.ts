@@ -5,32 +5,53 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
   HttpStatus,
   HttpCode,
   UseInterceptors,
   UploadedFile,
+  Res,
+  NotFoundException,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
-import { ChatService } from './chat.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ChatService, ChatStreamEvent } from './chat.service';
 import { QACacheService } from './services/qa-cache.service';
+import { AnswerFeedbackService } from './services/answer-feedback.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { ApiKeyScope } from '../../common/decorators/api-key-scope.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { User } from '../../common/interfaces/user.interface';
 import { AskQuestionDto } from './dto/ask-question.dto';
 import { CreateSessionDto } from './dto/create-session.dto';
+import { PromoteFeedbackDto, SubmitFeedbackDto } from './dto/answer-feedback.dto';
+import { FeedbackRating, FeedbackStatus } from './entities/answer-feedback.entity';
 
 @ApiTags('chat')
 @Controller('chat')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class ChatController {
   constructor(
     private readonly chatService: ChatService,
     private readonly qaCacheService: QACacheService,
+    private readonly answerFeedbackService: AnswerFeedbackService,
   ) { }
 
   @Post('ask')
+  @ApiKeyScope('chat:ask')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data', 'application/json')
   @ApiOperation({ summary: 'Ask a question to the AI assistant (with optional file upload)' })
@@ -38,16 +59,19 @@ export class ChatController {
   @ApiResponse({ status: 400, description: 'Invalid request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async askQuestion(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Body() dto: AskQuestionDto,
     @UploadedFile() file?: Express.Multer.File,
   ) {
-    const response = await this.chatService.chat(userId, {
+    const response = await this.chatService.chat(user, {
       message: dto.message,
       sessionId: dto.sessionId,
       includeHistory: dto.includeHistory,
       topK: dto.topK,
       model: dto.model,
+      folderId: dto.folderId,
+      documentIds: dto.documentIds,
+      cache: dto.cache,
       file: file,
     });
 
@@ -57,6 +81,73 @@ export class ChatController {
     };
   }
 
+  @Post('ask/stream')
+  @ApiKeyScope('chat:ask')
+  @ApiProduces('text/event-stream')
+  @ApiOperation({
+    summary: 'Ask a question and stream the answer as server-sent events',
+    description:
+      'Emits a "sources" event with retrieval results, then "token" events with answer deltas, ' +
+      'then a "done" event with responseSource, relevanceScore, suggestedQuestions and sessionId. ' +
+      'File uploads are only supported by POST /chat/ask.',
+  })
+  @ApiResponse({ status: 200, description: 'Answer stream started' })
+  @ApiResponse({ status: 400, description: 'Invalid request' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async askQuestionStream(
+    @CurrentUser() user: User,
+    @Body() dto: AskQuestionDto,
+    @Res() res: Response,
+  ) {
+    // Cancel the upstream completion if the client goes away before we finish
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    const stream = this.chatService.chatStream(
+      user,
+      {
+        message: dto.message,
+        sessionId: dto.sessionId,
+        includeHistory: dto.includeHistory,
+        topK: dto.topK,
+        model: dto.model,
+        folderId: dto.folderId,
+        documentIds: dto.documentIds,
+        cache: dto.cache,
+      },
+      abortController.signal,
+    );
+
+    try {
+      for await (const event of stream) {
+        // Headers are sent with the first event so that validation errors
+        // raised before streaming starts still go through the exception filter
+        if (!res.headersSent) {
+          res.status(HttpStatus.OK);
+          res.setHeader('Content-Type', 'text/event-stream');
+          res.setHeader('Cache-Control', 'no-cache');
+          res.setHeader('Connection', 'keep-alive');
+          res.setHeader('X-Accel-Buffering', 'no');
+          res.flushHeaders();
+        }
+        this.writeSseEvent(res, event);
+      }
+    } catch (error) {
+      if (!res.headersSent) {
+        throw error;
+      }
+      if (!abortController.signal.aborted) {
+        this.writeSseEvent(res, { event: 'error', data: { message: error.message } });
+      }
+    }
+
+    res.end();
+  }
+
   @Post('sessions')
   @ApiOperation({ summary: 'Create a new chat session' })
   @ApiResponse({ status: 201, description: 'Session created successfully' })
@@ -88,7 +179,10 @@ export class ChatController {
   @ApiResponse({ status: 404, description: 'Session not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getSession(@CurrentUser('id') userId: string, @Param('id') sessionId: string) {
-    const session = await this.chatService.getSession(sessionId);
+    const session = await this.chatService.getSession(sessionId, userId);
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
     return {
       statusCode: HttpStatus.OK,
       data: session,
@@ -121,6 +215,71 @@ export class ChatController {
     };
   }
 
+  @Post('sessions/:id/messages/:messageId/feedback')
+  @ApiKeyScope('chat:ask')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rate an answer (thumbs down quarantines the cached answer it came from)',
+  })
+  @ApiResponse({ status: 200, description: 'Feedback saved successfully' })
+  @ApiResponse({ status: 404, description: 'Session or message not found' })
+  async submitFeedback(
+    @CurrentUser() user: User,
+    @Param('id') sessionId: string,
+    @Param('messageId') messageId: string,
+    @Body() dto: SubmitFeedbackDto,
+  ) {
+    const feedback = await this.answerFeedbackService.submitFeedback(
+      user,
+      sessionId,
+      messageId,
+      dto,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Feedback saved successfully',
+      data: feedback,
+    };
+  }
+
+  @Get('feedback')
+  @Roles(UserRole.PLATFORM_ADMIN)
+  @ApiOperation({ summary: 'List answer feedback for review (platform admin)' })
+  @ApiResponse({ status: 200, description: 'Feedback retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getFeedback(
+    @Query('rating') rating?: FeedbackRating,
+    @Query('status') status?: FeedbackStatus,
+  ) {
+    const feedback = await this.answerFeedbackService.getFeedback({ rating, status });
+    return {
+      statusCode: HttpStatus.OK,
+      data: feedback,
+    };
+  }
+
+  @Post('feedback/:id/promote')
+  @Roles(UserRole.PLATFORM_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Promote a corrected answer into the Q&A cache as authoritative (platform admin)',
+  })
+  @ApiResponse({ status: 200, description: 'Answer promoted successfully' })
+  @ApiResponse({ status: 400, description: 'No answer to promote' })
+  @ApiResponse({ status: 404, description: 'Feedback not found' })
+  async promoteFeedback(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() dto: PromoteFeedbackDto,
+  ) {
+    const feedback = await this.answerFeedbackService.promoteFeedback(id, user, dto.answer);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Answer promoted successfully',
+      data: feedback,
+    };
+  }
+
   @Get('health')
   @ApiOperation({ summary: 'Get chat service health status' })
   @ApiResponse({ status: 200, description: 'Health status retrieved' })
@@ -145,4 +304,43 @@ export class ChatController {
       data: stats,
     };
   }
+
+  @Delete('cache')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Clear your cached answers (platform admins clear the whole Q&A cache)',
+  })
+  @ApiResponse({ status: 200, description: 'Cache cleared successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async clearCache(@CurrentUser() user: User) {
+    const deleted = await this.qaCacheService.clearCache(user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Cache cleared successfully',
+      data: { deleted },
+    };
+  }
+
+  @Delete('cache/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a cached answer' })
+  @ApiResponse({ status: 200, description: 'Cache entry deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Cache entry not found' })
+  async deleteCacheEntry(@CurrentUser() user: User, @Param('id') id: string) {
+    await this.qaCacheService.deleteEntry(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Cache entry deleted successfully',
+    };
+  }
+
+  /**
+   * Write a single server-sent event to the response
+   */
+  private writeSseEvent(
+    res: Response,
+    event: ChatStreamEvent | { event: 'error'; data: { message: string } },
+  ): void {
+    res.write(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
 }
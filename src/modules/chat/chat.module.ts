@@ -3,25 +3,55 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ChatController } from './chat.controller';
 import { ChatService } from './chat.service';
 import { OpenAIService } from './services/openai.service';
+import { OpenAICompatibleService } from './services/openai-compatible.service';
+import { FakeLLMService } from './services/fake-llm.service';
 import { AIService } from './services/ai.service';
 import { QACacheService } from './services/qa-cache.service';
 import { FileProcessorService } from './services/file-processor.service';
+import { CitationService } from './services/citation.service';
+import { AnswerFeedbackService } from './services/answer-feedback.service';
+import { KnowledgeReviewService } from './services/knowledge-review.service';
+import { KnowledgeReviewController } from './knowledge-review.controller';
 import { VectorModule } from '../vector/vector.module';
+import { ExtractionModule } from '../extraction/extraction.module';
+import { SharingModule } from '../sharing/sharing.module';
+import { JobsModule } from '../jobs/jobs.module';
 import { ChatSessionEntity } from '../../entities/chat-session.entity';
+import { FolderEntity } from '../../entities/folder.entity';
 import { QACache } from './entities/qa-cache.entity';
+import { AnswerFeedbackEntity } from './entities/answer-feedback.entity';
+import { KnowledgeEntryEntity } from './entities/knowledge-entry.entity';
+import { OrganizationEntity } from '../../entities/organization.entity';
+import { UserEntity } from '../../entities/user.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ChatSessionEntity, QACache]),
+    TypeOrmModule.forFeature([
+      ChatSessionEntity,
+      QACache,
+      FolderEntity,
+      AnswerFeedbackEntity,
+      KnowledgeEntryEntity,
+      OrganizationEntity,
+      UserEntity,
+    ]),
     VectorModule,
+    ExtractionModule,
+    SharingModule,
+    JobsModule,
   ],
-  controllers: [ChatController],
+  controllers: [ChatController, KnowledgeReviewController],
   providers: [
     ChatService,
     OpenAIService,
+    OpenAICompatibleService,
+    FakeLLMService,
     AIService,
     QACacheService,
-    FileProcessorService
+    FileProcessorService,
+    CitationService,
+    AnswerFeedbackService,
+    KnowledgeReviewService,
   ],
   exports: [ChatService, OpenAIService, AIService, QACacheService],
 })
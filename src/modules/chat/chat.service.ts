@@ -4,15 +4,28 @@ import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { v4 as uuidv4 } from 'uuid';
 import { AIService, ChatMessage } from './services/ai.service';
-import { QACacheService } from './services/qa-cache.service';
-import { VectorService, SearchResult } from '../vector/vector.service';
+import { QACacheService, CacheKey } from './services/qa-cache.service';
+import { CacheMode } from './dto/ask-question.dto';
+import { VectorService, SearchResult, VectorSearchFilter } from '../vector/vector.service';
 import { FileProcessorService } from './services/file-processor.service';
+import { SharingService } from '../sharing/sharing.service';
+import { CitationService, Citation } from './services/citation.service';
+import { KnowledgeReviewService } from './services/knowledge-review.service';
 import { ChatSessionEntity } from '../../entities/chat-session.entity';
+import { FolderEntity } from '../../entities/folder.entity';
+import { User } from '../../common/interfaces/user.interface';
+import { getReadableScopes, getUserScope, readableWhere } from '../../common/utils/tenant-scope';
+
+export interface SessionMessage extends ChatMessage {
+  id?: string; // Referenced by answer feedback (messages saved before IDs were added have none)
+  cacheId?: string; // Q&A cache entry an assistant answer was served from or saved to
+  cacheKey?: CacheKey; // Cache key of the question an assistant answer was generated for (never sent to clients)
+}
 
 export interface ChatSession {
   id: string;
   userId: string;
-  history: ChatMessage[];
+  history: SessionMessage[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,19 +36,31 @@ export interface ChatRequest {
   includeHistory?: boolean;
   topK?: number;
   model?: string;
+  folderId?: string; // Scope retrieval to this folder and its subfolders
+  documentIds?: string[]; // Scope retrieval to these documents
+  cache?: CacheMode; // Q&A cache use (default: 'readwrite')
   file?: Express.Multer.File;
 }
 
+export interface ChatStreamEvent {
+  event: 'sources' | 'token' | 'done';
+  data: any;
+}
+
 export interface ChatResponse {
   sessionId: string;
+  messageId?: string; // ID of the assistant message, for feedback
   message: string;
   answer: string;
   sources: Array<{
+    marker?: number; // The [n] citation marker that refers to this source
     content: string;
     fileName: string;
     score: number;
     metadata: any;
   }>;
+  citations?: Citation[];
+  invalidCitations?: number[]; // Markers stripped because they referenced chunks not retrieved
   responseSource: 'cached' | 'knowledge_base' | 'ai_generated' | 'hybrid';
   relevanceScore?: number;
   modelUsed: string;
@@ -57,99 +82,68 @@ export class ChatService {
   private defaultTopK: number;
   private relevanceThreshold: number;
   private enableSuggestions: boolean;
+  private condenseModel: string | undefined;
 
   constructor(
     @InjectRepository(ChatSessionEntity)
     private sessionRepository: Repository<ChatSessionEntity>,
+    @InjectRepository(FolderEntity)
+    private folderRepository: Repository<FolderEntity>,
     private configService: ConfigService,
     private aiService: AIService,
     private qaCacheService: QACacheService,
     private vectorService: VectorService,
     private fileProcessorService: FileProcessorService,
+    private citationService: CitationService,
+    private sharingService: SharingService,
+    private knowledgeReviewService: KnowledgeReviewService,
   ) {
     this.defaultTopK = this.configService.get<number>('chat.topK');
     this.relevanceThreshold = this.configService.get<number>('chat.relevanceThreshold');
     this.enableSuggestions = this.configService.get<boolean>('chat.enableSuggestions');
+    this.condenseModel = this.configService.get<string>('chat.condenseModel');
   }
 
   /**
    * Process a chat request with RAG
    */
-  async chat(userId: string, request: ChatRequest): Promise<ChatResponse> {
+  async chat(user: User, request: ChatRequest): Promise<ChatResponse> {
+    const userId = user.id;
+
     try {
       const {
         message,
         sessionId,
         includeHistory = true,
         topK = this.defaultTopK,
-        model
+        model,
+        folderId,
+        documentIds,
+        cache = 'readwrite',
       } = request;
 
-      // Determine which OpenAI model to use
-      const modelToUse = model || this.configService.get<string>('openai.model');
+      // Determine which model (and therefore which provider) to use
+      const modelToUse = this.resolveModel(model);
 
       if (!message || message.trim().length === 0) {
         throw new BadRequestException('Message cannot be empty');
       }
 
       // Get or create session
-      let session: ChatSession;
-      if (sessionId) {
-        session = await this.getSession(sessionId);
-        if (!session) {
-          throw new BadRequestException('Invalid session ID');
-        }
-        if (session.userId !== userId) {
-          throw new BadRequestException('Session does not belong to user');
-        }
-      } else {
-        session = await this.createSession(userId);
-      }
+      const session = await this.resolveSession(userId, sessionId);
 
       this.logger.log(`Processing chat request for session: ${session.id}`);
 
+      // Get chat history if requested
+      const history = includeHistory && session.history.length > 0 ? session.history : undefined;
+
       // Step 0: Check cache first (skip if file upload)
-      if (!request.file) {
-        this.logger.log('🔍 Checking Q&A cache...');
-        const cacheResult = await this.qaCacheService.searchCache(message, userId);
-        
-        if (cacheResult.found && cacheResult.response) {
-          this.logger.log(`✅ Returning cached response (${(cacheResult.similarity! * 100).toFixed(1)}% match)`);
-          
-          // Update session history with cached response
-          session.history.push(
-            { role: 'user', content: message },
-            { role: 'assistant', content: cacheResult.response.answer },
-          );
-          session.updatedAt = new Date();
-          
-          await this.sessionRepository.update(session.id, {
-            messages: session.history as any,
-            updatedAt: session.updatedAt,
-          });
-          
-          return {
-            sessionId: session.id,
-            message,
-            answer: cacheResult.response.answer,
-            sources: cacheResult.response.documentSources 
-              ? cacheResult.response.documentSources.map(doc => ({
-                  content: '',
-                  fileName: doc,
-                  score: 1,
-                  metadata: {},
-                }))
-              : [],
-            responseSource: 'cached',
-            fromCache: true,
-            cacheSimilarity: cacheResult.similarity,
-            modelUsed: 'cached',
-            timestamp: new Date(),
-            suggestedQuestions: [],
-          };
+      const cacheKey = await this.resolveCacheKey(request, history, modelToUse);
+      if (cacheKey && cache !== 'write') {
+        const cachedResponse = await this.getCachedResponse(session, message, user, cacheKey);
+        if (cachedResponse) {
+          return cachedResponse;
         }
-        
-        this.logger.log('❌ No suitable cache found, proceeding with AI generation');
       }
 
       // Step 1: Process file if present
@@ -185,21 +179,16 @@ export class ChatService {
           this.logger.log(`✅ Image analysis complete (${imageAnalysis.length} chars)`);
           
           // Update session history with image analysis
-          session.history.push(
-            { role: 'user', content: `[Image: ${processedFile.fileName}] ${message || 'Analyze this image'}` },
-            { role: 'assistant', content: imageAnalysis },
+          const messageId = await this.appendExchange(
+            session,
+            `[Image: ${processedFile.fileName}] ${message || 'Analyze this image'}`,
+            imageAnalysis,
           );
-          session.updatedAt = new Date();
-          
-          // Save session
-          await this.sessionRepository.update(session.id, {
-            messages: session.history as any,
-            updatedAt: session.updatedAt,
-          });
           
           // Return image analysis response directly
           return {
             sessionId: session.id,
+            messageId,
             message: message || 'Analyze this image',
             answer: imageAnalysis,
             sources: [],
@@ -234,41 +223,26 @@ export class ChatService {
       // Enhance message with file context if present
       const enhancedMessage = fileContext ? fileContext + ' ' + message : message;
 
-      // Step 1: Generate embedding for the user's question
-      this.logger.log('Generating query embedding...');
-      const queryEmbedding = await this.aiService.generateEmbedding(enhancedMessage);
-
-      // Step 2: Retrieve relevant documents from vector store
-      this.logger.log(`Searching for top ${topK} relevant documents...`);
-      const searchResults = await this.vectorService.search(queryEmbedding, topK);
-
-      // Log search results for debugging
-      if (searchResults.length > 0) {
-        this.logger.log(`Found ${searchResults.length} results. Scores: ${searchResults.map(r => r.score.toFixed(4)).join(', ')}`);
-        this.logger.log(`Relevance threshold: ${this.relevanceThreshold}`);
-      } else {
-        this.logger.log('No results found in knowledge base');
-      }
-
-      // Step 3: Determine if knowledge base has relevant information
-      // Use knowledge base if we have results and they meet quality threshold
-      // Note: Scores are similarity scores (0-1, where 1 is most similar)
-      const hasRelevantData = searchResults.length > 0 &&
-        searchResults.some(result => result.score >= this.relevanceThreshold);
+      // Steps 2-3: Retrieve relevant documents and decide whether the knowledge base can answer
+      const { searchResults, hasRelevantData, maxScore } = await this.retrieveContext(
+        user,
+        enhancedMessage,
+        topK,
+        folderId,
+        documentIds,
+      );
 
       let answer: string;
       let responseSource: 'knowledge_base' | 'ai_generated' | 'hybrid';
-      const maxScore = searchResults.length > 0 ? Math.max(...searchResults.map(r => r.score)) : 0;
-
-      // Step 4: Get chat history if requested
-      const history = includeHistory && session.history.length > 0 ? session.history : undefined;
 
       if (hasRelevantData) {
         // RAG: Build context from retrieved documents and pass to AI
         const context = this.buildContext(searchResults);
         this.logger.log(`✅ Using RAG - Built context from ${searchResults.length} documents`);
         this.logger.log(`📊 Best match score: ${maxScore.toFixed(4)}`);
-        this.logger.log(`🤖 Sending context + question to OpenAI... (Model: ${modelToUse})`);
+        this.logger.log(
+          `🤖 Sending context + question to ${this.aiService.getProvider(modelToUse)}... (Model: ${modelToUse})`,
+        );
 
         // Generate response using AI with context from knowledge base
         answer = await this.aiService.chat(message, context, history, undefined, modelToUse);
@@ -285,63 +259,40 @@ export class ChatService {
           modelToUse // Model override
         );
         responseSource = 'ai_generated';
-
-        // Step 5: Save AI-generated Q&A to knowledge base for future use
-        try {
-          await this.saveAIResponseToKnowledgeBase(message, answer, userId);
-          this.logger.log('AI-generated response saved to knowledge base');
-        } catch (error) {
-          this.logger.error('Failed to save AI response to knowledge base', error.stack);
-          // Don't fail the request if saving fails
-        }
       }
 
-      // Step 6: Update session history
-      session.history.push(
-        { role: 'user', content: message },
-        { role: 'assistant', content: answer },
+      // Resolve [n] citation markers against the retrieved chunks
+      const {
+        answer: citedAnswer,
+        citations,
+        invalidMarkers,
+      } = hasRelevantData
+        ? this.citationService.extractCitations(answer, searchResults)
+        : { answer, citations: [], invalidMarkers: [] };
+      answer = citedAnswer;
+
+      // Steps 5-7: Persist session history, knowledge base entry and cache; generate suggestions
+      const { messageId, suggestedQuestions } = await this.completeExchange(
+        session,
+        user,
+        message,
+        answer,
+        responseSource,
+        searchResults,
+        modelToUse,
+        cacheKey,
+        cache !== 'read',
       );
-      session.updatedAt = new Date();
-
-      // Keep history manageable (last 10 messages = 5 exchanges)
-      if (session.history.length > 10) {
-        session.history = session.history.slice(-10);
-      }
-
-      // Save session to database
-      await this.sessionRepository.update(session.id, {
-        messages: session.history as any,
-        updatedAt: session.updatedAt,
-      });
-      
-      this.logger.log(`✅ Session saved to DB: ${session.id}`);
-
-      // Step 6: Generate suggested follow-up questions (if enabled)
-      let suggestedQuestions: string[] = [];
-      if (this.enableSuggestions) {
-        this.logger.log('💡 Generating suggested follow-up questions...');
-        suggestedQuestions = await this.generateSuggestedQuestions(
-          message,
-          answer,
-          searchResults,
-          modelToUse,
-        );
-      }
 
       // Prepare response with sources
       const response: ChatResponse = {
         sessionId: session.id,
+        messageId,
         message,
         answer,
-        sources: searchResults.map((result) => ({
-          content: this.truncateText(result.content, 200),
-          fileName: result.metadata?.fileName || 'Unknown',
-          score: result.score,
-          metadata: {
-            chunkIndex: result.metadata?.chunkIndex,
-            source: result.metadata?.source,
-          },
-        })),
+        sources: this.formatSources(searchResults),
+        citations,
+        invalidCitations: invalidMarkers.length > 0 ? invalidMarkers : undefined,
         responseSource,
         relevanceScore: maxScore,
         modelUsed: modelToUse,
@@ -351,24 +302,6 @@ export class ChatService {
         ...(fileInfo && { fileProcessed: fileInfo }), // Include file info if document was processed
       };
 
-      // Step 7: Save to cache for future use (skip if file upload)
-      if (!request.file) {
-        this.logger.log('💾 Saving response to cache...');
-        const documentSources = searchResults
-          .filter(r => r.metadata?.fileName)
-          .map(r => r.metadata.fileName)
-          .filter((v, i, a) => a.indexOf(v) === i); // unique values
-        
-        await this.qaCacheService.saveToCache(
-          userId,
-          message,
-          answer,
-          responseSource,
-          modelToUse,
-          documentSources.length > 0 ? documentSources : undefined,
-        );
-      }
-
       this.logger.log(`Chat request completed for session: ${session.id}`);
       return response;
     } catch (error) {
@@ -377,6 +310,484 @@ export class ChatService {
     }
   }
 
+  /**
+   * Process a chat request with RAG, yielding server-sent events as the answer is generated:
+   * 'sources' (retrieval results) first, then 'token' deltas, then 'done'.
+   * Aborting the signal (client disconnect) cancels the upstream completion and skips persistence.
+   * File uploads are not supported here - use chat() instead.
+   */
+  async *chatStream(
+    user: User,
+    request: ChatRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const userId = user.id;
+    const {
+      message,
+      sessionId,
+      includeHistory = true,
+      topK = this.defaultTopK,
+      model,
+      folderId,
+      documentIds,
+      cache = 'readwrite',
+    } = request;
+
+    const modelToUse = this.resolveModel(model);
+
+    if (!message || message.trim().length === 0) {
+      throw new BadRequestException('Message cannot be empty');
+    }
+
+    const session = await this.resolveSession(userId, sessionId);
+    this.logger.log(`Processing streaming chat request for session: ${session.id}`);
+
+    const history = includeHistory && session.history.length > 0 ? session.history : undefined;
+    const cacheKey = await this.resolveCacheKey(request, history, modelToUse);
+
+    // Cached answers are replayed as a single token event
+    const cachedResponse =
+      cacheKey && cache !== 'write'
+        ? await this.getCachedResponse(session, message, user, cacheKey)
+        : null;
+    if (cachedResponse) {
+      yield {
+        event: 'sources',
+        data: {
+          sessionId: session.id,
+          sources: cachedResponse.sources,
+          responseSource: cachedResponse.responseSource,
+        },
+      };
+      yield { event: 'token', data: { delta: cachedResponse.answer } };
+      yield {
+        event: 'done',
+        data: {
+          sessionId: session.id,
+          messageId: cachedResponse.messageId,
+          responseSource: cachedResponse.responseSource,
+          relevanceScore: cachedResponse.cacheSimilarity,
+          suggestedQuestions: [],
+          modelUsed: cachedResponse.modelUsed,
+          fromCache: true,
+          timestamp: cachedResponse.timestamp,
+        },
+      };
+      return;
+    }
+
+    const { searchResults, hasRelevantData, maxScore } = await this.retrieveContext(
+      user,
+      message,
+      topK,
+      folderId,
+      documentIds,
+    );
+    const responseSource: 'knowledge_base' | 'ai_generated' = hasRelevantData
+      ? 'knowledge_base'
+      : 'ai_generated';
+
+    yield {
+      event: 'sources',
+      data: {
+        sessionId: session.id,
+        sources: this.formatSources(searchResults),
+        responseSource,
+        relevanceScore: maxScore,
+      },
+    };
+
+    const context = hasRelevantData ? this.buildContext(searchResults) : undefined;
+    this.logger.log(`🤖 Streaming ${responseSource} answer... (Model: ${modelToUse})`);
+
+    let answer = '';
+    try {
+      for await (const delta of this.aiService.chatStream(
+        message,
+        context,
+        history,
+        undefined,
+        modelToUse,
+        signal,
+      )) {
+        answer += delta;
+        yield { event: 'token', data: { delta } };
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        this.logger.warn(`⚠️  Client disconnected - cancelled stream for session: ${session.id}`);
+        return;
+      }
+      throw error;
+    }
+
+    if (signal?.aborted) {
+      this.logger.warn(`⚠️  Client disconnected - discarding answer for session: ${session.id}`);
+      return;
+    }
+
+    // Tokens have already been sent, so the final event carries the cleaned answer
+    const {
+      answer: citedAnswer,
+      citations,
+      invalidMarkers,
+    } = hasRelevantData
+      ? this.citationService.extractCitations(answer, searchResults)
+      : { answer, citations: [], invalidMarkers: [] };
+
+    const { messageId, suggestedQuestions } = await this.completeExchange(
+      session,
+      user,
+      message,
+      citedAnswer,
+      responseSource,
+      searchResults,
+      modelToUse,
+      cacheKey,
+      cache !== 'read',
+    );
+
+    yield {
+      event: 'done',
+      data: {
+        sessionId: session.id,
+        messageId,
+        responseSource,
+        relevanceScore: maxScore,
+        suggestedQuestions,
+        answer: citedAnswer,
+        citations,
+        invalidCitations: invalidMarkers,
+        modelUsed: modelToUse,
+        fromCache: false,
+        timestamp: new Date(),
+      },
+    };
+
+    this.logger.log(`Streaming chat request completed for session: ${session.id}`);
+  }
+
+  /**
+   * Validate a requested model against the configured providers, or fall back to the default
+   */
+  private resolveModel(model?: string): string {
+    if (!model) {
+      return this.aiService.getDefaultModel();
+    }
+    if (!this.aiService.isModelSupported(model)) {
+      throw new BadRequestException(`Model "${model}" is not available`);
+    }
+    return model;
+  }
+
+  /**
+   * Load the requested session (verifying ownership) or create a new one
+   */
+  private async resolveSession(userId: string, sessionId?: string): Promise<ChatSession> {
+    if (!sessionId) {
+      return this.createSession(userId);
+    }
+
+    const session = await this.loadSession(sessionId, userId);
+    if (!session) {
+      throw new BadRequestException('Invalid session ID');
+    }
+    return session;
+  }
+
+  /**
+   * Key for Q&A cache lookups and writes, or null if the request does not use the cache
+   * (file uploads, cache 'off', or a follow-up that could not be condensed)
+   */
+  private async resolveCacheKey(
+    request: ChatRequest,
+    history: SessionMessage[] | undefined,
+    modelToUse: string,
+  ): Promise<CacheKey | null> {
+    if (request.file || request.cache === 'off') {
+      return null;
+    }
+
+    const question = await this.condenseQuestion(request.message, history, modelToUse);
+    if (!question) {
+      return null;
+    }
+
+    return {
+      question,
+      model: modelToUse,
+      defaultModel: !request.model,
+      folderId: request.folderId,
+      documentIds: request.documentIds,
+    };
+  }
+
+  /**
+   * Rewrite a follow-up as a standalone question using the conversation, so that it can be
+   * matched against answers from other conversations. Uses chat.condenseModel if set (a cheaper
+   * model is enough), else the answering model. Returns null if that fails.
+   */
+  private async condenseQuestion(
+    message: string,
+    history: SessionMessage[] | undefined,
+    modelToUse: string,
+  ): Promise<string | null> {
+    if (!history || history.length === 0) {
+      return message;
+    }
+
+    const conversation = history
+      .slice(-6)
+      .map(
+        (m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${this.truncateText(m.content, 500)}`,
+      )
+      .join('\n');
+    const prompt =
+      `Rewrite the follow-up question as a standalone question that can be understood without ` +
+      `the conversation. Keep its language and meaning; if it is already standalone, return it ` +
+      `unchanged. Output only the question.\n\nConversation:\n${conversation}\n\n` +
+      `Follow-up question: ${message}\n\nStandalone question:`;
+
+    const model =
+      this.condenseModel && this.aiService.isModelSupported(this.condenseModel)
+        ? this.condenseModel
+        : modelToUse;
+
+    try {
+      const condensed = await this.aiService.generateCompletion(
+        prompt,
+        { temperature: 0, maxTokens: 200 },
+        model,
+      );
+      this.logger.log(`🔁 Condensed follow-up: "${condensed.trim().substring(0, 80)}"`);
+      return condensed.trim() || null;
+    } catch (error) {
+      this.logger.warn(`⚠️  Could not condense follow-up, skipping cache: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Look up the Q&A cache and, on a hit, record the exchange in the session
+   */
+  private async getCachedResponse(
+    session: ChatSession,
+    message: string,
+    user: User,
+    cacheKey: CacheKey,
+  ): Promise<ChatResponse | null> {
+    this.logger.log('🔍 Checking Q&A cache...');
+    const cacheResult = await this.qaCacheService.searchCache(cacheKey, user);
+
+    if (!cacheResult.found || !cacheResult.response) {
+      this.logger.log('❌ No suitable cache found, proceeding with AI generation');
+      return null;
+    }
+
+    this.logger.log(`✅ Returning cached response (${(cacheResult.similarity! * 100).toFixed(1)}% match)`);
+
+    // Update session history with cached response
+    const messageId = await this.appendExchange(
+      session,
+      message,
+      cacheResult.response.answer,
+      cacheResult.response.id,
+      cacheKey,
+    );
+
+    return {
+      sessionId: session.id,
+      messageId,
+      message,
+      answer: cacheResult.response.answer,
+      sources: cacheResult.response.documentSources
+        ? cacheResult.response.documentSources.map(doc => ({
+            content: '',
+            fileName: doc,
+            score: 1,
+            metadata: {},
+          }))
+        : [],
+      responseSource: 'cached',
+      fromCache: true,
+      cacheSimilarity: cacheResult.similarity,
+      modelUsed: 'cached',
+      timestamp: new Date(),
+      suggestedQuestions: [],
+    };
+  }
+
+  /**
+   * Embed the question, search the vector store and check results against the relevance threshold
+   */
+  private async retrieveContext(
+    user: User,
+    query: string,
+    topK: number,
+    folderId?: string,
+    documentIds?: string[],
+  ): Promise<{ searchResults: SearchResult[]; hasRelevantData: boolean; maxScore: number }> {
+    // Generate embedding for the user's question
+    this.logger.log('Generating query embedding...');
+    const queryEmbedding = await this.aiService.generateEmbedding(query);
+
+    // Retrieve relevant documents from vector store (scoped to the chunks the user can read).
+    // AI-generated Q&A is only used once reviewed, and not at all with self-learning off.
+    const retrievalFilter = await this.buildRetrievalFilter(user, folderId, documentIds);
+    retrievalFilter.aiGenerated = (await this.knowledgeReviewService.isSelfLearningEnabled(user))
+      ? 'approved'
+      : 'none';
+    this.logger.log(`Searching for top ${topK} relevant documents...`);
+    const searchResults = await this.vectorService.search(queryEmbedding, topK, retrievalFilter);
+
+    // Log search results for debugging
+    if (searchResults.length > 0) {
+      this.logger.log(`Found ${searchResults.length} results. Scores: ${searchResults.map(r => r.score.toFixed(4)).join(', ')}`);
+      this.logger.log(`Relevance threshold: ${this.relevanceThreshold}`);
+    } else {
+      this.logger.log('No results found in knowledge base');
+    }
+
+    // Use knowledge base if we have results and they meet quality threshold
+    // Note: Scores are similarity scores (0-1, where 1 is most similar)
+    const hasRelevantData = searchResults.length > 0 &&
+      searchResults.some(result => result.score >= this.relevanceThreshold);
+    const maxScore = searchResults.length > 0 ? Math.max(...searchResults.map(r => r.score)) : 0;
+
+    return { searchResults, hasRelevantData, maxScore };
+  }
+
+  /**
+   * Persist a finished exchange: knowledge base entry for AI-generated answers, Q&A cache (if
+   * saveToCache and the request has a cache key) and session history. Returns the assistant
+   * message ID and suggested follow-up questions.
+   */
+  private async completeExchange(
+    session: ChatSession,
+    user: User,
+    message: string,
+    answer: string,
+    responseSource: 'knowledge_base' | 'ai_generated' | 'hybrid',
+    searchResults: SearchResult[],
+    modelToUse: string,
+    cacheKey: CacheKey | null,
+    saveToCache: boolean,
+  ): Promise<{ messageId: string; suggestedQuestions: string[] }> {
+    // Queue AI-generated Q&A for review before it joins the knowledge base
+    if (responseSource === 'ai_generated') {
+      try {
+        await this.saveAIResponseToKnowledgeBase(message, answer, user, modelToUse);
+      } catch (error) {
+        this.logger.error('Failed to queue AI response for review', error.stack);
+        // Don't fail the request if saving fails
+      }
+    }
+
+    // Save to cache for future use (before the session, whose message links the entry)
+    let cacheId: string | null = null;
+    if (cacheKey && saveToCache) {
+      this.logger.log('💾 Saving response to cache...');
+      const documentSources = searchResults
+        .filter(r => r.metadata?.fileName)
+        .map(r => r.metadata.fileName)
+        .filter((v, i, a) => a.indexOf(v) === i); // unique values
+      const documentIds = [
+        ...new Set(
+          searchResults.map((r) => r.metadata?.uploadedDocumentId).filter(Boolean) as string[],
+        ),
+      ];
+
+      // Answers drawing on content outside the scope they are cached under (the user's own
+      // private chunks, folders shared with them personally) must not reach their tenant
+      const userScope = getUserScope(user);
+      const usesOtherScopes = searchResults.some((r) => r.metadata?.scope !== userScope);
+
+      // Cached answers are served without their retrieval results, so drop citation markers
+      cacheId = await this.qaCacheService.saveToCache(
+        user,
+        cacheKey,
+        this.citationService.stripMarkers(answer),
+        responseSource,
+        documentSources.length > 0 ? documentSources : undefined,
+        documentIds.length > 0 ? documentIds : undefined,
+        usesOtherScopes,
+      );
+    }
+
+    // Update session history
+    const messageId = await this.appendExchange(session, message, answer, cacheId, cacheKey);
+    this.logger.log(`✅ Session saved to DB: ${session.id}`);
+
+    // Generate suggested follow-up questions (if enabled)
+    let suggestedQuestions: string[] = [];
+    if (this.enableSuggestions) {
+      this.logger.log('💡 Generating suggested follow-up questions...');
+      suggestedQuestions = await this.generateSuggestedQuestions(
+        message,
+        answer,
+        searchResults,
+        modelToUse,
+      );
+    }
+
+    return { messageId, suggestedQuestions };
+  }
+
+  /**
+   * Append a question and its answer to the session history and save it.
+   * Returns the ID of the assistant message.
+   */
+  private async appendExchange(
+    session: ChatSession,
+    question: string,
+    answer: string,
+    cacheId?: string | null,
+    cacheKey?: CacheKey | null,
+  ): Promise<string> {
+    const messageId = uuidv4();
+
+    session.history.push(
+      { id: uuidv4(), role: 'user', content: question },
+      {
+        id: messageId,
+        role: 'assistant',
+        content: answer,
+        ...(cacheId && { cacheId }),
+        ...(cacheKey && { cacheKey }),
+      },
+    );
+    session.updatedAt = new Date();
+
+    // Keep history manageable (last 10 messages = 5 exchanges)
+    if (session.history.length > 10) {
+      session.history = session.history.slice(-10);
+    }
+
+    await this.sessionRepository.update(session.id, {
+      messages: session.history as any,
+      updatedAt: session.updatedAt,
+    });
+
+    return messageId;
+  }
+
+  /**
+   * Map search results to the sources returned to the client
+   */
+  private formatSources(searchResults: SearchResult[]): ChatResponse['sources'] {
+    return searchResults.map((result, index) => ({
+      marker: index + 1,
+      content: this.truncateText(result.content, 200),
+      fileName: result.metadata?.fileName || 'Unknown',
+      score: result.score,
+      metadata: {
+        chunkIndex: result.metadata?.chunkIndex,
+        source: result.metadata?.source,
+        documentVersion: result.metadata?.documentVersion,
+      },
+    }));
+  }
+
   /**
    * Create a new chat session
    */
@@ -400,27 +811,42 @@ export class ChatService {
   }
 
   /**
-   * Get session by ID
+   * Get a session by ID for the client; null if it does not exist or belongs to another user
    */
-  async getSession(sessionId: string): Promise<ChatSession | null> {
+  async getSession(sessionId: string, userId: string): Promise<ChatSession | null> {
+    const session = await this.loadSession(sessionId, userId);
+
+    if (!session) {
+      return null;
+    }
+
+    const messages = this.toClientMessages(session.history);
+    return {
+      ...session,
+      history: messages,
+      messages, // ✅ Also include as 'messages' for frontend
+    } as any;
+  }
+
+  /**
+   * Load a session by ID with its full history, including server-side message fields
+   */
+  private async loadSession(sessionId: string, userId: string): Promise<ChatSession | null> {
     const sessionEntity = await this.sessionRepository.findOne({
-      where: { id: sessionId },
+      where: { id: sessionId, userId },
     });
 
     if (!sessionEntity) {
       return null;
     }
 
-    const session = {
+    return {
       id: sessionEntity.id,
       userId: sessionEntity.userId,
       history: sessionEntity.messages || [],
-      messages: sessionEntity.messages || [], // ✅ Also include as 'messages' for frontend
       createdAt: sessionEntity.createdAt,
       updatedAt: sessionEntity.updatedAt,
     };
-
-    return session as any;
   }
 
   /**
@@ -432,22 +858,36 @@ export class ChatService {
       order: { updatedAt: 'DESC' },
     });
 
-    return sessionEntities.map(entity => ({
-      id: entity.id,
-      userId: entity.userId,
-      history: entity.messages || [],
-      messages: entity.messages || [], // ✅ Also include as 'messages' for frontend
-      createdAt: entity.createdAt,
-      updatedAt: entity.updatedAt,
-    })) as any;
+    return sessionEntities.map((entity) => {
+      const messages = this.toClientMessages(entity.messages || []);
+      return {
+        id: entity.id,
+        userId: entity.userId,
+        history: messages,
+        messages, // ✅ Also include as 'messages' for frontend
+        createdAt: entity.createdAt,
+        updatedAt: entity.updatedAt,
+      };
+    }) as any;
+  }
+
+  /**
+   * Session messages as returned to clients: cache keys stay server-side
+   */
+  private toClientMessages(messages: SessionMessage[]): SessionMessage[] {
+    return messages.map((message) => {
+      const clientMessage = { ...message };
+      delete clientMessage.cacheKey;
+      return clientMessage;
+    });
   }
 
   /**
    * Delete a session
    */
   async deleteSession(sessionId: string, userId: string): Promise<void> {
-    const session = await this.getSession(sessionId);
-    if (session && session.userId === userId) {
+    const session = await this.getSession(sessionId, userId);
+    if (session) {
       await this.sessionRepository.delete(sessionId);
       this.logger.log(`✅ Deleted session from DB: ${sessionId}`);
     }
@@ -457,8 +897,8 @@ export class ChatService {
    * Clear session history
    */
   async clearSessionHistory(sessionId: string, userId: string): Promise<void> {
-    const session = await this.getSession(sessionId);
-    if (session && session.userId === userId) {
+    const session = await this.getSession(sessionId, userId);
+    if (session) {
       await this.sessionRepository.update(sessionId, {
         messages: [] as any,
         updatedAt: new Date(),
@@ -468,49 +908,81 @@ export class ChatService {
   }
 
   /**
-   * Save AI-generated Q&A to knowledge base for future retrieval
+   * Build the vector search filter for a chat request
+   * Always restricts to the chunks the user can read (their own, their organization's HQ
+   * content and their franchise's content); optionally to a folder subtree and/or specific documents
+   */
+  private async buildRetrievalFilter(
+    user: User,
+    folderId?: string,
+    documentIds?: string[],
+  ): Promise<VectorSearchFilter> {
+    const sharedFolderIds = await this.sharingService.getSharedFolderIds(user);
+    const filter: VectorSearchFilter = {
+      access: {
+        userIds: [user.id],
+        scopes: getReadableScopes(user),
+        folderIds: sharedFolderIds,
+      },
+    };
+
+    if (folderId) {
+      const folder = await this.folderRepository.findOne({
+        where: readableWhere(user, { id: folderId }),
+      });
+      if (!folder && !sharedFolderIds.includes(folderId)) {
+        throw new BadRequestException('Folder not found');
+      }
+
+      // Narrows retrieval only; the access filter still decides what is readable
+      filter.folderIds = [folderId, ...(await this.getDescendantFolderIds(folderId))];
+      this.logger.log(`📁 Retrieval scoped to ${filter.folderIds.length} folder(s)`);
+    }
+
+    if (documentIds && documentIds.length > 0) {
+      filter.documentIds = documentIds;
+      this.logger.log(`📄 Retrieval scoped to ${documentIds.length} document(s)`);
+    }
+
+    return filter;
+  }
+
+  /**
+   * Get all descendant folder IDs recursively
+   */
+  private async getDescendantFolderIds(folderId: string): Promise<string[]> {
+    const descendantIds: string[] = [];
+
+    const getChildren = async (parentId: string) => {
+      const children = await this.folderRepository.find({
+        where: { parentId },
+      });
+
+      for (const child of children) {
+        descendantIds.push(child.id);
+        await getChildren(child.id);
+      }
+    };
+
+    await getChildren(folderId);
+    return descendantIds;
+  }
+
+  /**
+   * Queue AI-generated Q&A for review; approved entries join the knowledge base
    */
   private async saveAIResponseToKnowledgeBase(
     question: string,
     answer: string,
-    userId: string,
+    user: User,
+    model: string,
   ): Promise<void> {
-    try {
-      // Create a Q&A document
-      const qaDocument = `Question: ${question}\n\nAnswer: ${answer}`;
-
-      // Generate embedding for the Q&A
-      const embedding = await this.aiService.generateEmbedding(qaDocument);
-
-      // Create document ID
-      const documentId = `ai-qa-${uuidv4()}`;
-
-      // Create document chunk
-      const chunk = {
-        id: documentId,
-        content: qaDocument,
-        metadata: {
-          documentId,
-          fileName: 'AI Generated Q&A',
-          chunkIndex: 0,
-          totalChunks: 1,
-          source: 'ai_generated',
-          type: 'qa_pair',
-          question,
-          answer,
-          userId,
-          createdAt: new Date().toISOString(),
-        },
-      };
-
-      // Save to vector database
-      await this.vectorService.addDocuments([chunk], [embedding]);
-
-      this.logger.log(`Saved AI-generated Q&A to knowledge base: ${documentId}`);
-    } catch (error) {
-      this.logger.error('Failed to save AI response to knowledge base', error.stack);
-      throw error;
+    if (!(await this.knowledgeReviewService.isSelfLearningEnabled(user))) {
+      this.logger.log('Self-learning disabled - AI-generated response not queued for review');
+      return;
     }
+
+    await this.knowledgeReviewService.queueEntry(user, question, answer, model);
   }
 
   /**
@@ -629,6 +1101,7 @@ export class ChatService {
 
   /**
    * Build context string from search results
+   * Each chunk is labelled [n] (its 1-based position in the results) so the model can cite it
    */
   private buildContext(results: SearchResult[]): string {
     if (results.length === 0) {
@@ -638,8 +1111,8 @@ export class ChatService {
     let context = 'Relevant information from the knowledge base:\n\n';
 
     results.forEach((result, index) => {
-      // Remove source numbering from context to keep responses clean
-      context += `${result.content}\n\n`;
+      const fileName = result.metadata?.fileName || 'Unknown';
+      context += `[${index + 1}] (${fileName})\n${result.content}\n\n`;
     });
 
     return context;
@@ -724,6 +1197,8 @@ export class ChatService {
       aiConfigured: this.aiService.isConfigured(),
       activeSessions: sessionCount,
       vectorStore: {
+        provider: vectorStats.provider,
+        available: vectorStats.available,
         totalChunks: vectorStats.count,
         collectionName: vectorStats.collectionName,
       },
@@ -0,0 +1,32 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FEEDBACK_RATINGS, FeedbackRating } from '../entities/answer-feedback.entity';
+
+export class SubmitFeedbackDto {
+  @ApiProperty({ enum: FEEDBACK_RATINGS, example: 'down' })
+  @IsIn(FEEDBACK_RATINGS)
+  rating: FeedbackRating;
+
+  @ApiPropertyOptional({ example: 'The opening hours are out of date' })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'What the answer should have been' })
+  @IsString()
+  @MaxLength(10000)
+  @IsOptional()
+  correctedAnswer?: string;
+}
+
+export class PromoteFeedbackDto {
+  @ApiPropertyOptional({
+    description: "Answer to serve from the cache (defaults to the feedback's corrected answer)",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  @IsOptional()
+  answer?: string;
+}
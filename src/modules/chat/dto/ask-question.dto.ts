@@ -1,5 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsEnum, IsBoolean, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  IsUUID,
+  IsArray,
+  IsIn,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 
 export enum OpenAIModel {
   GPT_4O_MINI = 'gpt-4o-mini',
@@ -8,6 +21,10 @@ export enum OpenAIModel {
   GPT_35_TURBO = 'gpt-3.5-turbo',
 }
 
+// Per-request cache use: 'read' serves cached answers, 'write' caches new ones
+export const CACHE_MODES = ['off', 'read', 'write', 'readwrite'] as const;
+export type CacheMode = (typeof CACHE_MODES)[number];
+
 export class AskQuestionDto {
   @ApiProperty({
     description: 'The question or message to ask',
@@ -51,15 +68,48 @@ export class AskQuestionDto {
   topK?: number;
 
   @ApiProperty({
-    description: 'OpenAI model to use for chat completion',
-    enum: OpenAIModel,
+    description:
+      'Model to use for chat completion. OpenAI models: gpt-4o-mini, gpt-4o, gpt-4-turbo, ' +
+      'gpt-3.5-turbo; other models are routed to providers via AI_MODEL_ROUTES',
     example: OpenAIModel.GPT_4O_MINI,
-    default: OpenAIModel.GPT_4O_MINI,
     required: false,
   })
-  @IsEnum(OpenAIModel, {
-    message: 'Model must be one of: gpt-4o-mini, gpt-4o, gpt-4-turbo, gpt-3.5-turbo',
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  model?: string;
+
+  @ApiProperty({
+    description: 'Restrict retrieval to this folder and its subfolders (optional)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  folderId?: string;
+
+  @ApiProperty({
+    description: 'Restrict retrieval to these documents (optional, comma-separated in multipart)',
+    type: [String],
+    required: false,
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',').map((id) => id.trim()) : value,
+  )
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  documentIds?: string[];
+
+  @ApiProperty({
+    description:
+      'Q&A cache use: "read" serves cached answers without caching new ones, "write" always ' +
+      'generates a fresh answer and caches it, "off" bypasses the cache',
+    enum: CACHE_MODES,
+    default: 'readwrite',
+    required: false,
   })
+  @IsIn(CACHE_MODES)
   @IsOptional()
-  model?: OpenAIModel;
+  cache?: CacheMode;
 }
@@ -0,0 +1,34 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { KNOWLEDGE_ENTRY_STATUSES, KnowledgeEntryStatus } from '../entities/knowledge-entry.entity';
+
+export class ReviewQueueQueryDto {
+  @ApiPropertyOptional({ enum: KNOWLEDGE_ENTRY_STATUSES, default: 'pending' })
+  @IsIn(KNOWLEDGE_ENTRY_STATUSES)
+  @IsOptional()
+  status?: KnowledgeEntryStatus;
+}
+
+export class UpdateKnowledgeEntryDto {
+  @ApiPropertyOptional({ example: 'What are the opening hours on public holidays?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  @IsOptional()
+  question?: string;
+
+  @ApiPropertyOptional({ example: 'Outlets open from 10am to 4pm on public holidays.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  @IsOptional()
+  answer?: string;
+}
+
+export class RejectKnowledgeEntryDto {
+  @ApiPropertyOptional({ example: 'Contradicts the holiday policy' })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { CacheKey } from '../services/qa-cache.service';
+
+export const FEEDBACK_RATINGS = ['up', 'down'] as const;
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export const FEEDBACK_STATUSES = ['open', 'promoted'] as const;
+export type FeedbackStatus = (typeof FEEDBACK_STATUSES)[number];
+
+/**
+ * A user's rating of an assistant message. The question and answer are copied from the session
+ * so that feedback survives history trimming and session deletion.
+ */
+@Entity('answer_feedback')
+@Index(['sessionId', 'messageId'], { unique: true })
+@Index(['cacheId'])
+@Index(['rating', 'status'])
+export class AnswerFeedbackEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  sessionId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  messageId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  cacheId: string; // Q&A cache entry the answer was served from or saved to
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scope: string; // Tenant scope of the user, used when a correction is promoted
+
+  @Column({ type: 'text' })
+  question: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  cacheKey: CacheKey; // Cache key the answer was generated for; a promoted correction reuses it
+
+  @Column({ type: 'text' })
+  answer: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  rating: FeedbackRating;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @Column({ type: 'text', nullable: true })
+  correctedAnswer: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'open' })
+  status: FeedbackStatus;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reviewedBy: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const KNOWLEDGE_ENTRY_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type KnowledgeEntryStatus = (typeof KNOWLEDGE_ENTRY_STATUSES)[number];
+
+/**
+ * AI-generated Q&A waiting for review before it joins the knowledge base. Only approved entries
+ * are written to the vector store.
+ */
+@Entity('kb_entries')
+@Index(['status', 'createdAt'])
+@Index(['organizationId'])
+export class KnowledgeEntryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'text' })
+  question: string;
+
+  @Column({ type: 'text' })
+  answer: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model: string; // Model that generated the answer
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: KnowledgeEntryStatus;
+
+  @Column()
+  userId: string; // User whose question produced the entry
+
+  @Column({ nullable: true })
+  organizationId: string;
+
+  @Column({ nullable: true })
+  franchiseId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  vectorDocumentId: string; // documentId of the published chunk (approved entries)
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reviewedBy: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNote: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
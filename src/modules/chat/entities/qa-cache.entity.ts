@@ -7,9 +7,13 @@ import {
   Index,
 } from 'typeorm';
 
+export type QACacheStatus = 'active' | 'quarantined' | 'stale';
+
 @Entity('qa_cache')
 @Index(['userId', 'createdAt'])
+@Index(['scope'])
 @Index(['question'])
+@Index(['questionHash'])
 export class QACache {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -17,26 +21,44 @@ export class QACache {
   @Column({ type: 'varchar', length: 255 })
   userId: string;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  scope: string; // Tenant scope of the asker - shared with users who can read that scope
+
   @Column({ type: 'text' })
   question: string;
 
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  questionHash: string; // SHA-256 of the normalized question, for exact hits without embedding
+
   @Column({ type: 'text' })
   answer: string;
 
   @Column({ type: 'varchar', length: 50, default: 'ai_generated' })
-  source: string; // 'ai_generated', 'document_rag', 'cached'
+  source: string; // 'ai_generated', 'document_rag', 'cached', 'curated'
+
+  @Column({ type: 'varchar', length: 20, default: 'active' })
+  status: QACacheStatus; // Only active entries are served (see QACacheService)
+
+  @Column({ type: 'boolean', default: false })
+  authoritative: boolean; // Answer promoted by an admin; preferred over other matches
 
   @Column({ type: 'varchar', length: 100, nullable: true })
-  model: string; // Which model generated this
+  model: string; // Which model generated this (null for entries cached before answers were keyed)
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  filterKey: string; // Hash of the folder/document retrieval filter; null when unfiltered
+
+  @Column({ type: 'simple-array', nullable: true })
+  documentSources: string[]; // File names of the documents used (for display)
 
   @Column({ type: 'simple-array', nullable: true })
-  documentSources: string[]; // Which documents were used
+  documentIds: string[]; // Uploaded documents the answer depends on (for invalidation)
 
   @Column({ type: 'int', default: 1 })
   usageCount: number; // How many times this was returned
 
   @Column({ type: 'text', nullable: true })
-  embedding: string; // Store question embedding for semantic search
+  embedding: string; // Legacy: question embeddings now live in the cache vector collection
 
   @CreateDateColumn()
   createdAt: Date;
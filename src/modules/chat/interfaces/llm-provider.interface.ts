@@ -0,0 +1,64 @@
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topK?: number;
+  topP?: number;
+}
+
+/**
+ * Contract implemented by every LLM backend that AIService can route to
+ */
+export interface LLMProvider {
+  /** Provider name as used in configuration (ai.provider, ai.modelRoutes) */
+  readonly name: string;
+
+  /** Model used when a request does not name one */
+  getDefaultModel(): string;
+
+  /** Whether a chat model name can be served by this provider */
+  supportsModel(model: string): boolean;
+
+  isConfigured(): boolean;
+
+  /** Embedding model used when a request does not name one */
+  getDefaultEmbeddingModel(): string;
+
+  generateEmbedding(text: string, modelOverride?: string): Promise<number[]>;
+
+  generateEmbeddings(texts: string[], modelOverride?: string): Promise<number[][]>;
+
+  chat(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+  ): Promise<string>;
+
+  chatStream(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string>;
+
+  generateCompletion(
+    prompt: string,
+    options?: ChatOptions,
+    modelOverride?: string,
+  ): Promise<string>;
+
+  analyzeImage(
+    imageBuffer: Buffer,
+    mimeType: string,
+    prompt: string,
+    modelOverride?: string,
+  ): Promise<string>;
+}
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { KnowledgeReviewService } from './services/knowledge-review.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { User } from '../../common/interfaces/user.interface';
+import {
+  RejectKnowledgeEntryDto,
+  ReviewQueueQueryDto,
+  UpdateKnowledgeEntryDto,
+} from './dto/review-knowledge-entry.dto';
+
+@ApiTags('knowledge-base')
+@Controller('kb/review')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.FRANCHISOR)
+@ApiBearerAuth()
+export class KnowledgeReviewController {
+  constructor(private readonly knowledgeReviewService: KnowledgeReviewService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List AI-generated knowledge base entries for review' })
+  @ApiResponse({ status: 200, description: 'Review queue retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid status' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getReviewQueue(@CurrentUser() user: User, @Query() query: ReviewQueueQueryDto) {
+    const entries = await this.knowledgeReviewService.getReviewQueue(
+      user,
+      query.status || 'pending',
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      data: entries,
+    };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit the question or answer of an entry' })
+  @ApiResponse({ status: 200, description: 'Entry updated successfully' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async updateEntry(
+    @Param('id') id: string,
+    @Body() dto: UpdateKnowledgeEntryDto,
+    @CurrentUser() user: User,
+  ) {
+    const entry = await this.knowledgeReviewService.updateEntry(id, dto, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Entry updated successfully',
+      data: entry,
+    };
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve an entry (with optional edits) and add it to the knowledge base',
+  })
+  @ApiResponse({ status: 200, description: 'Entry approved successfully' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async approveEntry(
+    @Param('id') id: string,
+    @Body() dto: UpdateKnowledgeEntryDto,
+    @CurrentUser() user: User,
+  ) {
+    const entry = await this.knowledgeReviewService.approveEntry(id, dto, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Entry approved successfully',
+      data: entry,
+    };
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject an entry (removes it from the knowledge base if approved)' })
+  @ApiResponse({ status: 200, description: 'Entry rejected successfully' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async rejectEntry(
+    @Param('id') id: string,
+    @Body() dto: RejectKnowledgeEntryDto,
+    @CurrentUser() user: User,
+  ) {
+    const entry = await this.knowledgeReviewService.rejectEntry(id, user, dto.note);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Entry rejected successfully',
+      data: entry,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import { AIService, ModelRoute } from './ai.service';
+
+describe('AIService', () => {
+  /** Provider stub answering with its own name */
+  function stubProvider(name: string, configured = true) {
+    return {
+      name,
+      isConfigured: () => configured,
+      getDefaultModel: () => `${name}-model`,
+      getDefaultEmbeddingModel: () => `${name}-embedding`,
+      supportsModel: (model: string) => model.startsWith(name),
+      generateEmbedding: jest.fn(async () => [name.length]),
+      generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(() => [name.length])),
+      chat: jest.fn(async () => name),
+      generateCompletion: jest.fn(async () => name),
+    };
+  }
+
+  let openai: ReturnType<typeof stubProvider>;
+  let compatible: ReturnType<typeof stubProvider>;
+  let fake: ReturnType<typeof stubProvider>;
+
+  function createService(ai: {
+    provider: string;
+    embeddingProvider?: string;
+    modelRoutes?: ModelRoute[];
+  }): AIService {
+    return new AIService(new ConfigService({ ai }), openai as any, compatible as any, fake as any);
+  }
+
+  beforeEach(() => {
+    openai = stubProvider('openai');
+    compatible = stubProvider('openai-compatible');
+    fake = stubProvider('fake');
+  });
+
+  const routes: ModelRoute[] = [
+    { pattern: 'llama3*', provider: 'openai-compatible' },
+    { pattern: 'gpt-4o', provider: 'openai' },
+  ];
+
+  it('routes models by exact name and by prefix', async () => {
+    const service = createService({ provider: 'fake', modelRoutes: routes });
+
+    expect(await service.chat('Hi', undefined, [], {}, 'llama3.1:8b')).toBe('openai-compatible');
+    expect(await service.chat('Hi', undefined, [], {}, 'gpt-4o')).toBe('openai');
+    expect(service.getProvider('gpt-4o-mini')).toBe('fake');
+  });
+
+  it('falls back to the default provider when no model is given', async () => {
+    const service = createService({ provider: 'openai', modelRoutes: routes });
+
+    expect(await service.generateCompletion('Summarize')).toBe('openai');
+    expect(service.getProvider()).toBe('openai');
+    expect(service.getDefaultModel()).toBe('openai-model');
+  });
+
+  it('checks requested models against the provider they are routed to', () => {
+    const service = createService({ provider: 'fake', modelRoutes: routes });
+
+    expect(service.isModelSupported('llama3.1')).toBe(false);
+    expect(service.isModelSupported('fake-large')).toBe(true);
+  });
+
+  it('always embeds with the embedding provider', async () => {
+    const service = createService({
+      provider: 'openai-compatible',
+      embeddingProvider: 'openai',
+      modelRoutes: routes,
+    });
+
+    await service.generateEmbedding('question');
+    await service.generateEmbeddings(['a', 'b']);
+
+    expect(openai.generateEmbedding).toHaveBeenCalled();
+    expect(openai.generateEmbeddings).toHaveBeenCalled();
+    expect(compatible.generateEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown or unconfigured providers at startup', () => {
+    expect(() =>
+      createService({
+        provider: 'fake',
+        modelRoutes: [{ pattern: 'claude*', provider: 'anthropic' }],
+      }).onApplicationBootstrap(),
+    ).toThrow('Unknown AI provider "anthropic"');
+
+    compatible = stubProvider('openai-compatible', false);
+    expect(() =>
+      createService({ provider: 'fake', modelRoutes: routes }).onApplicationBootstrap(),
+    ).toThrow('AI provider "openai-compatible" is selected but not configured');
+  });
+});
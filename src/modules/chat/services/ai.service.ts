@@ -1,33 +1,110 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { OpenAIService } from './openai.service';
-import { ChatMessage, ChatOptions } from './openai.service';
+import { OpenAICompatibleService } from './openai-compatible.service';
+import { FakeLLMService } from './fake-llm.service';
+import { ChatMessage, ChatOptions, LLMProvider } from '../interfaces/llm-provider.interface';
+
+export interface ModelRoute {
+  pattern: string; // Exact model name, or a prefix ending in '*'
+  provider: string;
+}
 
 /**
- * Unified AI Service - OpenAI Integration
- * Simplified wrapper for OpenAI service
+ * Unified AI Service
+ * Routes chat, completion and vision requests to an LLM provider by model name
+ * (ai.modelRoutes), falling back to ai.provider. Embeddings always use
+ * ai.embeddingProvider so that vectors stay comparable.
  */
 @Injectable()
-export class AIService implements OnModuleInit {
+export class AIService implements OnApplicationBootstrap {
   private readonly logger = new Logger(AIService.name);
+  private readonly providers = new Map<string, LLMProvider>();
+  private defaultProviderName: string;
+  private embeddingProviderName: string;
+  private embeddingModel: string; // Set when the active vector collection uses a non-default model
+  private modelRoutes: ModelRoute[];
+
+  constructor(
+    private configService: ConfigService,
+    openaiService: OpenAIService,
+    openaiCompatibleService: OpenAICompatibleService,
+    fakeLLMService: FakeLLMService,
+  ) {
+    for (const provider of [openaiService, openaiCompatibleService, fakeLLMService]) {
+      this.providers.set(provider.name, provider);
+    }
+
+    this.defaultProviderName = this.configService.get<string>('ai.provider');
+    this.embeddingProviderName =
+      this.configService.get<string>('ai.embeddingProvider') || this.defaultProviderName;
+    this.modelRoutes = this.configService.get<ModelRoute[]>('ai.modelRoutes') || [];
+  }
+
+  /**
+   * Validate provider configuration once every provider has initialized its client
+   */
+  onApplicationBootstrap() {
+    const required = new Set([
+      this.defaultProviderName,
+      this.embeddingProviderName,
+      ...this.modelRoutes.map((route) => route.provider),
+    ]);
 
-  constructor(private openaiService: OpenAIService) {}
+    for (const name of required) {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        throw new Error(
+          `Unknown AI provider "${name}". Available: ${[...this.providers.keys()].join(', ')}`,
+        );
+      }
+      if (!provider.isConfigured()) {
+        throw new Error(`AI provider "${name}" is selected but not configured`);
+      }
+    }
 
-  onModuleInit() {
-    this.logger.log('AI Service initialized with OpenAI');
+    this.logger.log(
+      `AI Service initialized (chat: ${this.defaultProviderName}, embeddings: ${this.embeddingProviderName})`,
+    );
+    this.modelRoutes.forEach((route) =>
+      this.logger.log(`Model route: ${route.pattern} -> ${route.provider}`),
+    );
   }
 
   /**
    * Generate embeddings for a single text
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    return this.openaiService.generateEmbedding(text);
+  async generateEmbedding(text: string, model?: string): Promise<number[]> {
+    return this.getEmbeddingProvider().generateEmbedding(text, model || this.getEmbeddingModel());
   }
 
   /**
    * Generate embeddings for multiple texts in batch
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    return this.openaiService.generateEmbeddings(texts);
+  async generateEmbeddings(texts: string[], model?: string): Promise<number[][]> {
+    return this.getEmbeddingProvider().generateEmbeddings(texts, model || this.getEmbeddingModel());
+  }
+
+  /**
+   * Embedding model used for queries and new chunks (the model of the active vector collection)
+   */
+  getEmbeddingModel(): string {
+    return this.embeddingModel || this.getEmbeddingProvider().getDefaultEmbeddingModel();
+  }
+
+  /**
+   * Embedding model configured for the embedding provider
+   */
+  getDefaultEmbeddingModel(): string {
+    return this.getEmbeddingProvider().getDefaultEmbeddingModel();
+  }
+
+  /**
+   * Switch the embedding model, e.g. after migrating the vector collection to a new model
+   */
+  setEmbeddingModel(model: string): void {
+    this.embeddingModel = model;
+    this.logger.log(`Embedding model set to: ${model}`);
   }
 
   /**
@@ -40,7 +117,34 @@ export class AIService implements OnModuleInit {
     options?: ChatOptions,
     modelOverride?: string,
   ): Promise<string> {
-    return this.openaiService.chat(message, context, history, options, modelOverride);
+    return this.resolveProvider(modelOverride).chat(
+      message,
+      context,
+      history,
+      options,
+      modelOverride,
+    );
+  }
+
+  /**
+   * Generate chat completion with context, streamed as content deltas
+   */
+  chatStream(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    return this.resolveProvider(modelOverride).chatStream(
+      message,
+      context,
+      history,
+      options,
+      modelOverride,
+      signal,
+    );
   }
 
   /**
@@ -51,18 +155,18 @@ export class AIService implements OnModuleInit {
     options?: ChatOptions,
     modelOverride?: string,
   ): Promise<string> {
-    return this.openaiService.generateCompletion(prompt, options, modelOverride);
+    return this.resolveProvider(modelOverride).generateCompletion(prompt, options, modelOverride);
   }
 
   /**
    * Check if the service is properly configured
    */
   isConfigured(): boolean {
-    return this.openaiService.isConfigured();
+    return this.getDefaultProvider().isConfigured() && this.getEmbeddingProvider().isConfigured();
   }
 
   /**
-   * Analyze image with OpenAI Vision
+   * Analyze image with the vision model of the routed provider
    */
   async analyzeImage(
     imageBuffer: Buffer,
@@ -70,14 +174,56 @@ export class AIService implements OnModuleInit {
     prompt: string,
     modelOverride?: string,
   ): Promise<string> {
-    return this.openaiService.analyzeImage(imageBuffer, mimeType, prompt, modelOverride);
+    return this.resolveProvider(modelOverride).analyzeImage(
+      imageBuffer,
+      mimeType,
+      prompt,
+      modelOverride,
+    );
+  }
+
+  /**
+   * Get the provider that serves a model (the default provider when no model is given)
+   */
+  getProvider(model?: string): string {
+    return this.resolveProvider(model).name;
+  }
+
+  /**
+   * Default chat model of the default provider
+   */
+  getDefaultModel(): string {
+    return this.getDefaultProvider().getDefaultModel();
   }
 
   /**
-   * Get current AI provider
+   * Whether a requested chat model can be served by a routed or the default provider
    */
-  getProvider(): string {
-    return 'openai';
+  isModelSupported(model: string): boolean {
+    return this.resolveProvider(model).supportsModel(model);
+  }
+
+  /**
+   * Pick the provider for a model: first matching route, else the default provider
+   */
+  private resolveProvider(model?: string): LLMProvider {
+    if (model) {
+      const route = this.modelRoutes.find((r) =>
+        r.pattern.endsWith('*') ? model.startsWith(r.pattern.slice(0, -1)) : model === r.pattern,
+      );
+      if (route) {
+        return this.providers.get(route.provider);
+      }
+    }
+    return this.getDefaultProvider();
+  }
+
+  private getDefaultProvider(): LLMProvider {
+    return this.providers.get(this.defaultProviderName);
+  }
+
+  private getEmbeddingProvider(): LLMProvider {
+    return this.providers.get(this.embeddingProviderName);
   }
 }
 
@@ -0,0 +1,139 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import {
+  AnswerFeedbackEntity,
+  FeedbackRating,
+  FeedbackStatus,
+} from '../entities/answer-feedback.entity';
+import { ChatSessionEntity } from '../../../entities/chat-session.entity';
+import { QACacheService } from './qa-cache.service';
+import { User } from '../../../common/interfaces/user.interface';
+import { getUserScope } from '../../../common/utils/tenant-scope';
+import { SubmitFeedbackDto } from '../dto/answer-feedback.dto';
+
+/**
+ * Answer Feedback Service
+ * Thumbs up/down on assistant messages. Negative feedback quarantines the cache entry behind
+ * the answer; admins can promote a corrected answer into the cache as authoritative.
+ */
+@Injectable()
+export class AnswerFeedbackService {
+  private readonly logger = new Logger(AnswerFeedbackService.name);
+
+  constructor(
+    @InjectRepository(AnswerFeedbackEntity)
+    private feedbackRepository: Repository<AnswerFeedbackEntity>,
+    @InjectRepository(ChatSessionEntity)
+    private sessionRepository: Repository<ChatSessionEntity>,
+    private qaCacheService: QACacheService,
+  ) {}
+
+  /**
+   * Rate an assistant message of one of the user's sessions (rating again replaces the feedback)
+   */
+  async submitFeedback(
+    user: User,
+    sessionId: string,
+    messageId: string,
+    dto: SubmitFeedbackDto,
+  ): Promise<AnswerFeedbackEntity> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session || session.userId !== user.id) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const messages = session.messages || [];
+    const index = messages.findIndex((m) => m.id === messageId && m.role === 'assistant');
+    if (index === -1) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const message = messages[index];
+    const question = messages[index - 1]?.role === 'user' ? messages[index - 1].content : '';
+
+    const feedback =
+      (await this.feedbackRepository.findOne({ where: { sessionId, messageId } })) ||
+      this.feedbackRepository.create({
+        sessionId,
+        messageId,
+        userId: user.id,
+        cacheId: message.cacheId || null,
+        cacheKey: message.cacheKey || null,
+        scope: getUserScope(user),
+        question,
+        answer: message.content,
+      });
+
+    feedback.rating = dto.rating;
+    feedback.reason = dto.reason || null;
+    feedback.correctedAnswer = dto.correctedAnswer || null;
+
+    const saved = await this.feedbackRepository.save(feedback);
+    this.logger.log(`${dto.rating === 'up' ? '👍' : '👎'} Feedback on message ${messageId}`);
+
+    if (dto.rating === 'down' && saved.cacheId) {
+      await this.qaCacheService.quarantineEntry(saved.cacheId);
+    }
+
+    // The cache key stays server-side (admins see it when reviewing feedback)
+    delete saved.cacheKey;
+    return saved;
+  }
+
+  /**
+   * Feedback for review, newest first
+   */
+  async getFeedback(filters: {
+    rating?: FeedbackRating;
+    status?: FeedbackStatus;
+  }): Promise<AnswerFeedbackEntity[]> {
+    const where: FindOptionsWhere<AnswerFeedbackEntity> = {};
+    if (filters.rating) {
+      where.rating = filters.rating;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    return this.feedbackRepository.find({ where, order: { createdAt: 'DESC' }, take: 200 });
+  }
+
+  /**
+   * Serve the corrected answer (or the given one) from the cache as authoritative
+   */
+  async promoteFeedback(
+    feedbackId: string,
+    admin: User,
+    answer?: string,
+  ): Promise<AnswerFeedbackEntity> {
+    const feedback = await this.feedbackRepository.findOne({ where: { id: feedbackId } });
+    if (!feedback) {
+      throw new NotFoundException('Feedback not found');
+    }
+
+    const promotedAnswer = answer || feedback.correctedAnswer;
+    if (!promotedAnswer) {
+      throw new BadRequestException('Provide an answer: this feedback has no corrected answer');
+    }
+    if (!feedback.question) {
+      throw new BadRequestException('The question for this feedback is unknown');
+    }
+
+    const entry = await this.qaCacheService.promoteAnswer({
+      cacheId: feedback.cacheId,
+      key: feedback.cacheKey,
+      answer: promotedAnswer,
+      scope: feedback.scope,
+      userId: feedback.userId,
+    });
+
+    feedback.cacheId = entry.id;
+    feedback.status = 'promoted';
+    feedback.reviewedBy = admin.id;
+    feedback.reviewedAt = new Date();
+
+    this.logger.log(`✅ Feedback ${feedbackId} promoted by ${admin.email}`);
+    return this.feedbackRepository.save(feedback);
+  }
+}
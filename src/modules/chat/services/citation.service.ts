@@ -0,0 +1,108 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SearchResult } from '../../vector/vector.service';
+
+export interface Citation {
+  marker: number; // The [n] marker as it appears in the answer
+  documentId: string;
+  documentVersion?: number; // Version of the document that was indexed when answering
+  fileName: string;
+  chunkIndex: number;
+  span: { start: number; end: number }; // Character span of the cited sentence in the answer
+}
+
+export interface CitationResult {
+  answer: string; // Answer with invalid markers stripped
+  citations: Citation[];
+  invalidMarkers: number[]; // Markers that did not reference a retrieved chunk
+}
+
+@Injectable()
+export class CitationService {
+  private readonly logger = new Logger(CitationService.name);
+
+  /**
+   * Resolve [n] markers in an answer against the chunks that were retrieved for it.
+   * Marker n refers to the nth search result, as labelled by ChatService.buildContext.
+   */
+  extractCitations(answer: string, searchResults: SearchResult[]): CitationResult {
+    const invalidMarkers = new Set<number>();
+
+    // Normalize grouped markers like [1, 2] to [1][2], then strip markers that
+    // point outside the retrieved chunks
+    const cleaned = answer
+      .replace(/\[(\d+(?:\s*,\s*\d+)+)\]/g, (_, group: string) =>
+        group
+          .split(',')
+          .map((n) => `[${n.trim()}]`)
+          .join(''),
+      )
+      .replace(/\s?\[(\d+)\]/g, (match, n: string) => {
+        const marker = parseInt(n, 10);
+        if (marker >= 1 && marker <= searchResults.length) {
+          return match;
+        }
+        invalidMarkers.add(marker);
+        return '';
+      });
+
+    if (invalidMarkers.size > 0) {
+      this.logger.warn(
+        `⚠️  Stripped citations to chunks that were not retrieved: ${[...invalidMarkers].join(', ')}`,
+      );
+    }
+
+    const citations: Citation[] = [];
+    const markerPattern = /\[(\d+)\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = markerPattern.exec(cleaned)) !== null) {
+      const marker = parseInt(match[1], 10);
+      const result = searchResults[marker - 1];
+
+      citations.push({
+        marker,
+        documentId: result.metadata?.uploadedDocumentId || result.metadata?.documentId,
+        documentVersion: result.metadata?.documentVersion,
+        fileName: result.metadata?.fileName || 'Unknown',
+        chunkIndex: result.metadata?.chunkIndex,
+        span: this.findSentenceSpan(cleaned, match.index),
+      });
+    }
+
+    return {
+      answer: cleaned,
+      citations,
+      invalidMarkers: [...invalidMarkers],
+    };
+  }
+
+  /**
+   * Remove all [n] markers (e.g. before caching an answer without its sources)
+   */
+  stripMarkers(answer: string): string {
+    return answer.replace(/\s?\[\d+(?:\s*,\s*\d+)*\]/g, '');
+  }
+
+  /**
+   * Find the sentence a marker refers to: the text between the previous sentence
+   * boundary and the marker, excluding trailing punctuation and adjacent markers
+   */
+  private findSentenceSpan(text: string, markerIndex: number): { start: number; end: number } {
+    const before = text.slice(0, markerIndex).replace(/(?:[\s.!?]|\[\d+\])*$/, '');
+    const end = before.length;
+
+    const boundary = Math.max(
+      before.lastIndexOf('. '),
+      before.lastIndexOf('! '),
+      before.lastIndexOf('? '),
+      before.lastIndexOf('\n'),
+    );
+
+    let start = boundary === -1 ? 0 : boundary + 1;
+    while (start < end && /\s/.test(text[start])) {
+      start++;
+    }
+
+    return { start, end };
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChatMessage, ChatOptions, LLMProvider } from '../interfaces/llm-provider.interface';
+
+/**
+ * Deterministic offline provider for local development and tests (AI_PROVIDER=fake)
+ * Embeddings are hashed bags of words, so texts sharing words are similar;
+ * chat responses echo the question and how much context was supplied.
+ */
+@Injectable()
+export class FakeLLMService implements LLMProvider {
+  readonly name: string = 'fake';
+  private readonly logger = new Logger(FakeLLMService.name);
+  private readonly dimensions = 256;
+
+  getDefaultModel(): string {
+    return 'fake-model';
+  }
+
+  supportsModel(): boolean {
+    return true;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getDefaultEmbeddingModel(): string {
+    return 'fake-embedding';
+  }
+
+  /**
+   * Generate embeddings for a single text (the model name is ignored)
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const word of words) {
+      vector[this.hash(word) % this.dimensions] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  /**
+   * Generate embeddings for multiple texts in batch
+   */
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.generateEmbedding(text)));
+  }
+
+  /**
+   * Generate chat completion with context
+   */
+  async chat(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+  ): Promise<string> {
+    const model = modelOverride || this.getDefaultModel();
+    const answer = context
+      ? `[${model}] Answer to "${message}" based on ${context.length} characters of context [1].`
+      : `[${model}] Answer to "${message}".`;
+
+    this.logger.log(`Generated fake chat response (${answer.length} chars)`);
+    return answer;
+  }
+
+  /**
+   * Generate chat completion with context, streamed word by word
+   */
+  async *chatStream(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    const answer = await this.chat(message, context, history, options, modelOverride);
+
+    for (const token of answer.split(/(?<= )/)) {
+      if (signal?.aborted) {
+        throw new Error('Request was aborted');
+      }
+      yield token;
+    }
+  }
+
+  /**
+   * Generate a simple completion without context
+   */
+  async generateCompletion(
+    prompt: string,
+    options?: ChatOptions,
+    modelOverride?: string,
+  ): Promise<string> {
+    return `[${modelOverride || this.getDefaultModel()}] Completion for: ${prompt.substring(0, 100)}`;
+  }
+
+  /**
+   * Describe an image without looking at it
+   */
+  async analyzeImage(
+    imageBuffer: Buffer,
+    mimeType: string,
+    prompt: string,
+    modelOverride?: string,
+  ): Promise<string> {
+    const model = modelOverride || this.getDefaultModel();
+    return `[${model}] ${mimeType} image of ${imageBuffer.length} bytes. Prompt: ${prompt}`;
+  }
+
+  /**
+   * FNV-1a string hash
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+}
@@ -1,8 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import pdf from 'pdf-parse';
-import * as XLSX from 'xlsx';
-import * as mammoth from 'mammoth';
-import { readFileSync } from 'fs';
+import { ExtractionService } from '../../extraction/extraction.service';
 
 export interface ProcessedFile {
   fileName: string;
@@ -17,6 +14,8 @@ export interface ProcessedFile {
 export class FileProcessorService {
   private readonly logger = new Logger(FileProcessorService.name);
 
+  constructor(private extractionService: ExtractionService) {}
+
   /**
    * Process uploaded file based on type
    */
@@ -37,38 +36,15 @@ export class FileProcessorService {
         return result;
       }
 
-      // PDF files
-      if (file.mimetype === 'application/pdf') {
-        result.content = await this.extractPdfText(file.buffer);
-        this.logger.log(`PDF text extracted: ${result.content?.length} characters`);
-        return result;
-      }
-
-      // Excel/CSV files
-      if (
-        file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-        file.mimetype === 'application/vnd.ms-excel' ||
-        file.mimetype === 'text/csv'
-      ) {
-        result.content = await this.extractExcelText(file.buffer);
-        this.logger.log(`Excel/CSV text extracted: ${result.content?.length} characters`);
-        return result;
-      }
-
-      // Word documents
-      if (
-        file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-        file.mimetype === 'application/msword'
-      ) {
-        result.content = await this.extractWordText(file.buffer);
-        this.logger.log(`Word text extracted: ${result.content?.length} characters`);
-        return result;
-      }
-
-      // Plain text files
-      if (file.mimetype.startsWith('text/')) {
-        result.content = file.buffer.toString('utf-8');
-        this.logger.log(`Text file read: ${result.content?.length} characters`);
+      // Documents, spreadsheets, presentations, HTML and text
+      if (this.extractionService.supports(file.mimetype, file.originalname)) {
+        const { text } = await this.extractionService.extract(
+          file.buffer,
+          file.mimetype,
+          file.originalname,
+        );
+        result.content = text;
+        this.logger.log(`Text extracted: ${result.content?.length} characters`);
         return result;
       }
 
@@ -84,51 +60,6 @@ export class FileProcessorService {
     }
   }
 
-  /**
-   * Extract text from PDF
-   */
-  private async extractPdfText(buffer: Buffer): Promise<string> {
-    try {
-      const data = await pdf(buffer);
-      return data.text;
-    } catch (error) {
-      throw new Error(`PDF extraction failed: ${error.message}`);
-    }
-  }
-
-  /**
-   * Extract text from Excel/CSV
-   */
-  private async extractExcelText(buffer: Buffer): Promise<string> {
-    try {
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      let text = '';
-
-      workbook.SheetNames.forEach((sheetName) => {
-        const worksheet = workbook.Sheets[sheetName];
-        text += `\n=== Sheet: ${sheetName} ===\n`;
-        text += XLSX.utils.sheet_to_csv(worksheet);
-        text += '\n';
-      });
-
-      return text.trim();
-    } catch (error) {
-      throw new Error(`Excel extraction failed: ${error.message}`);
-    }
-  }
-
-  /**
-   * Extract text from Word document
-   */
-  private async extractWordText(buffer: Buffer): Promise<string> {
-    try {
-      const result = await mammoth.extractRawText({ buffer });
-      return result.value;
-    } catch (error) {
-      throw new Error(`Word extraction failed: ${error.message}`);
-    }
-  }
-
   /**
    * Get supported file types
    */
@@ -141,22 +72,8 @@ export class FileProcessorService {
       'image/gif',
       'image/webp',
       'image/svg+xml',
-      // Documents
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-      // Spreadsheets
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-      'text/csv',
-      // Text
-      'text/plain',
-      'text/markdown',
-      'text/html',
-      'application/json',
-      'text/javascript',
-      'text/typescript',
-      'text/python',
+      // Documents, spreadsheets, presentations and text
+      ...this.extractionService.getSupportedMimeTypes(),
     ];
   }
 }
@@ -0,0 +1,62 @@
+import { ConfigService } from '@nestjs/config';
+import { KnowledgeReviewService } from './knowledge-review.service';
+import { KnowledgeEntryEntity } from '../entities/knowledge-entry.entity';
+import { UserEntity } from '../../../entities/user.entity';
+import { InMemoryRepository } from '../../../common/testing/in-memory-repository';
+
+describe('KnowledgeReviewService', () => {
+  let entries: InMemoryRepository<KnowledgeEntryEntity>;
+  let users: InMemoryRepository<UserEntity>;
+  let vectorService: { getChunks: jest.Mock; deleteDocumentsByDocId: jest.Mock };
+  let service: KnowledgeReviewService;
+
+  const chunk = (documentId: string, userId: string) => ({
+    id: documentId,
+    content: 'Question: Hours?\n\nAnswer: 9 to 5',
+    metadata: { documentId, source: 'ai_generated', question: 'Hours?', answer: '9 to 5', userId },
+  });
+
+  beforeEach(async () => {
+    entries = new InMemoryRepository<KnowledgeEntryEntity>({ status: 'pending' });
+    users = new InMemoryRepository<UserEntity>();
+    await users.save(
+      users.create({ id: 'user-1', organizationId: 'org-1', franchiseId: 'outlet-1' }),
+    );
+
+    vectorService = {
+      getChunks: jest.fn(async () => [chunk('ai-qa-1', 'user-1'), chunk('ai-qa-2', 'gone')]),
+      deleteDocumentsByDocId: jest.fn(),
+    };
+    service = new KnowledgeReviewService(
+      entries as any,
+      null,
+      users as any,
+      vectorService as any,
+      null,
+      null,
+      new ConfigService({}),
+    );
+  });
+
+  it("queues unreviewed chunks in their author's organization and deletes them", async () => {
+    await expect(service['queueUnreviewedChunks']()).resolves.toEqual({ queued: 2 });
+
+    expect(entries.rows).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        organizationId: 'org-1',
+        franchiseId: 'outlet-1',
+      }),
+      expect.objectContaining({ userId: 'gone', organizationId: null, franchiseId: null }),
+    ]);
+    expect(vectorService.deleteDocumentsByDocId).toHaveBeenCalledWith('ai-qa-1');
+    expect(vectorService.deleteDocumentsByDocId).toHaveBeenCalledWith('ai-qa-2');
+  });
+
+  it('does not queue a chunk twice when an interrupted backfill is rerun', async () => {
+    await service['queueUnreviewedChunks']();
+    await expect(service['queueUnreviewedChunks']()).resolves.toEqual({ queued: 0 });
+
+    expect(entries.rows).toHaveLength(2);
+  });
+});
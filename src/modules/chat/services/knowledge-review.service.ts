@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { KnowledgeEntryEntity, KnowledgeEntryStatus } from '../entities/knowledge-entry.entity';
+import { OrganizationEntity } from '../../../entities/organization.entity';
+import { UserEntity } from '../../../entities/user.entity';
+import { VectorService } from '../../vector/vector.service';
+import { JobsService } from '../../jobs/jobs.service';
+import { AIService } from './ai.service';
+import { User } from '../../../common/interfaces/user.interface';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { getTenantScope } from '../../../common/utils/tenant-scope';
+import { UpdateKnowledgeEntryDto } from '../dto/review-knowledge-entry.dto';
+
+export const KNOWLEDGE_BACKFILL_JOB = 'knowledge.backfill';
+
+/**
+ * Knowledge Review Service
+ * Self-learning: answers generated without knowledge base context are queued for review and
+ * only published to the vector store once approved. Platform admins review every entry,
+ * franchisor HQ users the entries of their organization. Self-learning can be switched off
+ * globally (knowledgeBase.selfLearningEnabled) or per organization.
+ */
+@Injectable()
+export class KnowledgeReviewService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(KnowledgeReviewService.name);
+
+  constructor(
+    @InjectRepository(KnowledgeEntryEntity)
+    private entryRepository: Repository<KnowledgeEntryEntity>,
+    @InjectRepository(OrganizationEntity)
+    private organizationRepository: Repository<OrganizationEntity>,
+    @InjectRepository(UserEntity)
+    private userRepository: Repository<UserEntity>,
+    private vectorService: VectorService,
+    private aiService: AIService,
+    private jobsService: JobsService,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.jobsService.registerHandler(KNOWLEDGE_BACKFILL_JOB, {
+      handle: () => this.queueUnreviewedChunks(),
+    });
+  }
+
+  /**
+   * Queue the one-off move of unreviewed AI-generated chunks into the review queue
+   */
+  async onApplicationBootstrap() {
+    try {
+      if (!(await this.jobsService.hasJobOfType(KNOWLEDGE_BACKFILL_JOB))) {
+        await this.jobsService.enqueue(KNOWLEDGE_BACKFILL_JOB);
+      }
+    } catch (error) {
+      this.logger.error(`Queueing the knowledge base backfill failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether answers for this user may be queued for, and retrieved from, the knowledge base
+   */
+  async isSelfLearningEnabled(user: User): Promise<boolean> {
+    if (!this.configService.get<boolean>('knowledgeBase.selfLearningEnabled')) {
+      return false;
+    }
+    if (!user.organizationId) {
+      return true;
+    }
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: user.organizationId },
+      select: ['id', 'selfLearningEnabled'],
+    });
+    return organization?.selfLearningEnabled ?? true;
+  }
+
+  /**
+   * Queue an AI-generated answer for review
+   */
+  async queueEntry(
+    user: User,
+    question: string,
+    answer: string,
+    model: string,
+  ): Promise<KnowledgeEntryEntity> {
+    const entry = await this.entryRepository.save(
+      this.entryRepository.create({
+        question,
+        answer,
+        model,
+        userId: user.id,
+        organizationId: user.organizationId || null,
+        franchiseId: user.franchiseId || null,
+      }),
+    );
+
+    this.logger.log(`📝 Queued AI-generated Q&A for review: ${entry.id}`);
+    return entry;
+  }
+
+  /**
+   * Entries the user may review, oldest first (pending by default)
+   */
+  async getReviewQueue(
+    user: User,
+    status: KnowledgeEntryStatus = 'pending',
+  ): Promise<KnowledgeEntryEntity[]> {
+    const where: FindOptionsWhere<KnowledgeEntryEntity> = { status };
+
+    if (user.role !== UserRole.PLATFORM_ADMIN) {
+      this.assertReviewer(user);
+      where.organizationId = user.organizationId;
+    }
+
+    return this.entryRepository.find({ where, order: { createdAt: 'ASC' }, take: 200 });
+  }
+
+  /**
+   * Edit an entry; approved entries are republished with the new text
+   */
+  async updateEntry(
+    entryId: string,
+    dto: UpdateKnowledgeEntryDto,
+    user: User,
+  ): Promise<KnowledgeEntryEntity> {
+    const entry = await this.getReviewableEntry(entryId, user);
+    this.applyEdits(entry, dto);
+
+    if (entry.status === 'approved') {
+      await this.publish(entry);
+    }
+
+    return this.entryRepository.save(entry);
+  }
+
+  /**
+   * Approve an entry (optionally editing it first) and publish it to the knowledge base
+   */
+  async approveEntry(
+    entryId: string,
+    dto: UpdateKnowledgeEntryDto,
+    user: User,
+  ): Promise<KnowledgeEntryEntity> {
+    const entry = await this.getReviewableEntry(entryId, user);
+    this.applyEdits(entry, dto);
+
+    await this.publish(entry);
+    entry.status = 'approved';
+    entry.reviewedBy = user.id;
+    entry.reviewedAt = new Date();
+    entry.reviewNote = null;
+
+    this.logger.log(`✅ Knowledge base entry ${entry.id} approved by ${user.email}`);
+    return this.entryRepository.save(entry);
+  }
+
+  /**
+   * Reject an entry, removing it from the knowledge base if it was approved before
+   */
+  async rejectEntry(entryId: string, user: User, note?: string): Promise<KnowledgeEntryEntity> {
+    const entry = await this.getReviewableEntry(entryId, user);
+
+    if (entry.vectorDocumentId) {
+      await this.vectorService.deleteDocumentsByDocId(entry.vectorDocumentId);
+      entry.vectorDocumentId = null;
+    }
+
+    entry.status = 'rejected';
+    entry.reviewedBy = user.id;
+    entry.reviewedAt = new Date();
+    entry.reviewNote = note || null;
+
+    this.logger.log(`🚫 Knowledge base entry ${entry.id} rejected by ${user.email}`);
+    return this.entryRepository.save(entry);
+  }
+
+  /**
+   * Write the entry to the vector store as a Q&A chunk in its author's tenant scope
+   */
+  private async publish(entry: KnowledgeEntryEntity): Promise<void> {
+    if (entry.vectorDocumentId) {
+      await this.vectorService.deleteDocumentsByDocId(entry.vectorDocumentId);
+    }
+
+    const documentId = `ai-qa-${entry.id}`;
+    const content = `Question: ${entry.question}\n\nAnswer: ${entry.answer}`;
+    const embedding = await this.aiService.generateEmbedding(content);
+
+    await this.vectorService.addDocuments(
+      [
+        {
+          id: documentId,
+          content,
+          metadata: {
+            documentId,
+            fileName: 'AI Generated Q&A',
+            chunkIndex: 0,
+            totalChunks: 1,
+            source: 'ai_generated',
+            type: 'qa_pair',
+            reviewStatus: 'approved',
+            kbEntryId: entry.id,
+            question: entry.question,
+            answer: entry.answer,
+            userId: entry.userId,
+            scope: getTenantScope(entry),
+            createdAt: entry.createdAt.toISOString(),
+          },
+        },
+      ],
+      [embedding],
+    );
+
+    entry.vectorDocumentId = documentId;
+  }
+
+  /**
+   * Move AI-generated Q&A written to the vector store before answers were reviewed into the
+   * review queue of their author's organization, and delete the chunks. Safe to rerun: chunks
+   * already queued by an interrupted run are not queued twice.
+   */
+  private async queueUnreviewedChunks(): Promise<{ queued: number }> {
+    const chunks = (await this.vectorService.getChunks({ sources: ['ai_generated'] })).filter(
+      (chunk) => chunk.metadata?.reviewStatus !== 'approved',
+    );
+    const authors = new Map<string, UserEntity | null>();
+    let queued = 0;
+
+    for (const { metadata } of chunks) {
+      const { question, answer, userId } = metadata;
+
+      if (question && answer && userId) {
+        const existing = await this.entryRepository.findOne({
+          where: { question, answer, userId },
+          select: ['id'],
+        });
+
+        if (!existing) {
+          if (!authors.has(userId)) {
+            authors.set(
+              userId,
+              await this.userRepository.findOne({
+                where: { id: userId },
+                select: ['id', 'organizationId', 'franchiseId'],
+              }),
+            );
+          }
+          const author = authors.get(userId);
+
+          await this.entryRepository.save(
+            this.entryRepository.create({
+              question,
+              answer,
+              userId,
+              organizationId: author?.organizationId || null,
+              franchiseId: author?.franchiseId || null,
+            }),
+          );
+          queued++;
+        }
+      }
+      await this.vectorService.deleteDocumentsByDocId(metadata.documentId);
+    }
+
+    if (chunks.length > 0) {
+      this.logger.log(`📝 Queued ${queued} unreviewed AI-generated chunks for review`);
+    }
+    return { queued };
+  }
+
+  private applyEdits(entry: KnowledgeEntryEntity, dto: UpdateKnowledgeEntryDto): void {
+    if (dto.question) {
+      entry.question = dto.question;
+    }
+    if (dto.answer) {
+      entry.answer = dto.answer;
+    }
+  }
+
+  private async getReviewableEntry(entryId: string, user: User): Promise<KnowledgeEntryEntity> {
+    const entry = await this.entryRepository.findOne({ where: { id: entryId } });
+
+    if (
+      !entry ||
+      (user.role !== UserRole.PLATFORM_ADMIN && entry.organizationId !== user.organizationId)
+    ) {
+      throw new NotFoundException('Knowledge base entry not found');
+    }
+    if (user.role !== UserRole.PLATFORM_ADMIN) {
+      this.assertReviewer(user);
+    }
+
+    return entry;
+  }
+
+  private assertReviewer(user: User): void {
+    if (user.role !== UserRole.FRANCHISOR || !user.organizationId || user.franchiseId) {
+      throw new ForbiddenException('Only the franchisor HQ can review knowledge base entries');
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import OpenAI from 'openai';
+import { OpenAIService } from './openai.service';
+
+/**
+ * Provider for self-hosted servers exposing the OpenAI HTTP API (Ollama, vLLM, LM Studio, ...)
+ * Reuses the OpenAI client pointed at a different base URL.
+ */
+@Injectable()
+export class OpenAICompatibleService extends OpenAIService {
+  readonly name: string = 'openai-compatible';
+  private baseUrl: string;
+
+  protected loadConfig() {
+    this.baseUrl = this.configService.get<string>('openaiCompatible.baseUrl');
+    this.apiKey = this.configService.get<string>('openaiCompatible.apiKey');
+    this.modelName = this.configService.get<string>('openaiCompatible.model');
+    this.embeddingModelName = this.configService.get<string>('openaiCompatible.embeddingModel');
+    this.visionModelName =
+      this.configService.get<string>('openaiCompatible.visionModel') || this.modelName;
+  }
+
+  protected createClient(): OpenAI | null {
+    if (!this.baseUrl) {
+      this.logger.warn('OPENAI_COMPATIBLE_BASE_URL is not configured - provider disabled');
+      return null;
+    }
+
+    this.logger.log(`Using OpenAI-compatible server at: ${this.baseUrl}`);
+    return new OpenAI({
+      baseURL: this.baseUrl,
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: this.apiKey || 'not-needed',
+    });
+  }
+
+  /**
+   * Model availability is decided by the server, so accept any model name
+   */
+  supportsModel(): boolean {
+    return true;
+  }
+}
@@ -2,30 +2,48 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import { ChatMessage, ChatOptions, LLMProvider } from '../interfaces/llm-provider.interface';
+import { OpenAIModel } from '../dto/ask-question.dto';
 
-export interface ChatOptions {
-  temperature?: number;
-  maxTokens?: number;
-  topK?: number;
-  topP?: number;
-}
+// Re-export types for convenience
+export { ChatMessage, ChatOptions };
 
 @Injectable()
-export class OpenAIService implements OnModuleInit {
-  private readonly logger = new Logger(OpenAIService.name);
-  private openai: OpenAI;
-  private apiKey: string;
-  private modelName: string;
-  private embeddingModelName: string;
-
-  constructor(private configService: ConfigService) {
+export class OpenAIService implements LLMProvider, OnModuleInit {
+  readonly name: string = 'openai';
+  protected readonly logger = new Logger(this.constructor.name);
+  protected openai: OpenAI;
+  protected apiKey: string;
+  protected modelName: string;
+  protected embeddingModelName: string;
+  protected visionModelName: string;
+
+  constructor(protected configService: ConfigService) {
+    this.loadConfig();
+  }
+
+  /**
+   * Read provider settings (overridden by OpenAI-compatible providers)
+   */
+  protected loadConfig() {
     this.apiKey = this.configService.get<string>('openai.apiKey');
     this.modelName = this.configService.get<string>('openai.model');
     this.embeddingModelName = this.configService.get<string>('openai.embeddingModel');
+    this.visionModelName = 'gpt-4o-mini';
+  }
+
+  /**
+   * Create the API client (overridden by OpenAI-compatible providers)
+   */
+  protected createClient(): OpenAI | null {
+    if (!this.apiKey) {
+      this.logger.warn('OPENAI_API_KEY is not configured - OpenAI provider disabled');
+      return null;
+    }
+
+    return new OpenAI({
+      apiKey: this.apiKey,
+    });
   }
 
   onModuleInit() {
@@ -34,30 +52,42 @@ export class OpenAIService implements OnModuleInit {
 
   private initialize() {
     try {
-      if (!this.apiKey) {
-        throw new Error('OPENAI_API_KEY is not configured');
+      this.logger.log(`Initializing ${this.name} provider...`);
+      this.openai = this.createClient();
+      if (!this.openai) {
+        return;
       }
 
-      this.logger.log('Initializing OpenAI...');
-      this.openai = new OpenAI({
-        apiKey: this.apiKey,
-      });
-
-      this.logger.log(`OpenAI initialized with model: ${this.modelName}`);
+      this.logger.log(`${this.name} initialized with model: ${this.modelName}`);
       this.logger.log(`Embedding model: ${this.embeddingModelName}`);
     } catch (error) {
-      this.logger.error('Failed to initialize OpenAI', error.stack);
+      this.logger.error(`Failed to initialize ${this.name}`, error.stack);
       throw error;
     }
   }
 
+  getDefaultModel(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Only the chat models we have validated against the OpenAI API
+   */
+  supportsModel(model: string): boolean {
+    return (Object.values(OpenAIModel) as string[]).includes(model);
+  }
+
+  getDefaultEmbeddingModel(): string {
+    return this.embeddingModelName;
+  }
+
   /**
    * Generate embeddings for a single text
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, modelOverride?: string): Promise<number[]> {
     try {
       const response = await this.openai.embeddings.create({
-        model: this.embeddingModelName,
+        model: modelOverride || this.embeddingModelName,
         input: text,
       });
       return response.data[0].embedding;
@@ -70,7 +100,7 @@ export class OpenAIService implements OnModuleInit {
   /**
    * Generate embeddings for multiple texts in batch
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], modelOverride?: string): Promise<number[][]> {
     try {
       this.logger.log(`Generating embeddings for ${texts.length} texts...`);
 
@@ -83,7 +113,7 @@ export class OpenAIService implements OnModuleInit {
         const batch = texts.slice(i, i + batchSize);
         
         const response = await this.openai.embeddings.create({
-          model: this.embeddingModelName,
+          model: modelOverride || this.embeddingModelName,
           input: batch,
         });
 
@@ -118,36 +148,7 @@ export class OpenAIService implements OnModuleInit {
       const temperature = options?.temperature ?? this.configService.get<number>('chat.temperature');
       const maxTokens = options?.maxTokens ?? this.configService.get<number>('chat.maxTokens');
 
-      // Build messages array
-      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-      // Add system message with context
-      let systemMessage = 'You are a helpful AI assistant.';
-      if (context) {
-        systemMessage += `\n\nContext information:\n${context}`;
-      }
-      systemMessage += '\n\nPlease provide a helpful and accurate answer based on the context provided. If the context doesn\'t contain enough information to answer the question, please say so clearly.';
-
-      messages.push({
-        role: 'system',
-        content: systemMessage,
-      });
-
-      // Add conversation history
-      if (history && history.length > 0) {
-        history.forEach((msg) => {
-          messages.push({
-            role: msg.role === 'user' ? 'user' : 'assistant',
-            content: msg.content,
-          });
-        });
-      }
-
-      // Add current user message
-      messages.push({
-        role: 'user',
-        content: message,
-      });
+      const messages = this.buildChatMessages(message, context, history);
 
       const modelToUse = modelOverride || this.modelName;
       this.logger.log(`Using model: ${modelToUse}`);
@@ -169,6 +170,101 @@ export class OpenAIService implements OnModuleInit {
     }
   }
 
+  /**
+   * Generate chat completion with context, yielding content deltas as they arrive.
+   * Aborting the signal cancels the upstream request.
+   */
+  async *chatStream(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+    options?: ChatOptions,
+    modelOverride?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    const temperature = options?.temperature ?? this.configService.get<number>('chat.temperature');
+    const maxTokens = options?.maxTokens ?? this.configService.get<number>('chat.maxTokens');
+
+    const messages = this.buildChatMessages(message, context, history);
+
+    const modelToUse = modelOverride || this.modelName;
+    this.logger.log(`Streaming with model: ${modelToUse}`);
+
+    try {
+      const stream = await this.openai.chat.completions.create(
+        {
+          model: modelToUse,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+        },
+        { signal },
+      );
+
+      let length = 0;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          length += delta.length;
+          yield delta;
+        }
+      }
+
+      this.logger.log(`Streamed chat response (${length} chars) using ${modelToUse}`);
+    } catch (error) {
+      if (signal?.aborted) {
+        this.logger.warn(`Chat stream aborted (model: ${modelToUse})`);
+      } else {
+        this.logger.error('Failed to stream chat response', error.stack);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the messages array: system prompt with context, history, then the user message
+   */
+  private buildChatMessages(
+    message: string,
+    context?: string,
+    history?: ChatMessage[],
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    // Add system message with context
+    let systemMessage = 'You are a helpful AI assistant.';
+    if (context) {
+      systemMessage += `\n\nContext information:\n${context}`;
+      systemMessage +=
+        '\n\nEach context passage is labelled with a number like [1]. When a sentence in your answer uses information from a passage, end that sentence with its marker, e.g. [1] or [1][3]. Only cite numbers that appear in the context.';
+    }
+    systemMessage += '\n\nPlease provide a helpful and accurate answer based on the context provided. If the context doesn\'t contain enough information to answer the question, please say so clearly.';
+
+    messages.push({
+      role: 'system',
+      content: systemMessage,
+    });
+
+    // Add conversation history
+    if (history && history.length > 0) {
+      history.forEach((msg) => {
+        messages.push({
+          role: msg.role === 'user' ? 'user' : 'assistant',
+          content: msg.content,
+        });
+      });
+    }
+
+    // Add current user message
+    messages.push({
+      role: 'user',
+      content: message,
+    });
+
+    return messages;
+  }
+
   /**
    * Generate a simple completion without context
    */
@@ -222,11 +318,11 @@ export class OpenAIService implements OnModuleInit {
    * Check if the service is properly configured
    */
   isConfigured(): boolean {
-    return !!this.apiKey && !!this.openai;
+    return !!this.openai;
   }
 
   /**
-   * Analyze image with OpenAI Vision (GPT-4 Vision)
+   * Analyze image with OpenAI Vision (GPT-4 Vision) or a compatible vision model
    */
   async analyzeImage(
     imageBuffer: Buffer,
@@ -235,7 +331,7 @@ export class OpenAIService implements OnModuleInit {
     modelOverride?: string,
   ): Promise<string> {
     try {
-      const modelToUse = modelOverride || 'gpt-4o-mini'; // Use vision model
+      const modelToUse = modelOverride || this.visionModelName;
       this.logger.log(`Analyzing image with model: ${modelToUse}`);
 
       // Convert buffer to base64
@@ -0,0 +1,161 @@
+import { Test } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import configuration from '../../../config/configuration';
+import { QACache } from '../entities/qa-cache.entity';
+import { OrganizationEntity } from '../../../entities/organization.entity';
+import { User } from '../../../common/interfaces/user.interface';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { InMemoryRepository } from '../../../common/testing/in-memory-repository';
+import { AIService } from './ai.service';
+import { FakeLLMService } from './fake-llm.service';
+import { OpenAIService } from './openai.service';
+import { OpenAICompatibleService } from './openai-compatible.service';
+import { CacheKey, QACacheService } from './qa-cache.service';
+import { VectorService } from '../../vector/vector.service';
+import { InMemoryVectorStore } from '../../vector/stores/in-memory-vector.store';
+import { ChromaVectorStore } from '../../vector/stores/chroma-vector.store';
+import { PgVectorStore } from '../../vector/stores/pgvector.store';
+
+describe('QACacheService', () => {
+  let repository: InMemoryRepository<QACache>;
+  let service: QACacheService;
+
+  const staff: User = {
+    id: 'staff',
+    email: 'staff@example.com',
+    username: 'staff',
+    role: UserRole.FRANCHISE_STAFF,
+    organizationId: 'org-1',
+    franchiseId: 'fr-1',
+    createdAt: new Date(),
+  };
+  const colleague: User = { ...staff, id: 'colleague', email: 'colleague@example.com' };
+  const otherOutlet: User = { ...staff, id: 'other', franchiseId: 'fr-2' };
+
+  const question = 'How do I clean the fryer?';
+  const key: CacheKey = { question, model: 'fake-model', defaultModel: true };
+
+  beforeEach(async () => {
+    process.env.AI_PROVIDER = 'fake';
+    process.env.VECTOR_PROVIDER = 'memory';
+    repository = new InMemoryRepository<QACache>({
+      status: 'active',
+      authoritative: false,
+      filterKey: null,
+      model: null,
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [ConfigModule.forRoot({ load: [configuration], ignoreEnvFile: true })],
+      providers: [
+        QACacheService,
+        AIService,
+        FakeLLMService,
+        { provide: OpenAIService, useValue: { name: 'openai' } },
+        { provide: OpenAICompatibleService, useValue: { name: 'openai-compatible' } },
+        VectorService,
+        InMemoryVectorStore,
+        { provide: ChromaVectorStore, useValue: { name: 'chroma' } },
+        { provide: PgVectorStore, useValue: { name: 'pgvector' } },
+        { provide: getRepositoryToken(QACache), useValue: repository },
+        { provide: getRepositoryToken(OrganizationEntity), useValue: new InMemoryRepository() },
+      ],
+    }).compile();
+
+    await moduleRef.get(VectorService).onModuleInit();
+    service = moduleRef.get(QACacheService);
+  });
+
+  it('serves an answer to the same question asked differently within the tenant scope', async () => {
+    await service.saveToCache(staff, key, 'Drain the oil first.', 'document_rag');
+
+    const result = await service.searchCache(
+      { ...key, question: '  how do i clean the FRYER ' },
+      colleague,
+    );
+
+    expect(result.found).toBe(true);
+    expect(result.similarity).toBe(1);
+    expect(result.response.answer).toBe('Drain the oil first.');
+  });
+
+  it('matches similar questions through the cache collection', async () => {
+    await service.saveToCache(staff, key, 'Drain the oil first.', 'document_rag');
+
+    const result = await service.searchCache(
+      { ...key, question: 'How do I clean the fryer properly?' },
+      staff,
+    );
+
+    expect(result.found).toBe(true);
+    expect(result.similarity).toBeLessThan(1);
+  });
+
+  it('does not share answers outside the tenant scope or when saved privately', async () => {
+    await service.saveToCache(staff, key, 'Outlet answer', 'document_rag');
+    expect((await service.searchCache(key, otherOutlet)).found).toBe(false);
+
+    await service.saveToCache(otherOutlet, key, 'Private answer', 'ai_generated', [], [], true);
+    const result = await service.searchCache(key, colleague);
+    expect(result.response.answer).toBe('Outlet answer');
+  });
+
+  it('keys answers on the model', async () => {
+    await service.saveToCache(staff, key, 'Drain the oil first.', 'document_rag');
+
+    const result = await service.searchCache(
+      { ...key, model: 'other-model', defaultModel: false },
+      staff,
+    );
+
+    expect(result.found).toBe(false);
+  });
+
+  it('keys answers on the retrieval filter, regardless of document order', async () => {
+    const filtered = { ...key, documentIds: ['doc-1', 'doc-2'] };
+    await service.saveToCache(staff, filtered, 'From two documents', 'document_rag');
+
+    expect((await service.searchCache(key, staff)).found).toBe(false);
+    expect((await service.searchCache({ ...key, documentIds: ['doc-1'] }, staff)).found).toBe(
+      false,
+    );
+    expect((await service.searchCache({ ...key, folderId: 'folder-1' }, staff)).found).toBe(false);
+
+    const result = await service.searchCache({ ...key, documentIds: ['doc-2', 'doc-1'] }, staff);
+    expect(result.response.answer).toBe('From two documents');
+  });
+
+  it('only serves entries without a model to unfiltered requests for the default model', async () => {
+    await repository.save(
+      repository.create({
+        userId: staff.id,
+        scope: 'franchise:fr-1',
+        question,
+        questionHash: service['hashQuestion'](question),
+        answer: 'Legacy answer',
+        source: 'ai_generated',
+        usageCount: 1,
+      }),
+    );
+
+    expect((await service.searchCache(key, staff)).found).toBe(true);
+    expect((await service.searchCache({ ...key, defaultModel: false }, staff)).found).toBe(false);
+    expect((await service.searchCache({ ...key, folderId: 'folder-1' }, staff)).found).toBe(false);
+  });
+
+  it('promotes a corrected answer under the key of the answer it replaces', async () => {
+    const filtered = { ...key, model: 'other-model', defaultModel: false, folderId: 'folder-1' };
+
+    await service.promoteAnswer({
+      key: filtered,
+      answer: 'Curated answer',
+      scope: 'franchise:fr-1',
+      userId: staff.id,
+    });
+
+    const result = await service.searchCache(filtered, staff);
+    expect(result.response).toMatchObject({ answer: 'Curated answer', authoritative: true });
+    expect((await service.searchCache(key, staff)).found).toBe(false);
+  });
+});
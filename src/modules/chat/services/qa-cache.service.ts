@@ -1,8 +1,22 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, FindOptionsWhere, In, IsNull, LessThan, Not, Repository } from 'typeorm';
+import { createHash } from 'crypto';
 import { QACache } from '../entities/qa-cache.entity';
+import { OrganizationEntity } from '../../../entities/organization.entity';
 import { AIService } from './ai.service';
+import { VectorService } from '../../vector/vector.service';
+import { User } from '../../../common/interfaces/user.interface';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { getReadableScopes, getUserScope } from '../../../common/utils/tenant-scope';
 
 export interface CachedResponse {
   id: string;
@@ -13,6 +27,7 @@ export interface CachedResponse {
   usageCount: number;
   lastUsedAt: Date;
   documentSources?: string[];
+  authoritative?: boolean;
 }
 
 export interface CacheSearchResult {
@@ -21,81 +36,142 @@ export interface CacheSearchResult {
   similarity?: number;
 }
 
+// A cached answer is only reused for the same question, model and retrieval filter
+export interface CacheKey {
+  question: string; // Standalone question (follow-ups are condensed with the conversation)
+  model: string;
+  defaultModel?: boolean; // The request did not choose a model
+  folderId?: string;
+  documentIds?: string[];
+}
+
+const CACHE_COLLECTION_SUFFIX = '_qa_cache';
+const SEMANTIC_CANDIDATES = 10; // Nearest cached questions checked per lookup
+const INDEX_BATCH_SIZE = 100;
+
+/**
+ * Q&A Cache Service
+ * Entries live in Postgres; their question embeddings are indexed in a vector collection next to
+ * the active one (see getCollectionName), so lookups do not scan the table.
+ */
 @Injectable()
-export class QACacheService {
+export class QACacheService implements OnApplicationBootstrap, OnApplicationShutdown {
   private readonly logger = new Logger(QACacheService.name);
-  private readonly SIMILARITY_THRESHOLD = 0.85; // 85% similarity to use cache
+  private sweepTimer: NodeJS.Timeout;
 
   constructor(
     @InjectRepository(QACache)
     private qaCacheRepository: Repository<QACache>,
+    @InjectRepository(OrganizationEntity)
+    private organizationRepository: Repository<OrganizationEntity>,
     private aiService: AIService,
+    private vectorService: VectorService,
+    private configService: ConfigService,
   ) {}
 
+  /**
+   * Index entries cached before lookups used the vector store, and periodically remove entries
+   * unused for chat.cacheTtlDays
+   */
+  onApplicationBootstrap() {
+    this.indexLegacyEntries().catch((error) =>
+      this.logger.error(`Indexing legacy cache entries failed: ${error.message}`),
+    );
+
+    if (!this.configService.get<boolean>('chat.cacheSweepEnabled')) {
+      return;
+    }
+
+    const ttlDays = this.configService.get<number>('chat.cacheTtlDays');
+    const intervalMinutes = this.configService.get<number>('chat.cacheSweepIntervalMinutes');
+
+    this.sweepTimer = setInterval(
+      () =>
+        this.clearOldCache(ttlDays).catch((error) =>
+          this.logger.error(`Cache sweep failed: ${error.message}`),
+        ),
+      intervalMinutes * 60 * 1000,
+    );
+    this.logger.log(`🧹 Cache sweep every ${intervalMinutes} min (TTL: ${ttlDays} days)`);
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.sweepTimer);
+  }
+
   /**
    * Search for similar question in cache
+   * Answers are shared within a tenant scope (e.g. every member of a franchise). An identical
+   * (normalized) question is answered without an embedding call; otherwise the question is
+   * matched against the cache vector collection.
    */
-  async searchCache(
-    question: string,
-    userId: string,
-  ): Promise<CacheSearchResult> {
+  async searchCache(key: CacheKey, user: User): Promise<CacheSearchResult> {
+    const { question } = key;
+
     try {
       this.logger.log(`🔍 Searching cache for: "${question.substring(0, 50)}..."`);
 
+      const questionHash = this.hashQuestion(question);
+      const [exactMatch] = await this.qaCacheRepository.find({
+        where: this.matchingWhere(user, key).map((where) => ({ ...where, questionHash })),
+        order: { authoritative: 'DESC', lastUsedAt: 'DESC' },
+        take: 1,
+      });
+
+      if (exactMatch) {
+        return this.cacheHit(exactMatch, 1);
+      }
+
       // Get question embedding
       const questionEmbedding = await this.aiService.generateEmbedding(question);
+      const results = await this.vectorService.search(
+        questionEmbedding,
+        SEMANTIC_CANDIDATES,
+        { access: { userIds: [user.id], scopes: getReadableScopes(user) } },
+        this.getCollectionName(),
+      );
 
-      // Get all cached Q&A for this user (could optimize with pagination)
-      const cachedItems = await this.qaCacheRepository.find({
-        where: { userId },
-        order: { lastUsedAt: 'DESC' },
-        take: 100, // Limit for performance
-      });
+      // Scores are 1 - squared L2 distance: (score + 1) / 2 is the cosine similarity of the
+      // (unit-length) embeddings
+      const similarities = new Map(results.map((result) => [result.id, (result.score + 1) / 2]));
 
-      if (cachedItems.length === 0) {
-        this.logger.log('❌ Cache empty');
+      // The index is a prefilter: status and access are checked on the entries themselves
+      const candidates =
+        similarities.size > 0
+          ? await this.qaCacheRepository.find({
+              where: this.matchingWhere(user, key).map((where) => ({
+                ...where,
+                id: In([...similarities.keys()]),
+              })),
+            })
+          : [];
+
+      if (candidates.length === 0) {
+        this.logger.log('❌ Cache MISS - no similar questions');
         return { found: false };
       }
 
-      // Find most similar question
+      const threshold = await this.getSimilarityThreshold(user);
+
+      // Find most similar question; authoritative answers above the threshold win
       let bestMatch: QACache | null = null;
       let highestSimilarity = 0;
+      let bestRank = 0;
 
-      for (const item of cachedItems) {
-        if (!item.embedding) continue;
+      for (const item of candidates) {
+        const similarity = similarities.get(item.id);
+        const rank = item.authoritative && similarity >= threshold ? 1 + similarity : similarity;
 
-        const cachedEmbedding = JSON.parse(item.embedding);
-        const similarity = this.cosineSimilarity(questionEmbedding, cachedEmbedding);
-
-        if (similarity > highestSimilarity) {
+        if (rank > bestRank) {
+          bestRank = rank;
           highestSimilarity = similarity;
           bestMatch = item;
         }
       }
 
       // Check if similarity is above threshold
-      if (bestMatch && highestSimilarity >= this.SIMILARITY_THRESHOLD) {
-        this.logger.log(
-          `✅ Cache HIT! Similarity: ${(highestSimilarity * 100).toFixed(2)}% - "${bestMatch.question.substring(0, 50)}..."`,
-        );
-
-        // Update usage stats
-        await this.updateUsageStats(bestMatch.id);
-
-        return {
-          found: true,
-          similarity: highestSimilarity,
-          response: {
-            id: bestMatch.id,
-            question: bestMatch.question,
-            answer: bestMatch.answer,
-            source: 'cached',
-            similarity: highestSimilarity,
-            usageCount: bestMatch.usageCount + 1,
-            lastUsedAt: new Date(),
-            documentSources: bestMatch.documentSources,
-          },
-        };
+      if (bestMatch && highestSimilarity >= threshold) {
+        return this.cacheHit(bestMatch, highestSimilarity);
       }
 
       this.logger.log(
@@ -108,46 +184,289 @@ export class QACacheService {
     }
   }
 
+  private async cacheHit(entry: QACache, similarity: number): Promise<CacheSearchResult> {
+    this.logger.log(
+      `✅ Cache HIT! Similarity: ${(similarity * 100).toFixed(2)}% - "${entry.question.substring(0, 50)}..."`,
+    );
+
+    // Update usage stats
+    await this.updateUsageStats(entry.id);
+
+    return {
+      found: true,
+      similarity,
+      response: {
+        id: entry.id,
+        question: entry.question,
+        answer: entry.answer,
+        source: 'cached',
+        similarity,
+        usageCount: entry.usageCount + 1,
+        lastUsedAt: new Date(),
+        documentSources: entry.documentSources,
+        authoritative: entry.authoritative,
+      },
+    };
+  }
+
   /**
-   * Save new Q&A to cache
+   * Minimum similarity for a hit: the organization's own threshold, else chat.cacheSimilarityThreshold
+   */
+  private async getSimilarityThreshold(user: User): Promise<number> {
+    const defaultThreshold = this.configService.get<number>('chat.cacheSimilarityThreshold');
+    if (!user.organizationId) {
+      return defaultThreshold;
+    }
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: user.organizationId },
+      select: ['id', 'cacheSimilarityThreshold'],
+    });
+    return organization?.cacheSimilarityThreshold ?? defaultThreshold;
+  }
+
+  /**
+   * Active entries the user can read (their own and those of their readable tenant scopes) for
+   * the key's model and retrieval filter. Entries cached without a model (before answers were
+   * keyed) only match requests that choose neither a model nor a retrieval filter.
+   */
+  private matchingWhere(user: User, key: CacheKey): FindOptionsWhere<QACache>[] {
+    const filterKey = this.getFilterKey(key);
+    const models = key.defaultModel && !filterKey ? [key.model, IsNull()] : [key.model];
+
+    return [
+      { userId: user.id, status: 'active' as const },
+      { scope: In(getReadableScopes(user)), status: 'active' as const },
+    ].flatMap((where) =>
+      models.map((model) => ({ ...where, filterKey: filterKey ?? IsNull(), model })),
+    );
+  }
+
+  /**
+   * Hash of the retrieval filter (null when the whole knowledge base is searched)
+   */
+  private getFilterKey(key: CacheKey): string | null {
+    if (!key.folderId && !key.documentIds?.length) {
+      return null;
+    }
+
+    const filter = JSON.stringify({
+      folderId: key.folderId || null,
+      documentIds: [...(key.documentIds || [])].sort(),
+    });
+    return createHash('sha256').update(filter).digest('hex');
+  }
+
+  /**
+   * Save new Q&A to cache; returns the entry ID (null if saving failed)
    */
   async saveToCache(
-    userId: string,
-    question: string,
+    user: User,
+    key: CacheKey,
     answer: string,
     source: string,
-    model: string,
     documentSources?: string[],
-  ): Promise<void> {
+    documentIds?: string[],
+    privateEntry = false, // Not shared with the user's tenant scope
+  ): Promise<string | null> {
+    const { question, model } = key;
+
     try {
       this.logger.log(`💾 Saving to cache: "${question.substring(0, 50)}..."`);
 
-      // Generate embedding for question
-      const embedding = await this.aiService.generateEmbedding(question);
-
       const cacheEntry = this.qaCacheRepository.create({
-        userId,
+        userId: user.id,
+        scope: privateEntry ? null : getUserScope(user),
         question,
+        questionHash: this.hashQuestion(question),
+        filterKey: this.getFilterKey(key),
         answer,
         source,
         model,
         documentSources,
-        embedding: JSON.stringify(embedding),
+        documentIds,
         usageCount: 1,
         lastUsedAt: new Date(),
       });
 
       await this.qaCacheRepository.save(cacheEntry);
+      await this.indexEntries([cacheEntry]);
       this.logger.log('✅ Saved to cache successfully');
+      return cacheEntry.id;
     } catch (error) {
       this.logger.error(`❌ Error saving to cache: ${error.message}`);
       if (error.stack) {
         this.logger.error(error.stack);
       }
       // Don't throw - cache failure shouldn't break the chat flow
+      return null;
+    }
+  }
+
+  /**
+   * Mark entries whose answers were built from these documents as stale (no longer served),
+   * e.g. after a document is deleted or re-indexed. Returns the number of entries affected.
+   */
+  async invalidateByDocuments(documentIds: string[]): Promise<number> {
+    if (documentIds.length === 0) {
+      return 0;
+    }
+
+    // simple-array columns are comma-separated text; document IDs are UUIDs, so LIKE is exact
+    const entries = await this.qaCacheRepository
+      .createQueryBuilder('cache')
+      .select('cache.id')
+      .where('cache.status = :status', { status: 'active' })
+      .andWhere(
+        new Brackets((qb) =>
+          documentIds.forEach((documentId, i) =>
+            qb.orWhere(`cache.documentIds LIKE :document${i}`, {
+              [`document${i}`]: `%${documentId}%`,
+            }),
+          ),
+        ),
+      )
+      .getMany();
+
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    await this.qaCacheRepository.update(
+      { id: In(entries.map((entry) => entry.id)) },
+      { status: 'stale' },
+    );
+    this.logger.log(`♻️ Invalidated ${entries.length} cache entries for changed documents`);
+    return entries.length;
+  }
+
+  /**
+   * Delete one entry (its owner or a platform admin)
+   */
+  async deleteEntry(cacheId: string, user: User): Promise<void> {
+    const entry = await this.qaCacheRepository.findOne({
+      where: { id: cacheId },
+      select: ['id', 'userId'],
+    });
+
+    if (!entry || (entry.userId !== user.id && user.role !== UserRole.PLATFORM_ADMIN)) {
+      throw new NotFoundException('Cache entry not found');
+    }
+
+    await this.qaCacheRepository.delete(cacheId);
+    await this.removeFromIndex([cacheId]);
+  }
+
+  /**
+   * Delete the user's entries (every entry for platform admins). Returns the number deleted.
+   */
+  async clearCache(user: User): Promise<number> {
+    let deleted: number;
+
+    if (user.role === UserRole.PLATFORM_ADMIN) {
+      const result = await this.qaCacheRepository.createQueryBuilder().delete().execute();
+      deleted = result.affected || 0;
+      await this.vectorService
+        .deleteCollection(this.getCollectionName())
+        .catch((error) => this.logger.warn(`⚠️ Could not drop cache index: ${error.message}`));
+    } else {
+      const entries = await this.qaCacheRepository.find({
+        where: { userId: user.id },
+        select: ['id'],
+      });
+      const ids = entries.map((entry) => entry.id);
+
+      if (ids.length > 0) {
+        await this.qaCacheRepository.delete({ id: In(ids) });
+        await this.removeFromIndex(ids);
+      }
+      deleted = ids.length;
+    }
+
+    this.logger.log(`🗑️ Cleared ${deleted} cache entries for ${user.email}`);
+    return deleted;
+  }
+
+  /**
+   * Move a user's entries to their new tenant scope (e.g. after joining a franchise)
+   */
+  async moveUserEntries(userId: string, scope: string): Promise<void> {
+    await this.qaCacheRepository.update({ userId }, { scope });
+
+    // Index metadata carries the scope: re-index the entries still served
+    const entries = await this.qaCacheRepository.find({ where: { userId, status: 'active' } });
+    for (let i = 0; i < entries.length; i += INDEX_BATCH_SIZE) {
+      const batch = entries.slice(i, i + INDEX_BATCH_SIZE);
+      await this.removeFromIndex(batch.map((entry) => entry.id));
+      await this.indexEntries(batch);
     }
   }
 
+  /**
+   * Stop serving an entry after negative feedback. Authoritative entries stay active until an
+   * admin replaces them. Returns whether the entry was quarantined.
+   */
+  async quarantineEntry(cacheId: string): Promise<boolean> {
+    const result = await this.qaCacheRepository.update(
+      { id: cacheId, status: 'active', authoritative: false },
+      { status: 'quarantined' },
+    );
+
+    if (result.affected) {
+      this.logger.warn(`🚫 Quarantined cache entry ${cacheId} after negative feedback`);
+    }
+    return !!result.affected;
+  }
+
+  /**
+   * Store an admin-approved answer as authoritative, replacing the entry it corrects if it
+   * still exists
+   */
+  async promoteAnswer(params: {
+    cacheId?: string;
+    key?: CacheKey | null; // Key of the corrected answer; used if the entry no longer exists
+    answer: string;
+    scope: string | null;
+    userId: string;
+  }): Promise<QACache> {
+    const existing = params.cacheId
+      ? await this.qaCacheRepository.findOne({ where: { id: params.cacheId } })
+      : null;
+
+    if (!existing && !params.key) {
+      throw new BadRequestException('The cache key of this answer is unknown');
+    }
+
+    // The entry keeps the key (standalone question, model, filter) of the answer it corrects
+    const entry =
+      existing ||
+      this.qaCacheRepository.create({
+        userId: params.userId,
+        scope: params.scope,
+        question: params.key.question,
+        questionHash: this.hashQuestion(params.key.question),
+        model: params.key.model,
+        filterKey: this.getFilterKey(params.key),
+        usageCount: 0,
+        lastUsedAt: new Date(),
+      });
+
+    entry.answer = params.answer;
+    entry.source = 'curated';
+    entry.documentSources = null;
+    entry.status = 'active';
+    entry.authoritative = true;
+
+    const saved = await this.qaCacheRepository.save(entry);
+    if (!existing) {
+      await this.indexEntries([saved]);
+    }
+    this.logger.log(
+      `⭐ Promoted authoritative answer for: "${entry.question.substring(0, 50)}..."`,
+    );
+    return saved;
+  }
+
   /**
    * Update usage statistics
    */
@@ -163,23 +482,105 @@ export class QACacheService {
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Name of the vector collection holding question embeddings. It follows the active collection,
+   * so entries cached before an embedding-model switch are only found by exact match.
    */
-  private cosineSimilarity(vecA: number[], vecB: number[]): number {
-    if (vecA.length !== vecB.length) return 0;
+  private getCollectionName(): string {
+    return `${this.vectorService.getCollectionName()}${CACHE_COLLECTION_SUFFIX}`;
+  }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+  /**
+   * Questions differing only in case, spacing or trailing punctuation share a hash
+   */
+  private hashQuestion(question: string): string {
+    const normalized = question
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/[\s?!.]+$/, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
 
-    for (let i = 0; i < vecA.length; i++) {
-      dotProduct += vecA[i] * vecB[i];
-      normA += vecA[i] * vecA[i];
-      normB += vecB[i] * vecB[i];
+  /**
+   * Add question embeddings to the cache collection (computed unless given). Returns false if
+   * indexing failed: the entries then only get exact hits.
+   */
+  private async indexEntries(entries: QACache[], embeddings?: number[][]): Promise<boolean> {
+    try {
+      const vectors =
+        embeddings ||
+        (await this.aiService.generateEmbeddings(entries.map((entry) => entry.question)));
+
+      await this.vectorService.addDocuments(
+        entries.map((entry) => ({
+          id: entry.id,
+          content: entry.question,
+          metadata: {
+            documentId: entry.id,
+            fileName: 'qa-cache',
+            chunkIndex: 0,
+            totalChunks: 1,
+            source: 'qa_cache',
+            userId: entry.userId,
+            ...(entry.scope && { scope: entry.scope }),
+          },
+        })),
+        vectors,
+        this.getCollectionName(),
+      );
+      return true;
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not index ${entries.length} cache entries: ${error.message}`);
+      return false;
     }
+  }
 
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    return denominator === 0 ? 0 : dotProduct / denominator;
+  private async removeFromIndex(cacheIds: string[]): Promise<void> {
+    for (const cacheId of cacheIds) {
+      await this.vectorService.deleteDocumentsByDocId(cacheId, this.getCollectionName());
+    }
+  }
+
+  /**
+   * Hash the questions of entries cached before exact matching, and move embeddings stored in
+   * the table into the cache collection. Stops at the first indexing failure (e.g. no vector
+   * store) and resumes on the next start.
+   */
+  private async indexLegacyEntries(): Promise<void> {
+    let migrated = 0;
+
+    for (;;) {
+      const entries = await this.qaCacheRepository.find({
+        where: [{ questionHash: IsNull() }, { embedding: Not(IsNull()) }],
+        take: INDEX_BATCH_SIZE,
+      });
+      if (entries.length === 0) {
+        break;
+      }
+
+      const withEmbedding = entries.filter((entry) => entry.embedding);
+      if (
+        withEmbedding.length > 0 &&
+        !(await this.indexEntries(
+          withEmbedding,
+          withEmbedding.map((entry) => JSON.parse(entry.embedding)),
+        ))
+      ) {
+        break;
+      }
+
+      for (const entry of entries) {
+        await this.qaCacheRepository.update(entry.id, {
+          questionHash: this.hashQuestion(entry.question),
+          embedding: null,
+        });
+      }
+      migrated += entries.length;
+    }
+
+    if (migrated > 0) {
+      this.logger.log(`📇 Indexed ${migrated} legacy cache entries`);
+    }
   }
 
   /**
@@ -210,19 +611,24 @@ export class QACacheService {
   }
 
   /**
-   * Clear old cache entries
+   * Clear cache entries unused for daysOld days (authoritative answers are kept)
    */
   async clearOldCache(daysOld: number = 30): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysOld);
 
-    const result = await this.qaCacheRepository
-      .createQueryBuilder()
-      .delete()
-      .where('lastUsedAt < :cutoffDate', { cutoffDate })
-      .execute();
+    const entries = await this.qaCacheRepository.find({
+      where: { lastUsedAt: LessThan(cutoffDate), authoritative: false },
+      select: ['id'],
+    });
+    const ids = entries.map((entry) => entry.id);
+
+    if (ids.length > 0) {
+      await this.qaCacheRepository.delete({ id: In(ids) });
+      await this.removeFromIndex(ids);
+    }
 
-    this.logger.log(`🗑️ Cleared ${result.affected} old cache entries`);
-    return result.affected || 0;
+    this.logger.log(`🗑️ Cleared ${ids.length} old cache entries`);
+    return ids.length;
   }
 }
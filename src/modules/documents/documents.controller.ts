@@ -3,6 +3,7 @@ import {
   Post,
   Get,
   Delete,
+  Patch,
   Param,
   UseGuards,
   UseInterceptors,
@@ -12,23 +13,51 @@ import {
   HttpCode,
   Logger,
   Body,
+  Query,
+  Res,
+  Headers,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
-import { DocumentsService } from './documents.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiQuery,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { DocumentsService, DuplicateStrategy } from './documents.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ApiKeyScope } from '../../common/decorators/api-key-scope.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { User } from '../../common/interfaces/user.interface';
+import { GetDocumentContentDto } from './dto/get-document-content.dto';
+import { UpdateDocumentMetadataDto } from './dto/update-document-metadata.dto';
+import { StartEmbeddingMigrationDto } from './dto/start-embedding-migration.dto';
+import { DocumentDownloadService } from './services/document-download.service';
 
 @ApiTags('documents')
 @Controller('documents')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class DocumentsController {
   private readonly logger = new Logger(DocumentsController.name);
   
-  constructor(private readonly documentsService: DocumentsService) { }
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly downloadService: DocumentDownloadService,
+  ) {}
 
   @Post('upload')
+  @ApiKeyScope('documents:write')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ summary: 'Upload a single document' })
   @ApiConsumes('multipart/form-data')
@@ -44,6 +73,14 @@ export class DocumentsController {
           type: 'string',
           description: 'Optional folder ID to upload document to',
         },
+        onDuplicate: {
+          type: 'string',
+          enum: ['skip', 'replace', 'keep'],
+          default: 'skip',
+          description:
+            'When the same file content was already uploaded: skip (return the existing document), ' +
+            'replace (delete the existing copies) or keep (upload anyway)',
+        },
       },
     },
   })
@@ -52,18 +89,30 @@ export class DocumentsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async uploadDocument(
     @UploadedFile() file: Express.Multer.File,
-    @Body('folderId') folderId?: string,
-    @CurrentUser('id') userId?: string,
+    @Body('folderId') folderId: string | undefined,
+    @CurrentUser() user: User,
+    @Body('onDuplicate') onDuplicate?: DuplicateStrategy,
   ) {
-    const document = await this.documentsService.uploadDocument(file, folderId, userId);
+    const { document, duplicate } = await this.documentsService.uploadDocument(
+      file,
+      folderId,
+      user,
+      onDuplicate,
+    );
     return {
       statusCode: HttpStatus.CREATED,
-      message: 'Document uploaded successfully. Processing in background.',
+      message:
+        duplicate?.action === 'skipped'
+          ? 'Document already uploaded - returning the existing document.'
+          : 'Document uploaded successfully. Processing in background.',
       data: document,
+      duplicate,
     };
   }
 
   @Post('upload/multiple')
+  @ApiKeyScope('documents:write')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @UseInterceptors(FilesInterceptor('files', 10))
   @ApiOperation({ summary: 'Upload multiple documents' })
   @ApiConsumes('multipart/form-data')
@@ -82,6 +131,14 @@ export class DocumentsController {
           type: 'string',
           description: 'Optional folder ID to upload documents to',
         },
+        onDuplicate: {
+          type: 'string',
+          enum: ['skip', 'replace', 'keep'],
+          default: 'skip',
+          description:
+            'When the same file content was already uploaded: skip (return the existing document), ' +
+            'replace (delete the existing copies) or keep (upload anyway)',
+        },
       },
     },
   })
@@ -90,23 +147,34 @@ export class DocumentsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async uploadMultipleDocuments(
     @UploadedFiles() files: Express.Multer.File[],
-    @Body('folderId') folderId?: string,
-    @CurrentUser('id') userId?: string,
+    @Body('folderId') folderId: string | undefined,
+    @CurrentUser() user: User,
+    @Body('onDuplicate') onDuplicate?: DuplicateStrategy,
   ) {
-    const documents = await this.documentsService.uploadMultipleDocuments(files, folderId, userId);
+    const results = await this.documentsService.uploadMultipleDocuments(
+      files,
+      folderId,
+      user,
+      onDuplicate,
+    );
+    const deduplicated = results.filter((result) => result.duplicate).map((r) => r.duplicate);
+    const uploaded = results.filter((result) => result.duplicate?.action !== 'skipped').length;
+
     return {
       statusCode: HttpStatus.CREATED,
-      message: `${documents.length} documents uploaded successfully. Processing in background.`,
-      data: documents,
+      message: `${uploaded} documents uploaded successfully, ${results.length - uploaded} duplicates skipped. Processing in background.`,
+      data: results.map((result) => result.document),
+      deduplicated,
     };
   }
 
   @Get()
+  @ApiKeyScope('documents:read')
   @ApiOperation({ summary: 'Get all documents' })
   @ApiResponse({ status: 200, description: 'Documents retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getAllDocuments(@CurrentUser('id') userId: string) {
-    const documents = await this.documentsService.getAllDocuments(userId);
+  async getAllDocuments(@CurrentUser() user: User) {
+    const documents = await this.documentsService.getAllDocuments(user);
     return {
       statusCode: HttpStatus.OK,
       data: documents,
@@ -126,19 +194,223 @@ export class DocumentsController {
   }
 
   @Get(':id')
+  @ApiKeyScope('documents:read')
   @ApiOperation({ summary: 'Get document by ID' })
   @ApiResponse({ status: 200, description: 'Document retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Document not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getDocument(@Param('id') id: string) {
-    const document = await this.documentsService.getDocument(id);
+  async getDocument(@Param('id') id: string, @CurrentUser() user: User) {
+    const document = await this.documentsService.getDocument(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: document,
+    };
+  }
+
+  @Get(':id/jobs')
+  @ApiOperation({ summary: 'Get background processing jobs of a document' })
+  @ApiResponse({ status: 200, description: 'Jobs retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDocumentJobs(@Param('id') id: string, @CurrentUser() user: User) {
+    const jobs = await this.documentsService.getDocumentJobs(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: jobs,
+    };
+  }
+
+  @Get(':id/content')
+  @ApiKeyScope('documents:read')
+  @ApiOperation({ summary: 'Get the extracted text of a document (paged)' })
+  @ApiResponse({ status: 200, description: 'Content retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document or content not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDocumentContent(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+    @Query() query: GetDocumentContentDto,
+  ) {
+    const content = await this.documentsService.getDocumentContent(id, user, query);
+    return {
+      statusCode: HttpStatus.OK,
+      data: content,
+    };
+  }
+
+  @Get(':id/chunks')
+  @ApiOperation({ summary: 'Get the chunks of a document as indexed in the vector store' })
+  @ApiResponse({ status: 200, description: 'Chunks retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDocumentChunks(@Param('id') id: string, @CurrentUser() user: User) {
+    const chunks = await this.documentsService.getDocumentChunks(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: chunks,
+    };
+  }
+
+  @Get(':id/download')
+  @ApiProduces('application/octet-stream')
+  @ApiOperation({
+    summary: 'Download the original file',
+    description: 'Supports single byte ranges (Range: bytes=start-end) for large PDFs.',
+  })
+  @ApiQuery({
+    name: 'inline',
+    required: false,
+    description: 'Display in the browser instead of saving',
+  })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 206, description: 'Partial file content' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 416, description: 'Range not satisfiable' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async downloadDocument(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+    @Headers('range') range: string,
+    @Query('inline') inline: string,
+    @Res() res: Response,
+  ) {
+    const document = await this.documentsService.getDocument(id, user);
+    await this.downloadService.sendFile(document, res, range, inline === 'true');
+  }
+
+  @Post(':id/download-url')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Create a short-lived signed download URL (no auth header needed)' })
+  @ApiResponse({ status: 200, description: 'Signed URL created' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createDownloadUrl(@Param('id') id: string, @CurrentUser() user: User) {
+    const signedUrl = await this.downloadService.createSignedUrl(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: signedUrl,
+    };
+  }
+
+  @Public()
+  @Get(':id/download/signed')
+  @ApiProduces('application/octet-stream')
+  @ApiOperation({ summary: 'Download the original file through a signed URL' })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 206, description: 'Partial file content' })
+  @ApiResponse({ status: 403, description: 'Link invalid or expired' })
+  async downloadSignedDocument(
+    @Param('id') id: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Headers('range') range: string,
+    @Query('inline') inline: string,
+    @Res() res: Response,
+  ) {
+    const document = await this.downloadService.verifySignedUrl(id, Number(expires), signature);
+    await this.downloadService.sendFile(document, res, range, inline === 'true');
+  }
+
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'List the versions of a document, newest first' })
+  @ApiResponse({ status: 200, description: 'Versions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDocumentVersions(@Param('id') id: string, @CurrentUser() user: User) {
+    const versions = await this.documentsService.getDocumentVersions(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: versions,
+    };
+  }
+
+  @Post(':id/versions')
+  @ApiKeyScope('documents:write')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Upload a new version of a document',
+    description:
+      'Keeps folder placement and metadata. Earlier versions are kept; only the new one is indexed.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+        note: {
+          type: 'string',
+          description: 'Optional description of what changed',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Version uploaded successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid file or document still processing' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async uploadDocumentVersion(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: User,
+    @Body('note') note?: string,
+  ) {
+    const result = await this.documentsService.uploadDocumentVersion(id, file, user, note);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: `Version ${result.version.versionNumber} uploaded successfully. Processing in background.`,
+      data: result,
+    };
+  }
+
+  @Post(':id/versions/:versionId/restore')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Make an earlier version active again and re-index it' })
+  @ApiResponse({ status: 200, description: 'Version restored successfully' })
+  @ApiResponse({ status: 400, description: 'Version already active or document still processing' })
+  @ApiResponse({ status: 404, description: 'Document or version not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async restoreDocumentVersion(
+    @Param('id') id: string,
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: User,
+  ) {
+    const document = await this.documentsService.restoreDocumentVersion(id, versionId, user);
     return {
       statusCode: HttpStatus.OK,
+      message: `Version ${document.currentVersion} restored. Processing in background.`,
+      data: document,
+    };
+  }
+
+  @Patch(':id/metadata')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
+  @ApiOperation({ summary: 'Override summary, keywords, category or tags of a document' })
+  @ApiResponse({ status: 200, description: 'Metadata updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid metadata' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateDocumentMetadata(
+    @Param('id') id: string,
+    @CurrentUser() user: User,
+    @Body() updateDto: UpdateDocumentMetadataDto,
+  ) {
+    const document = await this.documentsService.updateDocumentMetadata(id, user, updateDto);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Metadata updated successfully',
       data: document,
     };
   }
 
   @Delete(':id')
+  @ApiKeyScope('documents:delete')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete document by ID' })
   @ApiResponse({ status: 200, description: 'Document deleted successfully' })
@@ -146,9 +418,9 @@ export class DocumentsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async deleteDocument(
     @Param('id') id: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
   ) {
-    await this.documentsService.deleteDocument(id, userId);
+    await this.documentsService.deleteDocument(id, user);
     return {
       statusCode: HttpStatus.OK,
       message: 'Document deleted successfully',
@@ -156,19 +428,65 @@ export class DocumentsController {
   }
 
   @Post('reindex')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Re-index all documents' })
-  @ApiResponse({ status: 200, description: 'Re-indexing completed successfully' })
+  @ApiOperation({
+    summary: 'Re-index changed documents (queued as background jobs)',
+    description:
+      'Skips documents whose content, chunking settings and embedding model are unchanged since they were last indexed.',
+  })
+  @ApiQuery({ name: 'force', required: false, description: 'Re-index every document' })
+  @ApiResponse({ status: 200, description: 'Re-indexing queued successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async reindexAllDocuments(@CurrentUser('id') userId: string) {
-    this.logger.log(`🔄 Re-indexing all documents requested by user: ${userId}`);
+  async reindexAllDocuments(@CurrentUser() user: User, @Query('force') force: string) {
+    this.logger.log(`🔄 Re-indexing all documents requested by user: ${user.id}`);
     
-    const result = await this.documentsService.reindexAllDocuments(userId);
+    const result = await this.documentsService.reindexAllDocuments(user, force === 'true');
     
     return {
       statusCode: HttpStatus.OK,
-      message: 'All documents re-indexed successfully',
+      message: 'Re-indexing queued. Track progress via GET /documents/reindex/:runId',
       data: result,
     };
   }
+
+  @Post('reindex/migrate')
+  @Roles(UserRole.PLATFORM_ADMIN)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Migrate all documents to another embedding model',
+    description:
+      'Documents are re-embedded into a new collection while searches keep using the current one; searches switch over once every document is indexed.',
+  })
+  @ApiResponse({ status: 202, description: 'Migration started' })
+  @ApiResponse({ status: 400, description: 'Model unusable or a migration is already running' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async startEmbeddingMigration(
+    @CurrentUser() user: User,
+    @Body() dto: StartEmbeddingMigrationDto,
+  ) {
+    const run = await this.documentsService.startEmbeddingMigration(user, dto.embeddingModel);
+    return {
+      statusCode: HttpStatus.ACCEPTED,
+      message: `Migration to ${run.embeddingModel} started`,
+      data: run,
+    };
+  }
+
+  @Get('reindex/:runId')
+  @ApiOperation({ summary: 'Get the progress of a re-index or embedding migration' })
+  @ApiResponse({ status: 200, description: 'Run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getReindexRun(@Param('runId') runId: string, @CurrentUser('id') userId: string) {
+    const run = await this.documentsService.getReindexRun(runId, userId);
+    const done = run.processedDocuments + run.failedDocuments;
+    return {
+      statusCode: HttpStatus.OK,
+      data: {
+        ...run,
+        progress: run.queuedDocuments ? Math.round((done / run.queuedDocuments) * 100) : 100,
+      },
+    };
+  }
 }
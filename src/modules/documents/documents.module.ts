@@ -4,17 +4,42 @@ import { DocumentsController } from './documents.controller';
 import { DocumentsService } from './documents.service';
 import { DocumentEntity } from '../../entities/document.entity';
 import { FolderEntity } from '../../entities/folder.entity';
+import { DocumentVersionEntity } from '../../entities/document-version.entity';
+import { ReindexRunEntity } from './entities/reindex-run.entity';
 import { IngestionModule } from '../ingestion/ingestion.module';
 import { VectorModule } from '../vector/vector.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StorageModule } from '../storage/storage.module';
+import { ChatModule } from '../chat/chat.module';
+import { SharingModule } from '../sharing/sharing.module';
+import { EnrichmentService } from './services/enrichment.service';
+import { DocumentDownloadService } from './services/document-download.service';
+import { ReindexService } from './services/reindex.service';
+import { DocumentAccessService } from './services/document-access.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([DocumentEntity, FolderEntity]),
+    TypeOrmModule.forFeature([
+      DocumentEntity,
+      FolderEntity,
+      DocumentVersionEntity,
+      ReindexRunEntity,
+    ]),
     IngestionModule, 
-    VectorModule
+    VectorModule,
+    JobsModule,
+    StorageModule,
+    ChatModule,
+    SharingModule,
   ],
   controllers: [DocumentsController],
-  providers: [DocumentsService],
-  exports: [DocumentsService],
+  providers: [
+    DocumentsService,
+    EnrichmentService,
+    DocumentDownloadService,
+    ReindexService,
+    DocumentAccessService,
+  ],
+  exports: [DocumentsService, DocumentAccessService],
 })
 export class DocumentsModule { }
@@ -1,13 +1,54 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Not, Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { DocumentEntity } from '../../entities/document.entity';
+import { createHash } from 'crypto';
+import { DocumentEntity, DocumentMetadata } from '../../entities/document.entity';
 import { FolderEntity } from '../../entities/folder.entity';
+import { DocumentVersionEntity } from '../../entities/document-version.entity';
 import { IngestionService } from '../ingestion/ingestion.service';
 import { VectorService } from '../vector/vector.service';
+import { JobsService } from '../jobs/jobs.service';
+import { StorageService } from '../storage/storage.service';
+import { JobEntity } from '../jobs/entities/job.entity';
+import { GetDocumentContentDto } from './dto/get-document-content.dto';
+import { UpdateDocumentMetadataDto } from './dto/update-document-metadata.dto';
+import { EnrichmentService } from './services/enrichment.service';
+import { ReindexService } from './services/reindex.service';
+import { DocumentAccessService } from './services/document-access.service';
+import { QACacheService } from '../chat/services/qa-cache.service';
+import { User } from '../../common/interfaces/user.interface';
+import { assertPermission } from '../../common/utils/permissions';
+import {
+  canModifyTenantContent,
+  getTenantScope,
+  readableWhere,
+} from '../../common/utils/tenant-scope';
+import { ReindexRunEntity } from './entities/reindex-run.entity';
+import { countTokens } from '../../common/utils/token-counter';
+
+export const DOCUMENT_INGEST_JOB = 'document.ingest';
+export const DOCUMENT_MIGRATE_JOB = 'document.migrate';
+
+export const DUPLICATE_STRATEGIES = ['skip', 'replace', 'keep'] as const;
+export type DuplicateStrategy = (typeof DUPLICATE_STRATEGIES)[number];
+
+export interface UploadResult {
+  document: DocumentEntity; // The existing document when the upload was skipped
+  duplicate?: {
+    fileName: string;
+    action: 'skipped' | 'replaced' | 'kept';
+    existingDocumentIds: string[]; // Documents of the user with the same content
+  };
+}
 
 export interface UploadedDocument {
   id: string;
@@ -22,9 +63,8 @@ export interface UploadedDocument {
 }
 
 @Injectable()
-export class DocumentsService {
+export class DocumentsService implements OnModuleInit, OnApplicationBootstrap {
   private readonly logger = new Logger(DocumentsService.name);
-  private readonly uploadDir: string;
   private readonly maxFileSize: number;
   private readonly allowedMimeTypes: string[];
 
@@ -33,22 +73,58 @@ export class DocumentsService {
     private documentRepository: Repository<DocumentEntity>,
     @InjectRepository(FolderEntity)
     private folderRepository: Repository<FolderEntity>,
+    @InjectRepository(DocumentVersionEntity)
+    private versionRepository: Repository<DocumentVersionEntity>,
     private configService: ConfigService,
     private ingestionService: IngestionService,
     private vectorService: VectorService,
+    private jobsService: JobsService,
+    private enrichmentService: EnrichmentService,
+    private storageService: StorageService,
+    private reindexService: ReindexService,
+    private documentAccessService: DocumentAccessService,
+    private qaCacheService: QACacheService,
   ) {
-    this.uploadDir = path.join(process.cwd(), 'uploads');
     this.maxFileSize = this.configService.get<number>('upload.maxFileSize');
     this.allowedMimeTypes = this.configService.get<string[]>('upload.allowedMimeTypes');
-    this.initializeUploadDir();
   }
 
-  private async initializeUploadDir() {
+  onModuleInit() {
+    this.jobsService.registerHandler(DOCUMENT_INGEST_JOB, {
+      handle: (job) => this.runIngestJob(job),
+      onFailed: async (job, error) => {
+        await this.markDocumentFailed(job.documentId, error);
+        if (job.payload?.runId) {
+          await this.reindexService.recordResult(job.payload.runId, false, error.message);
+        }
+      },
+    });
+    this.jobsService.registerHandler(DOCUMENT_MIGRATE_JOB, {
+      handle: (job) => this.runMigrateJob(job),
+      onFailed: (job, error) =>
+        this.reindexService.recordResult(job.payload.runId, false, error.message),
+    });
+  }
+
+  /**
+   * Re-queue documents left in processing without a job (e.g. uploaded before the job queue existed)
+   */
+  async onApplicationBootstrap() {
     try {
-      await fs.mkdir(this.uploadDir, { recursive: true });
-      this.logger.log(`Upload directory initialized: ${this.uploadDir}`);
+      const documents = await this.documentRepository.find({ where: { status: 'processing' } });
+
+      let requeued = 0;
+      for (const document of documents) {
+        if (await this.enqueueIngestion(document)) {
+          requeued++;
+        }
+      }
+
+      if (requeued > 0) {
+        this.logger.warn(`Re-queued ${requeued} orphaned documents for processing`);
+      }
     } catch (error) {
-      this.logger.error('Failed to create upload directory', error.stack);
+      this.logger.error('Failed to re-queue orphaned documents', error.stack);
     }
   }
 
@@ -62,6 +138,14 @@ export class DocumentsService {
       '.txt': 'text/plain',
       '.doc': 'application/msword',
       '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      '.xls': 'application/vnd.ms-excel',
+      '.csv': 'text/csv',
+      '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      '.html': 'text/html',
+      '.htm': 'text/html',
+      '.md': 'text/markdown',
+      '.markdown': 'text/markdown',
     };
     return mimeTypes[ext] || 'application/octet-stream';
   }
@@ -77,6 +161,14 @@ export class DocumentsService {
       );
     }
 
+    // Browsers send generic types for some files (e.g. .md, .csv) - fall back to the extension
+    if (!this.allowedMimeTypes.includes(file.mimetype)) {
+      const mimeTypeFromName = this.getMimeType(file.originalname);
+      if (this.allowedMimeTypes.includes(mimeTypeFromName)) {
+        file.mimetype = mimeTypeFromName;
+      }
+    }
+
     // Check mime type
     if (!this.allowedMimeTypes.includes(file.mimetype)) {
       throw new BadRequestException(
@@ -90,62 +182,96 @@ export class DocumentsService {
    */
   async uploadDocument(
     file: Express.Multer.File,
-    folderId?: string,
-    userId?: string,
-  ): Promise<DocumentEntity> {
+    folderId: string | undefined,
+    user: User,
+    onDuplicate: DuplicateStrategy = 'skip',
+  ): Promise<UploadResult> {
+    const userId = user.id;
+
     try {
+      assertPermission(user, 'documents:write');
       this.validateFile(file);
 
-      // Validate folder exists if folderId is provided
-      if (folderId && userId) {
+      if (!DUPLICATE_STRATEGIES.includes(onDuplicate)) {
+        throw new BadRequestException(
+          `Invalid onDuplicate "${onDuplicate}". Allowed: ${DUPLICATE_STRATEGIES.join(', ')}`,
+        );
+      }
+
+      // Validate folder exists and the user may add to it if folderId is provided
+      if (folderId) {
         const folder = await this.folderRepository.findOne({
-          where: { id: folderId, userId },
+          where: readableWhere(user, { id: folderId }),
         });
-        if (!folder) {
+        if (!folder || !canModifyTenantContent(user, folder)) {
           throw new BadRequestException('Folder not found');
         }
       }
 
-      const fileExtension = path.extname(file.originalname);
-      const fileName = `${Date.now()}-${file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+      const contentHash = this.hashContent(file.buffer);
+      const duplicates = await this.documentRepository.find({
+        where: { userId, contentHash },
+        order: { uploadedAt: 'ASC' },
+      });
+      let duplicate: UploadResult['duplicate'];
+
+      if (duplicates.length > 0) {
+        const existingDocumentIds = duplicates.map((d) => d.id);
+        this.logger.log(
+          `Duplicate upload of ${file.originalname} (matches ${existingDocumentIds.join(', ')}): ${onDuplicate}`,
+        );
+
+        if (onDuplicate === 'skip') {
+          return {
+            document: duplicates[0],
+            duplicate: { fileName: file.originalname, action: 'skipped', existingDocumentIds },
+          };
+        }
 
-      // Create folder path if folderId is provided
-      let targetDir = this.uploadDir;
-      if (folderId) {
-        targetDir = path.join(this.uploadDir, folderId);
-        await fs.mkdir(targetDir, { recursive: true });
-      }
+        if (onDuplicate === 'replace') {
+          for (const existing of duplicates) {
+            await this.deleteDocument(existing.id, user);
+          }
+        }
 
-      const filePath = path.join(targetDir, fileName);
+        duplicate = {
+          fileName: file.originalname,
+          action: onDuplicate === 'replace' ? 'replaced' : 'kept',
+          existingDocumentIds,
+        };
+      }
 
-      // Save file to disk
-      await fs.writeFile(filePath, file.buffer);
-      this.logger.log(`File saved: ${fileName} in folder: ${folderId || 'root'}`);
+      const fileExtension = path.extname(file.originalname);
+      const { fileName, filePath } = await this.storeFile(file, folderId);
 
       // Create document entity
       const document = this.documentRepository.create({
         userId,
+        organizationId: user.organizationId || null,
+        franchiseId: user.franchiseId || null,
         folderId: folderId || null,
         fileName,
         originalName: file.originalname,
         filePath,
         fileSize: file.size,
         mimeType: file.mimetype,
+        contentHash,
         status: 'processing',
       });
 
       // Save to database
       const savedDocument = await this.documentRepository.save(document);
+      await this.versionRepository.save(this.createVersion(savedDocument, userId));
 
       // Update folder counts
       if (folderId) {
         await this.updateFolderCounts(folderId);
       }
 
-      // Process document asynchronously
-      this.processDocumentAsync(savedDocument.id, filePath, file.originalname, file.mimetype);
+      // Process document in the background job queue
+      await this.enqueueIngestion(savedDocument);
 
-      return savedDocument;
+      return { document: savedDocument, duplicate };
     } catch (error) {
       this.logger.error('Failed to upload document', error.stack);
       throw error;
@@ -174,46 +300,376 @@ export class DocumentsService {
   }
 
   /**
-   * Process document asynchronously
+   * Queue a document for (re-)ingestion; returns null if it already has an active job
    */
-  private async processDocumentAsync(
-    documentId: string,
-    filePath: string,
-    originalName: string,
-    mimeType: string,
-  ): Promise<void> {
-    try {
-      const result = await this.ingestionService.processDocument(
-        filePath,
-        originalName,
-        mimeType,
-        { uploadedDocumentId: documentId },
-      );
+  private async enqueueIngestion(
+    document: DocumentEntity,
+    payload: Record<string, any> = {},
+  ): Promise<JobEntity | null> {
+    if (await this.jobsService.hasActiveJob(document.id, DOCUMENT_INGEST_JOB)) {
+      return null;
+    }
 
-      // Update document status in database
-      const document = await this.documentRepository.findOne({
-        where: { id: documentId },
-      });
+    if (document.status !== 'processing' || document.errorMessage) {
+      document.status = 'processing';
+      document.errorMessage = null;
+      await this.documentRepository.save(document);
+    }
+
+    return this.jobsService.enqueue(DOCUMENT_INGEST_JOB, payload, {
+      userId: document.userId,
+      documentId: document.id,
+    });
+  }
+
+  /**
+   * Job handler: replace the document's chunks in the vector store. The new chunks are written
+   * first and the old ones only deleted once they are, so a failed run leaves the previous
+   * chunks searchable.
+   */
+  private async runIngestJob(job: JobEntity): Promise<Record<string, any>> {
+    const document = await this.documentRepository.findOne({
+      where: { id: job.documentId },
+    });
+
+    if (!document) {
+      this.logger.warn(`Document ${job.documentId} no longer exists - skipping ingestion`);
+      await this.recordRunResult(job, true);
+      return { skipped: true };
+    }
+
+    const file = await this.storageService.get(document.filePath);
+    const active = this.reindexService.getActiveIndex();
 
-      if (document) {
-        document.status = result.status === 'success' ? 'completed' : 'failed';
-        await this.documentRepository.save(document);
+    const result = await this.ingestionService.processDocument(
+      file,
+      document.originalName,
+      document.mimeType,
+      this.buildChunkMetadata(document),
+    );
+
+    if (result.status !== 'success') {
+      throw new Error(result.message || 'Document processing failed');
+    }
+
+    // Remove chunks from a previous version or an earlier attempt
+    await this.ingestionService.deleteStaleChunks(document.id, result.documentId);
+
+    // Update only what ingestion owns - a migration job may be recording indexInfo concurrently
+    document.status = 'completed';
+    document.errorMessage = null;
+    document.contentHash = document.contentHash || this.hashContent(file);
+    await this.documentRepository.update(document.id, {
+      status: document.status,
+      errorMessage: null,
+      contentHash: document.contentHash,
+      extractedContent: result.extractedContent,
+      pageOffsets: result.pages || null,
+    });
+    await this.reindexService.recordIndexed(
+      document.id,
+      active.collection,
+      active.embeddingModel,
+      document.contentHash,
+    );
+
+    this.logger.log(`Document processing completed: ${document.id} (${result.totalChunks} chunks)`);
+
+    // New content (version, restore, reindex): answers built from the old chunks are stale
+    await this.qaCacheService.invalidateByDocuments([document.id]);
+
+    // Keep a shadow collection being built for a migration in sync
+    const migration = await this.reindexService.getRunningMigration();
+    if (migration) {
+      try {
+        await this.indexIntoCollection(document, file, migration);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to index ${document.id} into ${migration.collection}: ${error.message}`,
+        );
       }
+    }
 
-      this.logger.log(`Document processing completed: ${documentId} - ${result.status}`);
-    } catch (error) {
-      this.logger.error(`Failed to process document: ${documentId}`, error.stack);
+    await this.enrichmentService.enqueue(document);
+    await this.recordRunResult(job, true);
+
+    return { totalChunks: result.totalChunks };
+  }
+
+  /**
+   * Job handler: index a document into a migration's shadow collection
+   */
+  private async runMigrateJob(job: JobEntity): Promise<Record<string, any>> {
+    const { runId } = job.payload;
+    const [document, migration] = await Promise.all([
+      this.documentRepository.findOne({ where: { id: job.documentId } }),
+      this.reindexService.getRunningMigration(),
+    ]);
+
+    if (!migration || migration.id !== runId) {
+      return { skipped: true }; // The migration is over
+    }
+    if (!document) {
+      await this.reindexService.recordResult(runId, true);
+      return { skipped: true };
+    }
+
+    const file = await this.storageService.get(document.filePath);
+    const totalChunks = await this.indexIntoCollection(document, file, migration);
+    await this.reindexService.recordResult(runId, true);
+
+    return { totalChunks };
+  }
+
+  /**
+   * Replace a document's chunks in a migration's shadow collection
+   */
+  private async indexIntoCollection(
+    document: DocumentEntity,
+    file: Buffer,
+    migration: ReindexRunEntity,
+  ): Promise<number> {
+    const result = await this.ingestionService.processDocument(
+      file,
+      document.originalName,
+      document.mimeType,
+      this.buildChunkMetadata(document),
+      { collection: migration.collection, embeddingModel: migration.embeddingModel },
+    );
+
+    if (result.status !== 'success') {
+      throw new Error(result.message || 'Document processing failed');
+    }
+
+    await this.ingestionService.deleteStaleChunks(
+      document.id,
+      result.documentId,
+      migration.collection,
+    );
+
+    await this.reindexService.recordIndexed(
+      document.id,
+      migration.collection,
+      migration.embeddingModel,
+      document.contentHash || this.hashContent(file),
+    );
 
-      // Update status to failed in database
-      const document = await this.documentRepository.findOne({
-        where: { id: documentId },
+    return result.totalChunks;
+  }
+
+  private async recordRunResult(job: JobEntity, succeeded: boolean): Promise<void> {
+    if (job.payload?.runId) {
+      await this.reindexService.recordResult(job.payload.runId, succeeded);
+    }
+  }
+
+  /**
+   * Job failure hook: the last attempt failed
+   */
+  private async markDocumentFailed(documentId: string, error: Error): Promise<void> {
+    const document = await this.documentRepository.findOne({
+      where: { id: documentId },
+    });
+
+    if (document) {
+      await this.documentRepository.update(documentId, {
+        status: 'failed',
+        errorMessage: error.message,
       });
+    }
+  }
 
-      if (document) {
-        document.status = 'failed';
-        document.errorMessage = error.message;
-        await this.documentRepository.save(document);
-      }
+  /**
+   * Metadata stamped on every vector chunk so chat retrieval can be scoped by tenant and folder
+   */
+  private buildChunkMetadata(document: DocumentEntity): Record<string, any> {
+    return {
+      uploadedDocumentId: document.id,
+      userId: document.userId,
+      scope: getTenantScope(document),
+      folderId: document.folderId,
+      documentVersion: document.currentVersion,
+    };
+  }
+
+  /**
+   * SHA-256 of file contents, used to detect duplicate uploads
+   */
+  private hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Save an uploaded file to storage; files are grouped by folder
+   */
+  private async storeFile(
+    file: Express.Multer.File,
+    folderId?: string,
+  ): Promise<{ fileName: string; filePath: string }> {
+    const fileName = `${Date.now()}-${file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+    const filePath = folderId ? `${folderId}/${fileName}` : fileName;
+
+    await this.storageService.put(filePath, file.buffer, file.mimetype);
+    this.logger.log(`File saved: ${fileName} in folder: ${folderId || 'root'}`);
+
+    return { fileName, filePath };
+  }
+
+  /**
+   * Version row describing the document's current file
+   */
+  private createVersion(
+    document: DocumentEntity,
+    uploadedBy: string,
+    note?: string,
+  ): DocumentVersionEntity {
+    return this.versionRepository.create({
+      documentId: document.id,
+      versionNumber: document.currentVersion,
+      fileName: document.fileName,
+      originalName: document.originalName,
+      filePath: document.filePath,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      contentHash: document.contentHash,
+      note: note || null,
+      uploadedBy,
+    });
+  }
+
+  /**
+   * List the versions of a document, newest first
+   */
+  async getDocumentVersions(documentId: string, user: User): Promise<DocumentVersionEntity[]> {
+    const document = await this.documentAccessService.getDocument(documentId, user);
+    await this.ensureVersionHistory(document);
+
+    return this.versionRepository.find({
+      where: { documentId },
+      order: { versionNumber: 'DESC' },
+    });
+  }
+
+  /**
+   * Upload a new revision of a document; earlier files are kept and only the new one is indexed
+   */
+  async uploadDocumentVersion(
+    documentId: string,
+    file: Express.Multer.File,
+    user: User,
+    note?: string,
+  ): Promise<{ document: DocumentEntity; version: DocumentVersionEntity }> {
+    this.validateFile(file);
+
+    const document = await this.documentAccessService.getDocument(
+      documentId,
+      user,
+      'documents:write',
+    );
+    await this.ensureNotProcessing(document);
+    await this.ensureVersionHistory(document);
+    await this.snapshotCurrentVersion(document);
+
+    const latest = await this.versionRepository.findOne({
+      where: { documentId },
+      order: { versionNumber: 'DESC' },
+    });
+    const { fileName, filePath } = await this.storeFile(file, document.folderId);
+
+    document.fileName = fileName;
+    document.originalName = file.originalname;
+    document.filePath = filePath;
+    document.fileSize = file.size;
+    document.mimeType = file.mimetype;
+    document.contentHash = this.hashContent(file.buffer);
+    document.currentVersion = (latest?.versionNumber || 0) + 1;
+    await this.documentRepository.save(document);
+
+    const version = await this.versionRepository.save(this.createVersion(document, user.id, note));
+    this.logger.log(`Uploaded version ${version.versionNumber} of document ${documentId}`);
+
+    await this.enqueueIngestion(document);
+
+    return { document, version };
+  }
+
+  /**
+   * Make an earlier version active again and re-index it
+   */
+  async restoreDocumentVersion(
+    documentId: string,
+    versionId: string,
+    user: User,
+  ): Promise<DocumentEntity> {
+    const document = await this.documentAccessService.getDocument(
+      documentId,
+      user,
+      'documents:write',
+    );
+    const version = await this.versionRepository.findOne({
+      where: { id: versionId, documentId },
+    });
+
+    if (!version) {
+      throw new NotFoundException('Version not found');
+    }
+    if (version.versionNumber === document.currentVersion) {
+      throw new BadRequestException(`Version ${version.versionNumber} is already active`);
+    }
+
+    await this.ensureNotProcessing(document);
+
+    if (!(await this.storageService.stat(version.filePath))) {
+      throw new NotFoundException(`File of version ${version.versionNumber} is missing`);
+    }
+
+    await this.snapshotCurrentVersion(document);
+
+    document.fileName = version.fileName;
+    document.originalName = version.originalName;
+    document.filePath = version.filePath;
+    document.fileSize = version.fileSize;
+    document.mimeType = version.mimeType;
+    document.contentHash = version.contentHash;
+    document.metadata = version.metadata;
+    document.currentVersion = version.versionNumber;
+    await this.documentRepository.save(document);
+
+    this.logger.log(`Restored version ${version.versionNumber} of document ${documentId}`);
+
+    await this.enqueueIngestion(document);
+
+    return document;
+  }
+
+  /**
+   * Documents uploaded before versioning have no version rows - record their file as version 1
+   */
+  private async ensureVersionHistory(document: DocumentEntity): Promise<void> {
+    const count = await this.versionRepository.count({ where: { documentId: document.id } });
+    if (count === 0) {
+      await this.versionRepository.save(this.createVersion(document, document.userId));
+    }
+  }
+
+  /**
+   * Keep the active version's metadata with it before another version becomes active
+   */
+  private async snapshotCurrentVersion(document: DocumentEntity): Promise<void> {
+    await this.versionRepository.update(
+      { documentId: document.id, versionNumber: document.currentVersion },
+      { metadata: document.metadata || null },
+    );
+  }
+
+  /**
+   * Versions can't change while the document is being indexed
+   */
+  private async ensureNotProcessing(document: DocumentEntity): Promise<void> {
+    if (await this.jobsService.hasActiveJob(document.id, DOCUMENT_INGEST_JOB)) {
+      throw new BadRequestException(
+        'Document is still being processed. Try again once processing has finished.',
+      );
     }
   }
 
@@ -222,76 +678,68 @@ export class DocumentsService {
    */
   async uploadMultipleDocuments(
     files: Express.Multer.File[],
-    folderId?: string,
-    userId?: string,
-  ): Promise<DocumentEntity[]> {
+    folderId: string | undefined,
+    user: User,
+    onDuplicate?: DuplicateStrategy,
+  ): Promise<UploadResult[]> {
     this.logger.log(`Uploading ${files.length} documents to folder: ${folderId || 'root'}`);
 
-    const results = await Promise.all(
-      files.map((file) => this.uploadDocument(file, folderId, userId)),
-    );
+    // One at a time so identical files within the same batch are detected too
+    const results: UploadResult[] = [];
+    for (const file of files) {
+      results.push(await this.uploadDocument(file, folderId, user, onDuplicate));
+    }
 
     return results;
   }
 
   /**
-   * Get document by ID
+   * Get a document the user can read
    */
-  async getDocument(documentId: string): Promise<DocumentEntity | null> {
-    return this.documentRepository.findOne({
-      where: { id: documentId },
-      relations: ['folder'],
-    });
+  async getDocument(documentId: string, user: User): Promise<DocumentEntity> {
+    return this.documentAccessService.getDocument(documentId, user);
   }
 
   /**
-   * Get all documents for a user
+   * Get all documents the user can read: their own plus HQ documents (everything for admins)
    */
-  async getAllDocuments(userId?: string): Promise<DocumentEntity[]> {
-    if (userId) {
-      return this.documentRepository.find({
-        where: { userId },
-        relations: ['folder'],
-        order: { uploadedAt: 'DESC' },
-      });
-    }
-
-    return this.documentRepository.find({
-      relations: ['folder'],
-      order: { uploadedAt: 'DESC' },
-    });
+  async getAllDocuments(user: User): Promise<DocumentEntity[]> {
+    const query = this.documentAccessService.createQuery().orderBy('document.uploadedAt', 'DESC');
+    return this.documentAccessService.scopeToReadable(query, user).getMany();
   }
 
   /**
-   * Delete document
+   * Delete document (without a user, as part of an operation that already checked access)
    */
-  async deleteDocument(documentId: string, userId?: string): Promise<void> {
+  async deleteDocument(documentId: string, user?: User): Promise<void> {
     try {
-      const where: any = { id: documentId };
-      if (userId) {
-        where.userId = userId;
-      }
-
-      const document = await this.documentRepository.findOne({ where });
+      const document = user
+        ? await this.documentAccessService.getDocument(documentId, user, 'documents:delete')
+        : await this.documentRepository.findOne({ where: { id: documentId } });
 
       if (!document) {
-        throw new BadRequestException('Document not found');
+        throw new NotFoundException('Document not found');
       }
 
       const folderId = document.folderId;
 
-      // Delete from vector store
+      // Delete from vector store, including a shadow collection being built
       await this.ingestionService.deleteDocument(documentId);
+      const migration = await this.reindexService.getRunningMigration();
+      if (migration) {
+        await this.ingestionService.deleteDocument(documentId, migration.collection);
+      }
 
-      // Delete file from disk
-      try {
-        await fs.unlink(document.filePath);
-      } catch (error) {
-        this.logger.warn(`Failed to delete file: ${document.filePath}`);
+      // Delete the stored files of every version
+      const versions = await this.versionRepository.find({ where: { documentId } });
+      const filePaths = new Set([document.filePath, ...versions.map((v) => v.filePath)]);
+      for (const filePath of filePaths) {
+        await this.storageService.delete(filePath);
       }
 
       // Remove from database
       await this.documentRepository.remove(document);
+      await this.qaCacheService.invalidateByDocuments([documentId]);
 
       // Update folder counts
       if (folderId) {
@@ -306,89 +754,241 @@ export class DocumentsService {
   }
 
   /**
-   * Re-index all documents
+   * Re-index the user's documents whose content, chunking or embedding model changed since they
+   * were last indexed (all of them with force)
    */
-  async reindexAllDocuments(userId: string): Promise<any> {
+  async reindexAllDocuments(user: User, force = false): Promise<any> {
+    const userId = user.id;
+    assertPermission(user, 'documents:write');
+
     try {
-      this.logger.log('🔄 Starting re-indexing of all documents...');
+      this.logger.log(`🔄 Queueing ${force ? 'full' : 'incremental'} re-indexing...`);
 
       const allDocuments = await this.documentRepository.find({
         where: { userId },
       });
 
-      if (allDocuments.length === 0) {
-        this.logger.warn('No documents to re-index');
-        return {
-          success: true,
-          message: 'No documents to re-index',
-          totalDocuments: 0,
-          reindexed: 0,
-          failed: 0,
-        };
-      }
+      const toQueue: DocumentEntity[] = [];
+      let skipped = 0;
+      let inProgress = 0;
 
-      this.logger.log(`Found ${allDocuments.length} documents to re-index`);
+      for (const document of allDocuments) {
+        if (await this.jobsService.hasActiveJob(document.id, DOCUMENT_INGEST_JOB)) {
+          inProgress++;
+        } else if (!force && this.reindexService.isUpToDate(document)) {
+          skipped++;
+        } else {
+          toQueue.push(document);
+        }
+      }
 
-      let reindexed = 0;
-      let failed = 0;
-      const errors: string[] = [];
+      const active = this.reindexService.getActiveIndex();
+      const run = await this.reindexService.createRun('incremental', {
+        userId,
+        collection: active.collection,
+        embeddingModel: active.embeddingModel,
+        totalDocuments: allDocuments.length,
+        queuedDocuments: toQueue.length,
+        skippedDocuments: skipped,
+      });
 
-      for (const document of allDocuments) {
-        try {
-          this.logger.log(`Re-indexing: ${document.originalName} (${document.id})`);
-
-          // Update status to processing
-          document.status = 'processing';
-          await this.documentRepository.save(document);
-
-          // Delete existing embeddings for this document
-          await this.ingestionService.deleteDocument(document.id);
-
-          // Re-ingest the document
-          await this.ingestionService.processDocument(
-            document.filePath,
-            document.originalName,
-            document.mimeType,
-            { uploadedDocumentId: document.id }
-          );
-
-          // Update status to completed
-          document.status = 'completed';
-          await this.documentRepository.save(document);
-
-          reindexed++;
-          this.logger.log(`✅ Re-indexed: ${document.originalName}`);
-        } catch (error) {
-          this.logger.error(`❌ Failed to re-index ${document.originalName}: ${error.message}`);
-
-          // Update status to failed
-          document.status = 'failed';
-          document.errorMessage = error.message;
-          await this.documentRepository.save(document);
-
-          failed++;
-          errors.push(`${document.originalName}: ${error.message}`);
+      const jobIds: string[] = [];
+      for (const document of toQueue) {
+        const job = await this.enqueueIngestion(document, { runId: run.id });
+        if (job) {
+          jobIds.push(job.id);
+        } else {
+          // Picked up by another request in the meantime - count it so the run can finish
+          await this.reindexService.recordResult(run.id, true);
         }
       }
 
-      const result = {
+      this.logger.log(
+        `✅ Queued ${jobIds.length}/${allDocuments.length} documents for re-indexing (${skipped} unchanged)`,
+      );
+
+      return {
         success: true,
-        message: `Re-indexing completed: ${reindexed} successful, ${failed} failed`,
+        message: `Re-indexing queued: ${jobIds.length} documents, ${skipped} unchanged, ${inProgress} already in progress`,
+        runId: run.id,
         totalDocuments: allDocuments.length,
-        reindexed,
-        failed,
-        errors: failed > 0 ? errors : undefined,
+        queued: jobIds.length,
+        skipped,
+        inProgress,
+        jobIds,
       };
-
-      this.logger.log(`✅ Re-indexing completed: ${reindexed}/${allDocuments.length} successful`);
-
-      return result;
     } catch (error) {
       this.logger.error(`Failed to re-index documents: ${error.message}`, error.stack);
       throw error;
     }
   }
 
+  /**
+   * Re-embed every document with another embedding model into a shadow collection;
+   * searches switch to it once all documents are indexed
+   */
+  async startEmbeddingMigration(user: User, embeddingModel?: string): Promise<ReindexRunEntity> {
+    assertPermission(user, 'system:manage');
+    const target = await this.reindexService.prepareMigration(embeddingModel);
+
+    // Failed documents have nothing to index and would fail the migration
+    const documents = await this.documentRepository.find({
+      where: { status: Not('failed') },
+      select: ['id', 'userId'],
+    });
+
+    const run = await this.reindexService.createRun('migration', {
+      userId: user.id,
+      collection: target.collection,
+      previousCollection: this.vectorService.getCollectionName(),
+      embeddingModel: target.embeddingModel,
+      totalDocuments: documents.length,
+      queuedDocuments: documents.length,
+    });
+
+    for (const document of documents) {
+      await this.jobsService.enqueue(
+        DOCUMENT_MIGRATE_JOB,
+        { runId: run.id },
+        { userId: document.userId, documentId: document.id },
+      );
+    }
+
+    this.logger.log(
+      `🔄 Migrating ${documents.length} documents to ${target.embeddingModel} (${target.collection})`,
+    );
+
+    return run;
+  }
+
+  /**
+   * Get the progress of a reindex or migration run
+   */
+  async getReindexRun(runId: string, userId: string): Promise<ReindexRunEntity> {
+    return this.reindexService.getRun(runId, userId);
+  }
+
+  /**
+   * Get the background jobs of a document the user can read
+   */
+  async getDocumentJobs(documentId: string, user: User): Promise<JobEntity[]> {
+    await this.documentAccessService.getDocument(documentId, user);
+    return this.jobsService.getDocumentJobs(documentId);
+  }
+
+  /**
+   * Get a page of the text extracted at ingestion, by character range or PDF page
+   */
+  async getDocumentContent(documentId: string, user: User, query: GetDocumentContentDto) {
+    const document = await this.documentAccessService.getDocument(
+      documentId,
+      user,
+      'documents:read',
+      ['extractedContent', 'pageOffsets'],
+    );
+
+    if (!document.extractedContent) {
+      throw new NotFoundException(
+        'Extracted content is not available yet. Wait for processing or re-index the document.',
+      );
+    }
+
+    const content = document.extractedContent;
+    let offset = query.offset || 0;
+    let end = offset + (query.limit || 10000);
+
+    if (query.page) {
+      const page = document.pageOffsets?.find((p) => p.pageNumber === query.page);
+      if (!page) {
+        throw new BadRequestException(`Page ${query.page} not found in this document`);
+      }
+      offset = page.start;
+      end = page.end;
+    }
+
+    end = Math.min(end, content.length);
+
+    return {
+      documentId: document.id,
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      totalLength: content.length,
+      offset,
+      length: Math.max(end - offset, 0),
+      content: content.slice(offset, end),
+      hasMore: end < content.length,
+      nextOffset: end < content.length ? end : null,
+      pages: document.pageOffsets || undefined,
+    };
+  }
+
+  /**
+   * Get the chunks of a document exactly as stored in the vector store
+   */
+  async getDocumentChunks(documentId: string, user: User) {
+    const document = await this.documentAccessService.getDocument(documentId, user);
+    const chunks = await this.vectorService.getDocumentChunks(document.id);
+
+    const items = chunks.map((chunk) => ({
+      id: chunk.id,
+      chunkIndex: chunk.metadata?.chunkIndex,
+      pageNumber: chunk.metadata?.pageNumber,
+      characters: chunk.content.length,
+      tokens: countTokens(chunk.content),
+      content: chunk.content,
+    }));
+
+    return {
+      documentId: document.id,
+      originalName: document.originalName,
+      totalChunks: items.length,
+      totalTokens: items.reduce((sum, chunk) => sum + chunk.tokens, 0),
+      chunks: items,
+    };
+  }
+
+  /**
+   * Manually set summary, keywords, category or tags; these fields are then kept on re-enrichment
+   */
+  async updateDocumentMetadata(
+    documentId: string,
+    user: User,
+    updateDto: UpdateDocumentMetadataDto,
+  ): Promise<DocumentEntity> {
+    const document = await this.documentAccessService.getDocument(
+      documentId,
+      user,
+      'documents:write',
+    );
+    const updates: Partial<DocumentMetadata> = { ...updateDto };
+
+    if (updateDto.category !== undefined) {
+      updates.category = this.enrichmentService.matchCategory(updateDto.category);
+      if (!updates.category) {
+        throw new BadRequestException(
+          `Unknown category "${updateDto.category}". Allowed: ${this.enrichmentService.getCategories().join(', ')}`,
+        );
+      }
+    }
+
+    const fields = Object.keys(updates).filter((field) => updates[field] !== undefined);
+    if (fields.length === 0) {
+      throw new BadRequestException('No metadata fields provided');
+    }
+
+    const existing = document.metadata || {};
+    document.metadata = {
+      ...existing,
+      ...updates,
+      overrides: [...new Set([...(existing.overrides || []), ...fields])],
+    };
+
+    const savedDocument = await this.documentRepository.save(document);
+    this.logger.log(`Metadata updated for document ${documentId}: ${fields.join(', ')}`);
+
+    return savedDocument;
+  }
+
   /**
    * Get vector store statistics
    */
@@ -410,6 +1010,7 @@ export class DocumentsService {
         id: doc.id,
         originalName: doc.originalName,
         status: doc.status,
+        category: doc.metadata?.category,
         uploadedAt: doc.uploadedAt,
       })),
     };
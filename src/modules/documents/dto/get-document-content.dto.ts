@@ -0,0 +1,27 @@
+import { IsInt, IsOptional, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class GetDocumentContentDto {
+  @ApiPropertyOptional({ description: 'Character offset to start from', default: 0 })
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  @IsOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum number of characters to return', default: 10000 })
+  @IsInt()
+  @Min(1)
+  @Max(100000)
+  @Type(() => Number)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Return a single PDF page instead (1-based)' })
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  @IsOptional()
+  page?: number;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartEmbeddingMigrationDto {
+  @ApiPropertyOptional({
+    description: "Embedding model to migrate to (defaults to the provider's configured model)",
+    example: 'text-embedding-3-large',
+  })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  embeddingModel?: string;
+}
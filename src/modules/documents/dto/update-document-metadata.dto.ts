@@ -0,0 +1,34 @@
+import { IsString, IsOptional, IsArray, MaxLength, ArrayMaxSize } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateDocumentMetadataDto {
+  @ApiPropertyOptional({ description: 'Short summary of the document' })
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  summary?: string;
+
+  @ApiPropertyOptional({ description: 'Keywords', type: [String] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  @IsOptional()
+  keywords?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Category from the configured taxonomy',
+    example: 'Operations',
+  })
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Tags', type: [String] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  @IsOptional()
+  tags?: string[];
+}
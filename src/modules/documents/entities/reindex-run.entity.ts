@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type ReindexRunType = 'incremental' | 'migration';
+export type ReindexRunStatus = 'running' | 'completed' | 'failed';
+
+@Entity('reindex_runs')
+@Index(['type', 'status'])
+export class ReindexRunEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: ReindexRunType; // 'migration' builds a shadow collection with a new embedding model
+
+  @Column({ type: 'varchar', length: 50, default: 'running' })
+  status: ReindexRunStatus;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userId: string; // Who started the run
+
+  @Column({ type: 'varchar', length: 255 })
+  collection: string; // Collection being written (the shadow collection for migrations)
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  previousCollection: string; // Active collection when a migration started
+
+  @Column({ type: 'varchar', length: 255 })
+  embeddingModel: string;
+
+  @Column({ type: 'int', default: 0 })
+  totalDocuments: number;
+
+  @Column({ type: 'int', default: 0 })
+  queuedDocuments: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedDocuments: number; // Unchanged since they were last indexed
+
+  @Column({ type: 'int', default: 0 })
+  processedDocuments: number;
+
+  @Column({ type: 'int', default: 0 })
+  failedDocuments: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+}
@@ -0,0 +1,101 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { DocumentEntity } from '../../../entities/document.entity';
+import { User } from '../../../common/interfaces/user.interface';
+import { Permission, assertPermission } from '../../../common/utils/permissions';
+import {
+  canModifyTenantContent,
+  canReadTenantContent,
+  readableCondition,
+} from '../../../common/utils/tenant-scope';
+import { SharingService } from '../../sharing/sharing.service';
+
+/**
+ * Document Access Service
+ * Documents are readable by their owner and, within an organization, HQ documents by every
+ * member and outlet documents by the outlet's members. Changes are limited to the owner,
+ * HQ franchisors (HQ documents) and franchise owners (their outlet's documents).
+ * Documents in shared folders are also readable by viewers and changeable by editors.
+ */
+@Injectable()
+export class DocumentAccessService {
+  constructor(
+    @InjectRepository(DocumentEntity)
+    private documentRepository: Repository<DocumentEntity>,
+    private sharingService: SharingService,
+  ) {}
+
+  /**
+   * Get a document the user may act on with the given permission
+   * extraColumns adds columns that are not selected by default (e.g. extractedContent)
+   */
+  async getDocument(
+    documentId: string,
+    user: User,
+    permission: Permission = 'documents:read',
+    extraColumns: (keyof DocumentEntity)[] = [],
+  ): Promise<DocumentEntity> {
+    assertPermission(user, permission);
+
+    const query = this.createQuery().where('document.id = :documentId', { documentId });
+    if (extraColumns.length > 0) {
+      query.addSelect(extraColumns.map((column) => `document.${column}`));
+    }
+    const document = await query.getOne();
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const shared =
+      document.folderId && !canModifyTenantContent(user, document)
+        ? await this.sharingService.getSharedPermission(document.folderId, user)
+        : null;
+
+    if (!canReadTenantContent(user, document) && !shared) {
+      throw new NotFoundException('Document not found');
+    }
+    if (
+      permission !== 'documents:read' &&
+      !canModifyTenantContent(user, document) &&
+      shared !== 'editor'
+    ) {
+      throw new ForbiddenException('You are not allowed to change or delete this document');
+    }
+
+    return document;
+  }
+
+  /**
+   * Query for documents with their folder
+   */
+  createQuery(): SelectQueryBuilder<DocumentEntity> {
+    return this.documentRepository
+      .createQueryBuilder('document')
+      .leftJoinAndSelect('document.folder', 'folder');
+  }
+
+  /**
+   * Restrict a query from createQuery() to the documents the user can read
+   * (sharedFolderIds adds the documents in folders shared with the user)
+   */
+  scopeToReadable(
+    query: SelectQueryBuilder<DocumentEntity>,
+    user: User,
+    sharedFolderIds: string[] = [],
+  ): SelectQueryBuilder<DocumentEntity> {
+    const readable = readableCondition('document', user);
+    if (!readable) {
+      return query;
+    }
+    if (sharedFolderIds.length === 0) {
+      return query.andWhere(readable.sql, readable.params);
+    }
+
+    return query.andWhere(`(${readable.sql} OR document.folderId IN (:...sharedFolderIds))`, {
+      ...readable.params,
+      sharedFolderIds,
+    });
+  }
+}
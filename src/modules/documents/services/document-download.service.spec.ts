@@ -0,0 +1,62 @@
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { DocumentDownloadService } from './document-download.service';
+
+describe('DocumentDownloadService', () => {
+  let service: DocumentDownloadService;
+
+  beforeEach(() => {
+    service = new DocumentDownloadService(
+      null,
+      new ConfigService({ download: { urlSecret: 'test-secret', urlTtlSeconds: 300 } }),
+      null,
+      null,
+    );
+  });
+
+  it('derives its own signing key from the JWT secret when none is configured', () => {
+    const derived = new DocumentDownloadService(
+      null,
+      new ConfigService({ jwt: { secret: 'jwt-secret' }, download: { urlTtlSeconds: 300 } }),
+      null,
+      null,
+    );
+    const jwtSignature = createHmac('sha256', 'jwt-secret').update('doc-1.100').digest('base64url');
+
+    expect(derived['sign']('doc-1', 100)).not.toBe(jwtSignature);
+    expect(derived['sign']('doc-1', 100)).not.toBe(service['sign']('doc-1', 100));
+  });
+
+  describe('parseRange', () => {
+    const size = 1000;
+
+    it('parses a closed range', () => {
+      expect(service.parseRange('bytes=0-99', size)).toEqual({ start: 0, end: 99 });
+    });
+
+    it('reads an open range to the end of the file', () => {
+      expect(service.parseRange('bytes=900-', size)).toEqual({ start: 900, end: 999 });
+    });
+
+    it('reads a suffix range from the end of the file', () => {
+      expect(service.parseRange('bytes=-100', size)).toEqual({ start: 900, end: 999 });
+      expect(service.parseRange('bytes=-5000', size)).toEqual({ start: 0, end: 999 });
+    });
+
+    it('clamps the end to the file size', () => {
+      expect(service.parseRange('bytes=500-5000', size)).toEqual({ start: 500, end: 999 });
+    });
+
+    it('serves the whole file for malformed or multi-range headers', () => {
+      expect(service.parseRange('bytes=-', size)).toBeUndefined();
+      expect(service.parseRange('items=0-10', size)).toBeUndefined();
+      expect(service.parseRange('bytes=0-10,20-30', size)).toBeUndefined();
+    });
+
+    it('rejects ranges that cannot be satisfied', () => {
+      expect(service.parseRange('bytes=1000-', size)).toBeNull();
+      expect(service.parseRange('bytes=50-10', size)).toBeNull();
+      expect(service.parseRange('bytes=-0', size)).toBeNull();
+    });
+  });
+});
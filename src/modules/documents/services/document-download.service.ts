@@ -0,0 +1,194 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Response } from 'express';
+import { createHmac, hkdfSync, timingSafeEqual } from 'crypto';
+import { DocumentEntity } from '../../../entities/document.entity';
+import { ByteRange, StorageService } from '../../storage/storage.service';
+import { User } from '../../../common/interfaces/user.interface';
+import { DocumentAccessService } from './document-access.service';
+
+/**
+ * Document Download Service
+ * Streams original uploaded files (with HTTP range support) and issues short-lived
+ * HMAC-signed URLs that can be opened without an Authorization header.
+ */
+@Injectable()
+export class DocumentDownloadService {
+  private readonly logger = new Logger(DocumentDownloadService.name);
+  private readonly urlSecret: string | Buffer;
+  private readonly urlTtlSeconds: number;
+  private readonly publicBaseUrl: string;
+
+  constructor(
+    @InjectRepository(DocumentEntity)
+    private documentRepository: Repository<DocumentEntity>,
+    private configService: ConfigService,
+    private storageService: StorageService,
+    private documentAccessService: DocumentAccessService,
+  ) {
+    // A key derived under its own label, so link signatures are never valid JWT signatures
+    this.urlSecret =
+      this.configService.get<string>('download.urlSecret') ||
+      Buffer.from(
+        hkdfSync('sha256', this.configService.get<string>('jwt.secret'), '', 'download-url', 32),
+      );
+    this.urlTtlSeconds = this.configService.get<number>('download.urlTtlSeconds');
+    this.publicBaseUrl = this.configService.get<string>('download.publicBaseUrl');
+  }
+
+  /**
+   * Create a signed download URL for a document the user can read
+   */
+  async createSignedUrl(documentId: string, user: User): Promise<{ url: string; expiresAt: Date }> {
+    await this.documentAccessService.getDocument(documentId, user);
+
+    const expires = Math.floor(Date.now() / 1000) + this.urlTtlSeconds;
+    const signature = this.sign(documentId, expires);
+    const url =
+      `${this.publicBaseUrl}/api/v1/documents/${documentId}/download/signed` +
+      `?expires=${expires}&signature=${signature}`;
+
+    return { url, expiresAt: new Date(expires * 1000) };
+  }
+
+  /**
+   * Resolve the document behind a signed URL; rejects expired or tampered links
+   */
+  async verifySignedUrl(
+    documentId: string,
+    expires: number,
+    signature: string,
+  ): Promise<DocumentEntity> {
+    if (!expires || !signature || expires * 1000 < Date.now()) {
+      throw new ForbiddenException('Download link is invalid or has expired');
+    }
+
+    const expected = Buffer.from(this.sign(documentId, expires));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new ForbiddenException('Download link is invalid or has expired');
+    }
+
+    const document = await this.documentRepository.findOne({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    return document;
+  }
+
+  /**
+   * Stream the original file, honouring a single-range Range header
+   */
+  async sendFile(
+    document: DocumentEntity,
+    res: Response,
+    rangeHeader?: string,
+    inline = false,
+  ): Promise<void> {
+    const file = await this.storageService.stat(document.filePath);
+    if (!file) {
+      this.logger.warn(`File missing in storage for document ${document.id}: ${document.filePath}`);
+      throw new NotFoundException('Document file not found');
+    }
+    const { size } = file;
+
+    res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
+    res.setHeader(
+      'Content-Disposition',
+      this.contentDisposition(document.originalName, inline ? 'inline' : 'attachment'),
+    );
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.setHeader('Last-Modified', new Date(document.updatedAt).toUTCString());
+
+    const range = rangeHeader ? this.parseRange(rangeHeader, size) : undefined;
+
+    if (range === null) {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      res.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE).end();
+      return;
+    }
+
+    if (range) {
+      res.status(HttpStatus.PARTIAL_CONTENT);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.status(HttpStatus.OK);
+      res.setHeader('Content-Length', size);
+    }
+
+    if (res.req?.method === 'HEAD' || size === 0) {
+      res.end();
+      return;
+    }
+
+    const stream = await this.storageService.createReadStream(document.filePath, range);
+    stream.on('error', (error) => {
+      this.logger.error(`Failed to stream document ${document.id}: ${error.message}`);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+
+  /**
+   * Parse a Range header against the file size.
+   * Returns undefined to serve the whole file (absent, malformed or multi-range),
+   * null when the range cannot be satisfied.
+   */
+  parseRange(header: string, size: number): ByteRange | null | undefined {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (match[1] === '' && match[2] === '')) {
+      return undefined;
+    }
+
+    let start: number;
+    let end: number;
+
+    if (match[1] === '') {
+      // Suffix range: the last N bytes
+      const suffix = parseInt(match[2], 10);
+      if (suffix === 0) {
+        return null;
+      }
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    }
+
+    if (start >= size || start > end) {
+      return null;
+    }
+
+    return { start, end };
+  }
+
+  private sign(documentId: string, expires: number): string {
+    return createHmac('sha256', this.urlSecret)
+      .update(`${documentId}.${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * RFC 6266 header with an ASCII fallback and the UTF-8 file name
+   */
+  private contentDisposition(fileName: string, type: 'inline' | 'attachment'): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    const encoded = encodeURIComponent(fileName).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+  }
+}
@@ -0,0 +1,174 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DocumentEntity, DocumentMetadata } from '../../../entities/document.entity';
+import { AIService } from '../../chat/services/ai.service';
+import { JobsService } from '../../jobs/jobs.service';
+import { JobEntity } from '../../jobs/entities/job.entity';
+
+export const DOCUMENT_ENRICH_JOB = 'document.enrich';
+
+interface EnrichmentResult {
+  summary?: string;
+  keywords?: string[];
+  category?: string;
+  tags?: string[];
+}
+
+/**
+ * Enrichment Service
+ * After ingestion, asks the LLM for a summary, keywords, tags and a category from the
+ * configured franchise taxonomy (enrichment.categories). Runs as its own background job,
+ * so a failure never affects the document's indexing status.
+ */
+@Injectable()
+export class EnrichmentService implements OnModuleInit {
+  private readonly logger = new Logger(EnrichmentService.name);
+  private readonly enabled: boolean;
+  private readonly categories: string[];
+  private readonly maxContentChars: number;
+  private readonly model: string;
+
+  constructor(
+    @InjectRepository(DocumentEntity)
+    private documentRepository: Repository<DocumentEntity>,
+    private configService: ConfigService,
+    private aiService: AIService,
+    private jobsService: JobsService,
+  ) {
+    this.enabled = this.configService.get<boolean>('enrichment.enabled');
+    this.categories = this.configService.get<string[]>('enrichment.categories');
+    this.maxContentChars = this.configService.get<number>('enrichment.maxContentChars');
+    this.model = this.configService.get<string>('enrichment.model');
+  }
+
+  onModuleInit() {
+    this.jobsService.registerHandler(DOCUMENT_ENRICH_JOB, {
+      handle: (job) => this.runEnrichJob(job),
+    });
+  }
+
+  /**
+   * Categories documents can be assigned to
+   */
+  getCategories(): string[] {
+    return this.categories;
+  }
+
+  /**
+   * Resolve a category name case-insensitively against the taxonomy
+   */
+  matchCategory(category: string): string | undefined {
+    const normalized = category?.trim().toLowerCase();
+    return this.categories.find((c) => c.toLowerCase() === normalized);
+  }
+
+  /**
+   * Queue enrichment of a freshly indexed document (no-op when disabled)
+   */
+  async enqueue(document: DocumentEntity): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    await this.jobsService.enqueue(
+      DOCUMENT_ENRICH_JOB,
+      {},
+      { userId: document.userId, documentId: document.id },
+    );
+  }
+
+  /**
+   * Job handler: generate metadata and merge it with manual overrides
+   */
+  private async runEnrichJob(job: JobEntity): Promise<Record<string, any>> {
+    const document = await this.documentRepository
+      .createQueryBuilder('document')
+      .addSelect('document.extractedContent')
+      .where('document.id = :id', { id: job.documentId })
+      .getOne();
+
+    if (!document?.extractedContent) {
+      this.logger.warn(`No extracted content for document ${job.documentId} - skipping enrichment`);
+      return { skipped: true };
+    }
+
+    const result = await this.generateMetadata(document.originalName, document.extractedContent);
+
+    // Re-read the metadata so a manual edit made while the LLM was busy is kept
+    const current = await this.documentRepository.findOne({ where: { id: document.id } });
+    if (!current) {
+      return { skipped: true };
+    }
+
+    const existing: DocumentMetadata = current.metadata || {};
+    const overrides = existing.overrides || [];
+    const metadata: DocumentMetadata = { ...existing, enrichedAt: new Date().toISOString() };
+
+    for (const field of ['summary', 'keywords', 'category', 'tags'] as const) {
+      if (result[field] !== undefined && !overrides.includes(field)) {
+        (metadata as any)[field] = result[field];
+      }
+    }
+
+    current.metadata = metadata;
+    await this.documentRepository.save(current);
+
+    this.logger.log(
+      `✨ Enriched ${document.originalName}: ${metadata.category || 'uncategorized'}`,
+    );
+
+    return { category: metadata.category, keywords: metadata.keywords?.length || 0 };
+  }
+
+  private async generateMetadata(fileName: string, content: string): Promise<EnrichmentResult> {
+    const excerpt = content.slice(0, this.maxContentChars);
+
+    let prompt = `You are cataloguing a document from a franchise business knowledge base.\n\n`;
+    prompt += `File name: ${fileName}\n\n`;
+    prompt += `Content${excerpt.length < content.length ? ' (beginning)' : ''}:\n"""\n${excerpt}\n"""\n\n`;
+    prompt += `Return only a JSON object with these fields:\n`;
+    prompt += `- "summary": 2-3 sentence summary of the document\n`;
+    prompt += `- "keywords": 5-10 specific keywords or key phrases\n`;
+    prompt += `- "category": exactly one of: ${this.categories.join(', ')}\n`;
+    prompt += `- "tags": up to 5 short lowercase tags (e.g. audience, region, document type)`;
+
+    const response = await this.aiService.generateCompletion(
+      prompt,
+      { temperature: 0.2, maxTokens: 600 },
+      this.model,
+    );
+
+    return this.parseResult(response);
+  }
+
+  /**
+   * Parse and sanitize the LLM's JSON answer
+   */
+  private parseResult(response: string): EnrichmentResult {
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      throw new Error('Enrichment response did not contain JSON');
+    }
+
+    const parsed = JSON.parse(json);
+    const toList = (value: any, max: number, lowercase = false): string[] | undefined =>
+      Array.isArray(value)
+        ? [
+            ...new Set(
+              value
+                .filter((item) => typeof item === 'string' && item.trim())
+                .map((item: string) => (lowercase ? item.trim().toLowerCase() : item.trim())),
+            ),
+          ].slice(0, max)
+        : undefined;
+
+    return {
+      summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : undefined,
+      keywords: toList(parsed.keywords, 10),
+      category: this.matchCategory(parsed.category) || this.matchCategory('Other'),
+      tags: toList(parsed.tags, 5, true),
+    };
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DocumentEntity, IndexFingerprint } from '../../../entities/document.entity';
+import { ReindexRunEntity, ReindexRunType } from '../entities/reindex-run.entity';
+import { VectorService } from '../../vector/vector.service';
+import { AIService } from '../../chat/services/ai.service';
+import { IngestionService } from '../../ingestion/ingestion.service';
+
+// Chunks that don't belong to an uploaded document but must survive a migration
+const GENERATED_CHUNK_SOURCES = ['ai_generated', 'text'];
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface ActiveIndex {
+  collection: string;
+  embeddingModel: string;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/**
+ * Reindex Service
+ * Tracks how each document was indexed (content hash, chunking, embedding model) so reindexing
+ * can skip unchanged documents, and drives embedding-model migrations: documents are indexed
+ * into a shadow collection, then searches switch to it once every document has been processed.
+ * The active collection and model survive restarts through the last completed migration run.
+ */
+@Injectable()
+export class ReindexService implements OnModuleInit {
+  private readonly logger = new Logger(ReindexService.name);
+
+  constructor(
+    @InjectRepository(ReindexRunEntity)
+    private runRepository: Repository<ReindexRunEntity>,
+    @InjectRepository(DocumentEntity)
+    private documentRepository: Repository<DocumentEntity>,
+    private vectorService: VectorService,
+    private aiService: AIService,
+    private ingestionService: IngestionService,
+    private configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    this.vectorService.setMigrationTargetResolver(
+      async () => (await this.getRunningMigration())?.collection ?? null,
+    );
+
+    const migration = await this.runRepository.findOne({
+      where: { type: 'migration', status: 'completed' },
+      order: { completedAt: 'DESC' },
+    });
+
+    if (!migration) {
+      return;
+    }
+
+    try {
+      await this.vectorService.switchCollection(migration.collection);
+      this.aiService.setEmbeddingModel(migration.embeddingModel);
+    } catch (error) {
+      this.logger.error(
+        `Failed to restore migrated collection ${migration.collection}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Collection, embedding model and chunking that new chunks are indexed with
+   */
+  getActiveIndex(): ActiveIndex {
+    return {
+      collection: this.vectorService.getCollectionName(),
+      embeddingModel: this.aiService.getEmbeddingModel(),
+      ...this.ingestionService.getChunkingConfig(),
+    };
+  }
+
+  /**
+   * Whether the document's chunks in the active collection match its content and current settings
+   */
+  isUpToDate(document: DocumentEntity): boolean {
+    const active = this.getActiveIndex();
+    const fingerprint = document.indexInfo?.[active.collection];
+
+    return (
+      document.status === 'completed' &&
+      !!document.contentHash &&
+      !!fingerprint &&
+      fingerprint.contentHash === document.contentHash &&
+      fingerprint.embeddingModel === active.embeddingModel &&
+      fingerprint.chunkSize === active.chunkSize &&
+      fingerprint.chunkOverlap === active.chunkOverlap
+    );
+  }
+
+  /**
+   * Record that a document was indexed into a collection
+   * (entries for collections that are neither active nor being built are dropped)
+   */
+  async recordIndexed(
+    documentId: string,
+    collection: string,
+    embeddingModel: string,
+    contentHash: string,
+  ): Promise<void> {
+    const document = await this.documentRepository.findOne({
+      where: { id: documentId },
+      select: ['id', 'indexInfo'],
+    });
+    if (!document) {
+      return;
+    }
+
+    const keep = new Set([this.vectorService.getCollectionName(), collection]);
+    const migration = await this.getRunningMigration();
+    if (migration) {
+      keep.add(migration.collection);
+    }
+
+    const indexInfo: Record<string, IndexFingerprint> = {};
+    for (const [name, fingerprint] of Object.entries(document.indexInfo || {})) {
+      if (keep.has(name)) {
+        indexInfo[name] = fingerprint;
+      }
+    }
+    indexInfo[collection] = {
+      embeddingModel,
+      ...this.ingestionService.getChunkingConfig(),
+      contentHash,
+      indexedAt: new Date().toISOString(),
+    };
+
+    await this.documentRepository.update(documentId, { indexInfo });
+  }
+
+  /**
+   * Check that a migration to the model can start; returns the shadow collection to build.
+   * Defaults to the embedding model configured for the provider.
+   */
+  async prepareMigration(
+    embeddingModel?: string,
+  ): Promise<{ collection: string; embeddingModel: string }> {
+    const target = embeddingModel || this.aiService.getDefaultEmbeddingModel();
+
+    if (target === this.aiService.getEmbeddingModel()) {
+      throw new BadRequestException(`Documents are already embedded with ${target}`);
+    }
+    if (await this.getRunningMigration()) {
+      throw new BadRequestException('An embedding migration is already running');
+    }
+
+    try {
+      await this.aiService.generateEmbedding('embedding model check', target);
+    } catch (error) {
+      throw new BadRequestException(`Embedding model ${target} is not usable: ${error.message}`);
+    }
+
+    const baseName = this.configService.get<string>('vector.collectionName');
+    return { collection: `${baseName}-v${Date.now().toString(36)}`, embeddingModel: target };
+  }
+
+  /**
+   * Start tracking a run; a run with nothing queued completes immediately
+   */
+  async createRun(
+    type: ReindexRunType,
+    fields: Partial<ReindexRunEntity> & { collection: string; embeddingModel: string },
+  ): Promise<ReindexRunEntity> {
+    const run = await this.runRepository.save(this.runRepository.create({ ...fields, type }));
+
+    if (run.queuedDocuments === 0) {
+      await this.finishRun(run);
+    }
+
+    return this.runRepository.findOne({ where: { id: run.id } });
+  }
+
+  /**
+   * Get a run started by the user
+   */
+  async getRun(runId: string, userId: string): Promise<ReindexRunEntity> {
+    const run = await this.runRepository.findOne({ where: { id: runId, userId } });
+
+    if (!run) {
+      throw new NotFoundException('Reindex run not found');
+    }
+
+    return run;
+  }
+
+  async getRunningMigration(): Promise<ReindexRunEntity | null> {
+    return this.runRepository.findOne({ where: { type: 'migration', status: 'running' } });
+  }
+
+  /**
+   * Count one queued document as processed or failed; finishes the run after the last one
+   */
+  async recordResult(runId: string, succeeded: boolean, error?: string): Promise<void> {
+    const counter = succeeded ? 'processedDocuments' : 'failedDocuments';
+
+    const result = await this.runRepository
+      .createQueryBuilder()
+      .update(ReindexRunEntity)
+      .set({
+        [counter]: () => `"${counter}" + 1`,
+        ...(error ? { lastError: error } : {}),
+      })
+      .where('id = :runId AND status = :status', { runId, status: 'running' })
+      .returning('*')
+      .execute();
+
+    const row = result.raw?.[0];
+    if (row && row.processedDocuments + row.failedDocuments >= row.queuedDocuments) {
+      await this.finishRun(this.runRepository.create(row as ReindexRunEntity));
+    }
+  }
+
+  /**
+   * Complete a run. A migration switches searches to its collection only if no document failed.
+   */
+  private async finishRun(run: ReindexRunEntity): Promise<void> {
+    const failed = run.failedDocuments > 0;
+
+    // Only one caller may finish the run
+    const { affected } = await this.runRepository.update(
+      { id: run.id, status: 'running' },
+      { status: failed ? 'failed' : 'completed', completedAt: new Date() },
+    );
+    if (!affected) {
+      return;
+    }
+
+    if (run.type !== 'migration') {
+      this.logger.log(
+        `✅ Reindex ${run.id} finished: ${run.processedDocuments} processed, ${run.failedDocuments} failed, ${run.skippedDocuments} unchanged`,
+      );
+      return;
+    }
+
+    if (failed) {
+      this.logger.error(
+        `❌ Migration ${run.id} to ${run.embeddingModel} failed for ${run.failedDocuments} documents - keeping ${run.previousCollection}`,
+      );
+      await this.dropCollection(run.collection);
+      return;
+    }
+
+    try {
+      await this.copyGeneratedChunks(run);
+      await this.vectorService.switchCollection(run.collection);
+      this.aiService.setEmbeddingModel(run.embeddingModel);
+      this.logger.log(`✅ Migration ${run.id} complete: now using ${run.embeddingModel}`);
+    } catch (error) {
+      await this.runRepository.update(run.id, { status: 'failed', lastError: error.message });
+      this.logger.error(`❌ Migration ${run.id} could not switch collections: ${error.message}`);
+      await this.dropCollection(run.collection);
+    }
+  }
+
+  /**
+   * Re-embed chunks that aren't tied to an uploaded document (e.g. AI-generated Q&A) into the
+   * shadow collection
+   */
+  private async copyGeneratedChunks(run: ReindexRunEntity): Promise<void> {
+    const chunks = await this.vectorService.getChunks({ sources: GENERATED_CHUNK_SOURCES });
+
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await this.aiService.generateEmbeddings(
+        batch.map((chunk) => chunk.content),
+        run.embeddingModel,
+      );
+      await this.vectorService.addDocuments(batch, embeddings, run.collection);
+    }
+
+    if (chunks.length > 0) {
+      this.logger.log(`Copied ${chunks.length} generated chunks to ${run.collection}`);
+    }
+  }
+
+  private async dropCollection(collection: string): Promise<void> {
+    try {
+      await this.vectorService.deleteCollection(collection);
+    } catch (error) {
+      this.logger.warn(`Failed to delete collection ${collection}: ${error.message}`);
+    }
+  }
+}
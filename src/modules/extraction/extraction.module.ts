@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ExtractionService } from './extraction.service';
+import { PdfExtractor } from './extractors/pdf.extractor';
+import { DocxExtractor } from './extractors/docx.extractor';
+import { DocExtractor } from './extractors/doc.extractor';
+import { SpreadsheetExtractor } from './extractors/spreadsheet.extractor';
+import { PptxExtractor } from './extractors/pptx.extractor';
+import { HtmlExtractor } from './extractors/html.extractor';
+import { TextExtractor } from './extractors/text.extractor';
+
+@Module({
+  providers: [
+    ExtractionService,
+    PdfExtractor,
+    DocxExtractor,
+    DocExtractor,
+    SpreadsheetExtractor,
+    PptxExtractor,
+    HtmlExtractor,
+    TextExtractor,
+  ],
+  exports: [ExtractionService],
+})
+export class ExtractionModule {}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DocumentExtractor, ExtractionResult } from './interfaces/document-extractor.interface';
+import { PdfExtractor } from './extractors/pdf.extractor';
+import { DocxExtractor } from './extractors/docx.extractor';
+import { DocExtractor } from './extractors/doc.extractor';
+import { SpreadsheetExtractor } from './extractors/spreadsheet.extractor';
+import { PptxExtractor } from './extractors/pptx.extractor';
+import { HtmlExtractor } from './extractors/html.extractor';
+import { TextExtractor } from './extractors/text.extractor';
+
+/**
+ * Extraction Service
+ * Registry of text extractors shared by document ingestion and chat attachments.
+ * Extractors are matched by MIME type first, then by file extension (for generic
+ * types such as application/octet-stream); any other text/* type is read as plain text.
+ */
+@Injectable()
+export class ExtractionService {
+  private readonly extractors: DocumentExtractor[];
+
+  constructor(
+    pdfExtractor: PdfExtractor,
+    docxExtractor: DocxExtractor,
+    docExtractor: DocExtractor,
+    spreadsheetExtractor: SpreadsheetExtractor,
+    pptxExtractor: PptxExtractor,
+    htmlExtractor: HtmlExtractor,
+    private textExtractor: TextExtractor,
+  ) {
+    this.extractors = [
+      pdfExtractor,
+      docxExtractor,
+      docExtractor,
+      spreadsheetExtractor,
+      pptxExtractor,
+      htmlExtractor,
+      textExtractor,
+    ];
+  }
+
+  /**
+   * Whether a file can be converted to text
+   */
+  supports(mimeType: string, fileName?: string): boolean {
+    return !!this.findExtractor(mimeType, fileName);
+  }
+
+  /**
+   * MIME types with a dedicated extractor
+   */
+  getSupportedMimeTypes(): string[] {
+    return this.extractors.flatMap((extractor) => extractor.mimeTypes);
+  }
+
+  /**
+   * Extract text from a file buffer
+   */
+  async extract(buffer: Buffer, mimeType: string, fileName?: string): Promise<ExtractionResult> {
+    const extractor = this.findExtractor(mimeType, fileName);
+
+    if (!extractor) {
+      throw new Error(`Unsupported file type: ${mimeType}`);
+    }
+
+    try {
+      return await extractor.extract(buffer, fileName);
+    } catch (error) {
+      throw new Error(`${extractor.name.toUpperCase()} extraction failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Extract text from a file on disk
+   */
+  async extractFromFile(
+    filePath: string,
+    mimeType: string,
+    fileName?: string,
+  ): Promise<ExtractionResult> {
+    const buffer = await fs.readFile(filePath);
+    return this.extract(buffer, mimeType, fileName || path.basename(filePath));
+  }
+
+  private findExtractor(mimeType: string, fileName?: string): DocumentExtractor | undefined {
+    const normalizedType = (mimeType || '').split(';')[0].trim().toLowerCase();
+
+    const byMimeType = this.extractors.find((extractor) =>
+      extractor.mimeTypes.includes(normalizedType),
+    );
+    if (byMimeType) {
+      return byMimeType;
+    }
+
+    if (fileName) {
+      const extension = path.extname(fileName).toLowerCase();
+      const byExtension = this.extractors.find((extractor) =>
+        extractor.extensions.includes(extension),
+      );
+      if (byExtension) {
+        return byExtension;
+      }
+    }
+
+    return normalizedType.startsWith('text/') ? this.textExtractor : undefined;
+  }
+}
@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+
+// Offsets in the File Information Block of the WordDocument stream ([MS-DOC] 2.5)
+const FIB_NFIB_OFFSET = 0x0002;
+const FIB_FLAGS_OFFSET = 0x000a;
+const FIB_FC_CLX_OFFSET = 0x01a2;
+const FIB_LCB_CLX_OFFSET = 0x01a6;
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+const NFIB_WORD_97 = 0x00c1;
+
+/**
+ * Legacy Word 97-2003 (.doc) files
+ * Reads the text through the document's piece table, which mammoth does not support.
+ */
+@Injectable()
+export class DocExtractor implements DocumentExtractor {
+  readonly name = 'doc';
+  readonly mimeTypes = ['application/msword'];
+  readonly extensions = ['.doc'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    const container = XLSX.CFB.read(buffer, { type: 'buffer' });
+    const wordDocument = this.readStream(container, 'WordDocument');
+
+    if (!wordDocument) {
+      throw new Error('Not a Word 97-2003 document');
+    }
+    if (wordDocument.readUInt16LE(FIB_NFIB_OFFSET) < NFIB_WORD_97) {
+      throw new Error('Word 6.0/95 documents are not supported');
+    }
+
+    const flags = wordDocument.readUInt16LE(FIB_FLAGS_OFFSET);
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error('Encrypted Word documents are not supported');
+    }
+
+    const table = this.readStream(container, flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table');
+    if (!table) {
+      throw new Error('Word document table stream is missing');
+    }
+
+    const fcClx = wordDocument.readUInt32LE(FIB_FC_CLX_OFFSET);
+    const lcbClx = wordDocument.readUInt32LE(FIB_LCB_CLX_OFFSET);
+    const clx = table.subarray(fcClx, fcClx + lcbClx);
+
+    return { text: this.cleanText(this.readPieces(wordDocument, clx)) };
+  }
+
+  /**
+   * Concatenate the text of every piece in the piece table (Clx → Pcdt → PlcPcd)
+   */
+  private readPieces(wordDocument: Buffer, clx: Buffer): string {
+    // Skip property modifiers (Prc) that precede the piece table
+    let position = 0;
+    while (clx[position] === 0x01) {
+      position += 3 + clx.readInt16LE(position + 1);
+    }
+
+    if (clx[position] !== 0x02) {
+      throw new Error('Word document piece table is invalid');
+    }
+
+    const length = clx.readUInt32LE(position + 1);
+    const plcPcd = clx.subarray(position + 5, position + 5 + length);
+    const pieceCount = (length - 4) / 12;
+    const windows1252 = new TextDecoder('windows-1252');
+
+    let text = '';
+    for (let i = 0; i < pieceCount; i++) {
+      const cpStart = plcPcd.readUInt32LE(i * 4);
+      const cpEnd = plcPcd.readUInt32LE((i + 1) * 4);
+      const fcValue = plcPcd.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2);
+      const characters = cpEnd - cpStart;
+
+      // Compressed pieces store one 8-bit character per CP at half the file offset
+      if (fcValue & 0x40000000) {
+        const offset = (fcValue & 0x3fffffff) / 2;
+        text += windows1252.decode(wordDocument.subarray(offset, offset + characters));
+      } else {
+        text += wordDocument.subarray(fcValue, fcValue + characters * 2).toString('utf16le');
+      }
+    }
+
+    return text;
+  }
+
+  /**
+   * Replace Word control characters and drop field instructions (keeping field results)
+   */
+  private cleanText(raw: string): string {
+    let text = '';
+    const fields: boolean[] = []; // true while inside a field's instruction part
+
+    for (const char of raw) {
+      if (char === '\x13') {
+        fields.push(true);
+      } else if (char === '\x14' && fields.length > 0) {
+        fields[fields.length - 1] = false;
+      } else if (char === '\x15' && fields.length > 0) {
+        fields.pop();
+      } else if (!fields.includes(true)) {
+        text += char;
+      }
+    }
+
+    return text
+      .replace(/\r|\x0b|\x0c/g, '\n')
+      .replace(/\x07/g, '\t')
+      .replace(/\x1e/g, '-')
+      .replace(/[\x00-\x08\x0e-\x1f]/g, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private readStream(container: any, name: string): Buffer | null {
+    const entry = XLSX.CFB.find(container, name);
+    return entry?.content ? Buffer.from(entry.content) : null;
+  }
+}
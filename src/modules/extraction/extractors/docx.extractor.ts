@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import * as mammoth from 'mammoth';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+
+@Injectable()
+export class DocxExtractor implements DocumentExtractor {
+  readonly name = 'docx';
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  readonly extensions = ['.docx'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    const result = await mammoth.extractRawText({ buffer });
+    return { text: result.value };
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+};
+
+/**
+ * Decode named and numeric HTML/XML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * HTML pages - visible text only, with block elements kept on separate lines
+ */
+@Injectable()
+export class HtmlExtractor implements DocumentExtractor {
+  readonly name = 'html';
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+  readonly extensions = ['.html', '.htm'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    const html = buffer.toString('utf-8');
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+    const body = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/(td|th)\s*>/gi, ' | ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(
+        /<\/?(p|div|section|article|header|footer|main|aside|nav|h[1-6]|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi,
+        '\n',
+      )
+      .replace(/<[^>]+>/g, '');
+
+    const lines = decodeEntities(body)
+      .split('\n')
+      .map((line) =>
+        line
+          .replace(/\s+/g, ' ')
+          .replace(/\s*\|\s*$/, '')
+          .trim(),
+      );
+
+    const text = lines
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return { text: title ? `${decodeEntities(title).trim()}\n\n${text}` : text };
+  }
+}
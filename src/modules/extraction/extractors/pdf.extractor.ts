@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import pdfParse from 'pdf-parse';
+import {
+  DocumentExtractor,
+  ExtractionResult,
+  PageOffset,
+} from '../interfaces/document-extractor.interface';
+
+const PAGE_SEPARATOR = '\n\n';
+
+@Injectable()
+export class PdfExtractor implements DocumentExtractor {
+  readonly name = 'pdf';
+  readonly mimeTypes = ['application/pdf'];
+  readonly extensions = ['.pdf'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    // pdf-parse renders pages one after another, so they arrive in page order
+    const pageTexts: string[] = [];
+    await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const text = await this.renderPage(pageData);
+        pageTexts.push(text);
+        return text;
+      },
+    });
+
+    const pages: PageOffset[] = [];
+    let offset = 0;
+    pageTexts.forEach((pageText, index) => {
+      pages.push({ pageNumber: index + 1, start: offset, end: offset + pageText.length });
+      offset += pageText.length + PAGE_SEPARATOR.length;
+    });
+
+    return { text: pageTexts.join(PAGE_SEPARATOR), pages };
+  }
+
+  /**
+   * Same text layout as pdf-parse's default renderer: items on one baseline are joined,
+   * a new baseline starts a new line
+   */
+  private async renderPage(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+
+    let lastY: number;
+    let text = '';
+    for (const item of textContent.items) {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+      lastY = item.transform[5];
+    }
+    return text;
+  }
+}
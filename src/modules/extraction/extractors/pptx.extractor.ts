@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+import { decodeEntities } from './html.extractor';
+
+/**
+ * PowerPoint presentations - slide text in slide order, one paragraph per line
+ */
+@Injectable()
+export class PptxExtractor implements DocumentExtractor {
+  readonly name = 'pptx';
+  readonly mimeTypes = [
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ];
+  readonly extensions = ['.pptx'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    // The CFB reader bundled with xlsx also reads ZIP containers
+    const archive = XLSX.CFB.read(buffer, { type: 'buffer' });
+
+    const slides: Array<{ number: number; xml: string }> = [];
+    archive.FullPaths.forEach((fullPath: string, index: number) => {
+      const match = fullPath.match(/ppt\/slides\/slide(\d+)\.xml$/);
+      if (match) {
+        slides.push({
+          number: parseInt(match[1], 10),
+          xml: Buffer.from(archive.FileIndex[index].content).toString('utf-8'),
+        });
+      }
+    });
+
+    if (slides.length === 0) {
+      throw new Error('No slides found in presentation');
+    }
+
+    const text = slides
+      .sort((a, b) => a.number - b.number)
+      .map((slide) => `=== Slide ${slide.number} ===\n${this.extractSlideText(slide.xml)}`)
+      .join('\n\n');
+
+    return { text };
+  }
+
+  private extractSlideText(xml: string): string {
+    return xml
+      .split(/<\/a:p>/)
+      .map((paragraph) =>
+        [...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g)]
+          .map((run) => decodeEntities(run[1]))
+          .join('')
+          .trim(),
+      )
+      .filter(Boolean)
+      .join('\n');
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+
+/**
+ * Excel and CSV files
+ * Every row becomes one self-describing line ("Header: value; Header: value"), so a chunk
+ * boundary never separates a value from its column name and rows are never split mid-way.
+ */
+@Injectable()
+export class SpreadsheetExtractor implements DocumentExtractor {
+  readonly name = 'spreadsheet';
+  readonly mimeTypes = [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+    'text/csv',
+    'application/csv',
+  ];
+  readonly extensions = ['.xlsx', '.xls', '.csv'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    // raw: keep CSV cells as written instead of guessing numbers and dates
+    const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+    const sections: string[] = [];
+
+    for (const sheetName of workbook.SheetNames) {
+      const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+        header: 1,
+        raw: false,
+        defval: '',
+        blankrows: false,
+      });
+
+      if (rows.length === 0) {
+        continue;
+      }
+
+      const lines = this.formatRows(rows);
+      if (workbook.SheetNames.length > 1) {
+        lines.unshift(`=== Sheet: ${sheetName} ===`);
+      }
+      sections.push(lines.join('\n'));
+    }
+
+    return { text: sections.join('\n\n') };
+  }
+
+  /**
+   * Label each cell with its column header (first row)
+   */
+  private formatRows(rows: string[][]): string[] {
+    const headers = rows[0].map((header, index) => String(header).trim() || `Column ${index + 1}`);
+
+    if (rows.length === 1) {
+      return [headers.join('; ')];
+    }
+
+    return rows.slice(1).map((row) =>
+      row
+        .map((cell, index) => {
+          const value = String(cell).trim();
+          return value ? `${headers[index] || `Column ${index + 1}`}: ${value}` : null;
+        })
+        .filter(Boolean)
+        .join('; '),
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { DocumentExtractor, ExtractionResult } from '../interfaces/document-extractor.interface';
+
+/**
+ * Plain text, Markdown, JSON and source files - read as UTF-8 as-is
+ */
+@Injectable()
+export class TextExtractor implements DocumentExtractor {
+  readonly name = 'text';
+  readonly mimeTypes = [
+    'text/plain',
+    'text/markdown',
+    'text/x-markdown',
+    'application/json',
+    'text/javascript',
+    'text/typescript',
+    'text/python',
+  ];
+  readonly extensions = ['.txt', '.md', '.markdown', '.json'];
+
+  async extract(buffer: Buffer): Promise<ExtractionResult> {
+    // Drop the UTF-8 byte order mark some editors write
+    return { text: buffer.toString('utf-8').replace(/^\uFEFF/, '') };
+  }
+}
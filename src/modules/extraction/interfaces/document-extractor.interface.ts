@@ -0,0 +1,26 @@
+export interface PageOffset {
+  pageNumber: number;
+  start: number; // Character offset of the page in the extracted text
+  end: number; // Exclusive
+}
+
+export interface ExtractionResult {
+  text: string;
+  pages?: PageOffset[]; // Paged formats (PDF) only
+}
+
+/**
+ * Contract implemented by every text extractor (one per family of file formats)
+ */
+export interface DocumentExtractor {
+  /** Short name used in logs */
+  readonly name: string;
+
+  /** MIME types handled by this extractor */
+  readonly mimeTypes: string[];
+
+  /** Lower-case file extensions (with dot), used when the MIME type is generic or missing */
+  readonly extensions: string[];
+
+  extract(buffer: Buffer, fileName?: string): Promise<ExtractionResult>;
+}
@@ -12,29 +12,41 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { FoldersService } from './folders.service';
+import { SharingService } from '../sharing/sharing.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ApiKeyScope } from '../../common/decorators/api-key-scope.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { User } from '../../common/interfaces/user.interface';
 import { CreateFolderDto } from './dto/create-folder.dto';
 import { UpdateFolderDto } from './dto/update-folder.dto';
 import { MoveItemsDto } from './dto/move-items.dto';
+import { ShareFolderDto } from '../sharing/dto/share-folder.dto';
 
 @ApiTags('folders')
 @Controller('folders')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class FoldersController {
-  constructor(private readonly foldersService: FoldersService) {}
+  constructor(
+    private readonly foldersService: FoldersService,
+    private readonly sharingService: SharingService,
+  ) {}
 
   @Post()
+  @ApiKeyScope('folders:write')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @ApiOperation({ summary: 'Create a new folder' })
   @ApiResponse({ status: 201, description: 'Folder created successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async createFolder(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Body() createFolderDto: CreateFolderDto,
   ) {
-    const folder = await this.foldersService.createFolder(userId, createFolderDto);
+    const folder = await this.foldersService.createFolder(user, createFolderDto);
     return {
       statusCode: HttpStatus.CREATED,
       message: 'Folder created successfully',
@@ -43,16 +55,17 @@ export class FoldersController {
   }
 
   @Get()
+  @ApiKeyScope('folders:read')
   @ApiOperation({ summary: 'Get root folders or folder tree' })
   @ApiResponse({ status: 200, description: 'Folders retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getRootFolders(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Query('tree') tree?: string,
   ) {
     const folders = tree
-      ? await this.foldersService.getFolderTree(userId)
-      : await this.foldersService.getRootFolders(userId);
+      ? await this.foldersService.getFolderTree(user)
+      : await this.foldersService.getRootFolders(user);
 
     return {
       statusCode: HttpStatus.OK,
@@ -65,10 +78,10 @@ export class FoldersController {
   @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async searchFolders(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Query('q') query: string,
   ) {
-    const folders = await this.foldersService.searchFolders(userId, query);
+    const folders = await this.foldersService.searchFolders(user, query);
     return {
       statusCode: HttpStatus.OK,
       data: folders,
@@ -76,16 +89,17 @@ export class FoldersController {
   }
 
   @Get('contents')
+  @ApiKeyScope('folders:read')
   @ApiOperation({ summary: 'Get folder contents (folders and documents)' })
   @ApiResponse({ status: 200, description: 'Contents retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getFolderContents(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Query('folderId') folderId?: string,
   ) {
     const contents = await this.foldersService.getFolderContents(
       folderId || null,
-      userId,
+      user,
     );
     return {
       statusCode: HttpStatus.OK,
@@ -93,16 +107,29 @@ export class FoldersController {
     };
   }
 
+  @Get('shared-with-me')
+  @ApiOperation({ summary: 'List folders shared with the user, their role or their franchise' })
+  @ApiResponse({ status: 200, description: 'Shared folders retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSharedWithMe(@CurrentUser() user: User) {
+    const shared = await this.sharingService.getSharedWithMe(user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: shared,
+    };
+  }
+
   @Get(':id')
+  @ApiKeyScope('folders:read')
   @ApiOperation({ summary: 'Get folder by ID' })
   @ApiResponse({ status: 200, description: 'Folder retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Folder not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getFolder(
     @Param('id') folderId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
   ) {
-    const folder = await this.foldersService.getFolder(folderId, userId);
+    const folder = await this.foldersService.getFolder(folderId, user);
     return {
       statusCode: HttpStatus.OK,
       data: folder,
@@ -116,28 +143,82 @@ export class FoldersController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getFolderPath(
     @Param('id') folderId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
   ) {
-    const path = await this.foldersService.getFolderPath(folderId, userId);
+    const path = await this.foldersService.getFolderPath(folderId, user);
     return {
       statusCode: HttpStatus.OK,
       data: { path },
     };
   }
 
+  @Get(':id/shares')
+  @ApiOperation({ summary: 'List shares of a folder' })
+  @ApiResponse({ status: 200, description: 'Shares retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Not allowed to manage shares of this folder' })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  async getShares(@Param('id') folderId: string, @CurrentUser() user: User) {
+    const shares = await this.sharingService.getShares(folderId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: shares,
+    };
+  }
+
+  @Post(':id/shares')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
+  @ApiOperation({
+    summary: 'Share a folder and its subtree with a user, role or franchise',
+    description: 'Sharing again with the same grantee changes the permission',
+  })
+  @ApiResponse({ status: 201, description: 'Folder shared successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid grantee' })
+  @ApiResponse({ status: 403, description: 'Not allowed to share this folder' })
+  @ApiResponse({ status: 404, description: 'Folder not found' })
+  async shareFolder(
+    @Param('id') folderId: string,
+    @CurrentUser() user: User,
+    @Body() shareFolderDto: ShareFolderDto,
+  ) {
+    const share = await this.sharingService.shareFolder(folderId, shareFolderDto, user);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Folder shared successfully',
+      data: share,
+    };
+  }
+
+  @Delete(':id/shares/:shareId')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
+  @ApiOperation({ summary: 'Revoke a folder share' })
+  @ApiResponse({ status: 200, description: 'Share revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Folder or share not found' })
+  async revokeShare(
+    @Param('id') folderId: string,
+    @Param('shareId') shareId: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.sharingService.revokeShare(folderId, shareId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Share revoked successfully',
+    };
+  }
+
   @Put(':id')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @ApiOperation({ summary: 'Update folder' })
   @ApiResponse({ status: 200, description: 'Folder updated successfully' })
   @ApiResponse({ status: 404, description: 'Folder not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async updateFolder(
     @Param('id') folderId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Body() updateFolderDto: UpdateFolderDto,
   ) {
     const folder = await this.foldersService.updateFolder(
       folderId,
-      userId,
+      user,
       updateFolderDto,
     );
     return {
@@ -148,6 +229,7 @@ export class FoldersController {
   }
 
   @Delete(':id')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @ApiOperation({ 
     summary: 'Delete folder',
     description: 'Delete a folder. Use ?force=true to recursively delete all contents (folders and documents)'
@@ -158,11 +240,11 @@ export class FoldersController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async deleteFolder(
     @Param('id') folderId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Query('force') force?: string,
   ) {
     const forceDelete = force === 'true';
-    await this.foldersService.deleteFolder(folderId, userId, forceDelete);
+    await this.foldersService.deleteFolder(folderId, user, forceDelete);
     return {
       statusCode: HttpStatus.OK,
       message: forceDelete 
@@ -172,15 +254,16 @@ export class FoldersController {
   }
 
   @Post('move')
+  @Roles(UserRole.FRANCHISOR, UserRole.FRANCHISE_OWNER)
   @ApiOperation({ summary: 'Move folders and/or documents to a target folder' })
   @ApiResponse({ status: 200, description: 'Items moved successfully' })
   @ApiResponse({ status: 400, description: 'Invalid request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async moveItems(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Body() moveItemsDto: MoveItemsDto,
   ) {
-    const result = await this.foldersService.moveItems(userId, moveItemsDto);
+    const result = await this.foldersService.moveItems(user, moveItemsDto);
     return {
       statusCode: HttpStatus.OK,
       message: 'Items moved successfully',
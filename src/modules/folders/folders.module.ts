@@ -5,11 +5,15 @@ import { FoldersService } from './folders.service';
 import { FolderEntity } from '../../entities/folder.entity';
 import { DocumentEntity } from '../../entities/document.entity';
 import { DocumentsModule } from '../documents/documents.module';
+import { VectorModule } from '../vector/vector.module';
+import { SharingModule } from '../sharing/sharing.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([FolderEntity, DocumentEntity]),
     forwardRef(() => DocumentsModule),
+    VectorModule,
+    SharingModule,
   ],
   controllers: [FoldersController],
   providers: [FoldersService],
@@ -1,12 +1,21 @@
 import { Injectable, Logger, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, IsNull, In } from 'typeorm';
+import { Repository, IsNull, In, ILike } from 'typeorm';
 import { FolderEntity } from '../../entities/folder.entity';
 import { DocumentEntity } from '../../entities/document.entity';
 import { CreateFolderDto } from './dto/create-folder.dto';
 import { UpdateFolderDto } from './dto/update-folder.dto';
 import { MoveItemsDto } from './dto/move-items.dto';
 import { DocumentsService } from '../documents/documents.service';
+import { VectorService } from '../vector/vector.service';
+import { SharingService } from '../sharing/sharing.service';
+import { User } from '../../common/interfaces/user.interface';
+import { assertPermission } from '../../common/utils/permissions';
+import {
+  canModifyTenantContent,
+  canReadTenantContent,
+  readableWhere,
+} from '../../common/utils/tenant-scope';
 
 @Injectable()
 export class FoldersService {
@@ -19,12 +28,17 @@ export class FoldersService {
     private documentRepository: Repository<DocumentEntity>,
     @Inject(forwardRef(() => DocumentsService))
     private documentsService: DocumentsService,
+    private vectorService: VectorService,
+    private sharingService: SharingService,
   ) {}
 
   /**
    * Create a new folder
    */
-  async createFolder(userId: string, createFolderDto: CreateFolderDto): Promise<FolderEntity> {
+  async createFolder(user: User, createFolderDto: CreateFolderDto): Promise<FolderEntity> {
+    const userId = user.id;
+    assertPermission(user, 'folders:write');
+
     try {
       // If parent folder is specified, validate it exists and belongs to user
       if (createFolderDto.parentId) {
@@ -40,6 +54,8 @@ export class FoldersService {
       const folder = this.folderRepository.create({
         ...createFolderDto,
         userId,
+        organizationId: user.organizationId || null,
+        franchiseId: user.franchiseId || null,
       });
 
       const savedFolder = await this.folderRepository.save(folder);
@@ -58,18 +74,26 @@ export class FoldersService {
   }
 
   /**
-   * Get folder by ID with children and documents
+   * Get folder by ID with children and documents (own and tenant folders, and folders shared
+   * with the user)
    */
-  async getFolder(folderId: string, userId: string): Promise<FolderEntity> {
+  async getFolder(folderId: string, user: User): Promise<FolderEntity> {
     const folder = await this.folderRepository.findOne({
-      where: { id: folderId, userId },
+      where: { id: folderId },
       relations: ['children', 'documents', 'parent'],
     });
+    const shared = folder ? await this.sharingService.getSharedPermission(folder.id, user) : null;
 
-    if (!folder) {
+    if (!folder || (!shared && !canReadTenantContent(user, folder))) {
       throw new NotFoundException('Folder not found');
     }
 
+    // Everything below a shared folder is shared with it
+    if (!shared) {
+      folder.children = folder.children?.filter((child) => canReadTenantContent(user, child));
+      folder.documents = folder.documents?.filter((doc) => canReadTenantContent(user, doc));
+    }
+
     // Update counts
     folder.documentCount = folder.documents?.length || 0;
     folder.folderCount = folder.children?.length || 0;
@@ -78,11 +102,11 @@ export class FoldersService {
   }
 
   /**
-   * Get all root folders for a user (folders without parent)
+   * Get all root folders the user can read (folders without parent)
    */
-  async getRootFolders(userId: string): Promise<FolderEntity[]> {
+  async getRootFolders(user: User): Promise<FolderEntity[]> {
     return this.folderRepository.find({
-      where: { userId, parentId: IsNull() },
+      where: readableWhere(user, { parentId: IsNull() }),
       relations: ['children', 'documents'],
       order: { name: 'ASC' },
     });
@@ -91,10 +115,10 @@ export class FoldersService {
   /**
    * Get folder tree hierarchy (all folders organized hierarchically)
    */
-  async getFolderTree(userId: string): Promise<FolderEntity[]> {
-    // Get all root folders for the user and load their children recursively
+  async getFolderTree(user: User): Promise<FolderEntity[]> {
+    // Get all root folders the user can read and load their children recursively
     const rootFolders = await this.folderRepository.find({
-      where: { userId, parentId: IsNull() },
+      where: readableWhere(user, { parentId: IsNull() }),
       relations: ['children', 'children.children', 'children.children.children'],
       order: { name: 'ASC' },
     });
@@ -105,7 +129,10 @@ export class FoldersService {
   /**
    * Get folder contents (subfolders and documents)
    */
-  async getFolderContents(folderId: string | null, userId: string): Promise<{
+  async getFolderContents(
+    folderId: string | null,
+    user: User,
+  ): Promise<{
     folders: FolderEntity[];
     documents: DocumentEntity[];
     breadcrumbs: Array<{ id: string; name: string }>;
@@ -116,17 +143,17 @@ export class FoldersService {
 
     if (folderId) {
       // Get specific folder contents
-      const folder = await this.getFolder(folderId, userId);
+      const folder = await this.getFolder(folderId, user);
       folders = folder.children || [];
       documents = folder.documents || [];
       
       // Build breadcrumbs
-      breadcrumbs = await this.buildBreadcrumbs(folderId, userId);
+      breadcrumbs = await this.buildBreadcrumbs(folderId, user);
     } else {
       // Get root level contents
-      folders = await this.getRootFolders(userId);
+      folders = await this.getRootFolders(user);
       documents = await this.documentRepository.find({
-        where: { userId, folderId: IsNull() },
+        where: readableWhere(user, { folderId: IsNull() }),
         order: { uploadedAt: 'DESC' },
       });
     }
@@ -140,22 +167,27 @@ export class FoldersService {
   }
 
   /**
-   * Build breadcrumb trail for a folder
+   * Build breadcrumb trail for a folder (up to the highest folder the user can see)
    */
   private async buildBreadcrumbs(
     folderId: string,
-    userId: string,
+    user: User,
   ): Promise<Array<{ id: string; name: string }>> {
     const breadcrumbs: Array<{ id: string; name: string }> = [];
     let currentFolderId: string | null = folderId;
 
     while (currentFolderId) {
       const folder = await this.folderRepository.findOne({
-        where: { id: currentFolderId, userId },
-        relations: ['parent'],
+        where: { id: currentFolderId },
       });
 
-      if (!folder) break;
+      if (
+        !folder ||
+        (!canReadTenantContent(user, folder) &&
+          !(await this.sharingService.getSharedPermission(folder.id, user)))
+      ) {
+        break;
+      }
 
       breadcrumbs.unshift({ id: folder.id, name: folder.name });
       currentFolderId = folder.parentId;
@@ -169,9 +201,12 @@ export class FoldersService {
    */
   async updateFolder(
     folderId: string,
-    userId: string,
+    user: User,
     updateFolderDto: UpdateFolderDto,
   ): Promise<FolderEntity> {
+    const userId = user.id;
+    assertPermission(user, 'folders:write');
+
     const folder = await this.folderRepository.findOne({
       where: { id: folderId, userId },
     });
@@ -223,7 +258,10 @@ export class FoldersService {
   /**
    * Delete folder (and optionally its contents recursively)
    */
-  async deleteFolder(folderId: string, userId: string, force: boolean = false): Promise<void> {
+  async deleteFolder(folderId: string, user: User, force: boolean = false): Promise<void> {
+    const userId = user.id;
+    assertPermission(user, 'folders:write');
+
     const folder = await this.folderRepository.findOne({
       where: { id: folderId, userId },
       relations: ['children', 'documents'],
@@ -235,7 +273,7 @@ export class FoldersService {
 
     // If force delete, recursively delete all contents
     if (force) {
-      await this.deleteFolderRecursively(folderId, userId);
+      await this.deleteFolderRecursively(folderId, user);
       this.logger.log(`Folder and all contents deleted recursively: ${folderId}`);
       return;
     }
@@ -261,9 +299,9 @@ export class FoldersService {
   /**
    * Recursively delete folder and all its contents
    */
-  private async deleteFolderRecursively(folderId: string, userId: string): Promise<void> {
+  private async deleteFolderRecursively(folderId: string, user: User): Promise<void> {
     const folder = await this.folderRepository.findOne({
-      where: { id: folderId, userId },
+      where: { id: folderId, userId: user.id },
       relations: ['children', 'documents'],
     });
 
@@ -278,7 +316,7 @@ export class FoldersService {
       for (const doc of folder.documents) {
         this.logger.log(`  Deleting document: ${doc.fileName}`);
         try {
-          await this.documentsService.deleteDocument(doc.id, userId);
+          await this.documentsService.deleteDocument(doc.id, user);
         } catch (error) {
           this.logger.error(`Failed to delete document ${doc.id}:`, error.message);
         }
@@ -288,7 +326,7 @@ export class FoldersService {
     // 2. Recursively delete all child folders
     if (folder.children && folder.children.length > 0) {
       for (const child of folder.children) {
-        await this.deleteFolderRecursively(child.id, userId);
+        await this.deleteFolderRecursively(child.id, user);
       }
     }
 
@@ -306,22 +344,30 @@ export class FoldersService {
 
   /**
    * Move folders and documents to a target folder
+   * (requires editor access to the target and to every moved item; other items are skipped)
    */
   async moveItems(
-    userId: string,
+    user: User,
     moveItemsDto: MoveItemsDto,
   ): Promise<{ success: boolean; movedFolders: number; movedDocuments: number }> {
+    assertPermission(user, 'folders:write');
+
     let movedFolders = 0;
     let movedDocuments = 0;
 
     // Validate target folder if specified
     if (moveItemsDto.targetFolderId) {
-      const targetFolder = await this.folderRepository.findOne({
-        where: { id: moveItemsDto.targetFolderId, userId },
-      });
-
-      if (!targetFolder) {
-        throw new BadRequestException('Target folder not found');
+      try {
+        await this.sharingService.assertFolderPermission(
+          moveItemsDto.targetFolderId,
+          user,
+          'editor',
+        );
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          throw new BadRequestException('Target folder not found');
+        }
+        throw error;
       }
     }
 
@@ -343,21 +389,37 @@ export class FoldersService {
           }
         }
 
-        await this.folderRepository.update(
-          { id: folderId, userId },
-          { parentId: moveItemsDto.targetFolderId || null },
-        );
+        const folder = await this.folderRepository.findOne({ where: { id: folderId } });
+        if (!folder || (await this.sharingService.getFolderPermission(folder, user)) !== 'editor') {
+          continue;
+        }
+
+        await this.folderRepository.update(folderId, {
+          parentId: moveItemsDto.targetFolderId || null,
+        });
         movedFolders++;
       }
     }
 
     // Move documents
     if (moveItemsDto.documentIds && moveItemsDto.documentIds.length > 0) {
-      const result = await this.documentRepository.update(
-        { id: In(moveItemsDto.documentIds), userId },
-        { folderId: moveItemsDto.targetFolderId || null },
-      );
-      movedDocuments = result.affected || 0;
+      const movedDocs = await this.getEditableDocuments(moveItemsDto.documentIds, user);
+
+      if (movedDocs.length > 0) {
+        const result = await this.documentRepository.update(
+          { id: In(movedDocs.map((doc) => doc.id)) },
+          { folderId: moveItemsDto.targetFolderId || null },
+        );
+        movedDocuments = result.affected || 0;
+      }
+
+      // Keep chunk metadata in sync so folder-scoped chat retrieval follows the move
+      // (ChromaDB metadata cannot hold null, so root level is stored as an empty string)
+      for (const doc of movedDocs) {
+        await this.vectorService.updateDocumentMetadata(doc.id, {
+          folderId: moveItemsDto.targetFolderId || '',
+        });
+      }
     }
 
     // Update folder counts
@@ -368,6 +430,34 @@ export class FoldersService {
     return { success: true, movedFolders, movedDocuments };
   }
 
+  /**
+   * Documents the user may change: through tenant rules or editor access to their folder
+   */
+  private async getEditableDocuments(documentIds: string[], user: User): Promise<DocumentEntity[]> {
+    const documents = await this.documentRepository.find({ where: { id: In(documentIds) } });
+    const folderPermissions = new Map<string, boolean>();
+    const editable: DocumentEntity[] = [];
+
+    for (const doc of documents) {
+      if (canModifyTenantContent(user, doc)) {
+        editable.push(doc);
+        continue;
+      }
+      if (!doc.folderId) {
+        continue;
+      }
+      if (!folderPermissions.has(doc.folderId)) {
+        const permission = await this.sharingService.getSharedPermission(doc.folderId, user);
+        folderPermissions.set(doc.folderId, permission === 'editor');
+      }
+      if (folderPermissions.get(doc.folderId)) {
+        editable.push(doc);
+      }
+    }
+
+    return editable;
+  }
+
   /**
    * Check if folder B is a descendant of folder A
    */
@@ -412,21 +502,22 @@ export class FoldersService {
   /**
    * Get folder path (full path from root to folder)
    */
-  async getFolderPath(folderId: string, userId: string): Promise<string> {
-    const breadcrumbs = await this.buildBreadcrumbs(folderId, userId);
+  async getFolderPath(folderId: string, user: User): Promise<string> {
+    const breadcrumbs = await this.buildBreadcrumbs(folderId, user);
     return '/' + breadcrumbs.map(b => b.name).join('/');
   }
 
   /**
    * Search folders by name
    */
-  async searchFolders(userId: string, query: string): Promise<FolderEntity[]> {
-    return this.folderRepository
-      .createQueryBuilder('folder')
-      .where('folder.userId = :userId', { userId })
-      .andWhere('LOWER(folder.name) LIKE LOWER(:query)', { query: `%${query}%` })
-      .orWhere('LOWER(folder.description) LIKE LOWER(:query)', { query: `%${query}%` })
-      .orderBy('folder.name', 'ASC')
-      .getMany();
+  async searchFolders(user: User, query: string): Promise<FolderEntity[]> {
+    const pattern = ILike(`%${query}%`);
+    return this.folderRepository.find({
+      where: [
+        ...readableWhere(user, { name: pattern }),
+        ...readableWhere(user, { description: pattern }),
+      ],
+      order: { name: 'ASC' },
+    });
   }
 }
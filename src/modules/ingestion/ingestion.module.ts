@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { IngestionService } from './ingestion.service';
 import { VectorModule } from '../vector/vector.module';
 import { ChatModule } from '../chat/chat.module';
+import { ExtractionModule } from '../extraction/extraction.module';
 
 @Module({
-  imports: [VectorModule, ChatModule],
+  imports: [VectorModule, ChatModule, ExtractionModule],
   providers: [IngestionService],
   exports: [IngestionService],
 })
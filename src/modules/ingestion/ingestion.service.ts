@@ -1,11 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
-import pdfParse from 'pdf-parse';
-import * as fs from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { VectorService, DocumentChunk } from '../vector/vector.service';
 import { AIService } from '../chat/services/ai.service';
+import { ExtractionService } from '../extraction/extraction.service';
+import { PageOffset } from '../extraction/interfaces/document-extractor.interface';
+
+export interface IndexTarget {
+  collection?: string; // Defaults to the active collection
+  embeddingModel?: string; // Defaults to the active embedding model
+}
 
 export interface ProcessedDocument {
   documentId: string;
@@ -13,6 +18,8 @@ export interface ProcessedDocument {
   totalChunks: number;
   status: 'success' | 'failed';
   message?: string;
+  extractedContent?: string; // Full extracted text (file ingestion only)
+  pages?: PageOffset[];
 }
 
 @Injectable()
@@ -26,6 +33,7 @@ export class IngestionService {
     private configService: ConfigService,
     private vectorService: VectorService,
     private aiService: AIService,
+    private extractionService: ExtractionService,
   ) {
     this.chunkSize = this.configService.get<number>('ingestion.chunkSize');
     this.chunkOverlap = this.configService.get<number>('ingestion.chunkOverlap');
@@ -38,13 +46,22 @@ export class IngestionService {
   }
 
   /**
-   * Process a document file (PDF or text)
+   * Chunking parameters new chunks are created with
+   */
+  getChunkingConfig(): { chunkSize: number; chunkOverlap: number } {
+    return { chunkSize: this.chunkSize, chunkOverlap: this.chunkOverlap };
+  }
+
+  /**
+   * Process a document file (any type supported by ExtractionService), given its path or contents
+   * additionalMetadata should carry userId and folderId so retrieval can be scoped
    */
   async processDocument(
-    filePath: string,
+    file: string | Buffer,
     fileName: string,
     mimeType: string,
     additionalMetadata?: Record<string, any>,
+    target: IndexTarget = {},
   ): Promise<ProcessedDocument> {
     const documentId = uuidv4();
 
@@ -52,12 +69,9 @@ export class IngestionService {
       this.logger.log(`Processing document: ${fileName} (${mimeType})`);
 
       // Extract text from file
-      let text: string;
-      if (mimeType === 'application/pdf') {
-        text = await this.extractTextFromPdf(filePath);
-      } else {
-        text = await this.extractTextFromFile(filePath);
-      }
+      const { text, pages } = Buffer.isBuffer(file)
+        ? await this.extractionService.extract(file, mimeType, fileName)
+        : await this.extractionService.extractFromFile(file, mimeType, fileName);
 
       if (!text || text.trim().length === 0) {
         throw new Error('No text content extracted from document');
@@ -69,7 +83,9 @@ export class IngestionService {
       const chunks = await this.splitText(text);
       this.logger.log(`Split into ${chunks.length} chunks`);
 
-      // Create document chunks with metadata
+      const pageNumbers = pages ? this.findChunkPages(text, chunks, pages) : [];
+
+      // Create document chunks with metadata (userId/folderId scope retrieval in chat)
       const documentChunks: DocumentChunk[] = chunks.map((content, index) => ({
         id: uuidv4(),
         content,
@@ -80,7 +96,8 @@ export class IngestionService {
           totalChunks: chunks.length,
           source: 'upload',
           uploadedAt: new Date().toISOString(),
-          ...additionalMetadata,
+          ...(pageNumbers[index] ? { pageNumber: pageNumbers[index] } : {}),
+          ...this.sanitizeMetadata(additionalMetadata),
         },
       }));
 
@@ -88,10 +105,11 @@ export class IngestionService {
       this.logger.log('Generating embeddings...');
       const embeddings = await this.aiService.generateEmbeddings(
         documentChunks.map((chunk) => chunk.content),
+        target.embeddingModel,
       );
 
       // Store in vector database
-      await this.vectorService.addDocuments(documentChunks, embeddings);
+      await this.vectorService.addDocuments(documentChunks, embeddings, target.collection);
 
       this.logger.log(`Successfully processed document: ${fileName}`);
 
@@ -100,9 +118,13 @@ export class IngestionService {
         fileName,
         totalChunks: chunks.length,
         status: 'success',
+        extractedContent: text,
+        pages,
       };
     } catch (error) {
       this.logger.error(`Failed to process document: ${fileName}`, error.stack);
+      // Drop whatever this run managed to write; chunks from earlier runs are untouched
+      await this.deleteDocument(documentId, target.collection);
       return {
         documentId,
         fileName,
@@ -145,7 +167,7 @@ export class IngestionService {
           totalChunks: chunks.length,
           source: 'text',
           processedAt: new Date().toISOString(),
-          ...additionalMetadata,
+          ...this.sanitizeMetadata(additionalMetadata),
         },
       }));
 
@@ -197,29 +219,35 @@ export class IngestionService {
   }
 
   /**
-   * Extract text from PDF file
+   * Page on which each chunk starts (0 when the chunk cannot be located in the text)
    */
-  private async extractTextFromPdf(filePath: string): Promise<string> {
-    try {
-      const dataBuffer = await fs.readFile(filePath);
-      const pdfData = await pdfParse(dataBuffer);
-      return pdfData.text;
-    } catch (error) {
-      this.logger.error('Failed to extract text from PDF', error.stack);
-      throw new Error(`PDF extraction failed: ${error.message}`);
-    }
+  private findChunkPages(text: string, chunks: string[], pages: PageOffset[]): number[] {
+    let searchFrom = 0;
+
+    return chunks.map((chunk) => {
+      const start = text.indexOf(chunk, searchFrom);
+      if (start === -1) {
+        return 0;
+      }
+
+      // Chunks overlap, so the next one starts after this one's start
+      searchFrom = start + 1;
+      const page = pages.find((p) => start < p.end) || pages[pages.length - 1];
+      return page.pageNumber;
+    });
   }
 
   /**
-   * Extract text from text file
+   * Drop null/undefined metadata values - ChromaDB only accepts string, number or boolean
    */
-  private async extractTextFromFile(filePath: string): Promise<string> {
-    try {
-      return await fs.readFile(filePath, 'utf-8');
-    } catch (error) {
-      this.logger.error('Failed to read text file', error.stack);
-      throw new Error(`File reading failed: ${error.message}`);
+  private sanitizeMetadata(metadata?: Record<string, any>): Record<string, any> {
+    if (!metadata) {
+      return {};
     }
+
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== null && value !== undefined),
+    );
   }
 
   /**
@@ -235,12 +263,28 @@ export class IngestionService {
     }
   }
 
+  /**
+   * Remove an uploaded document's chunks from runs other than currentDocumentId (the
+   * ProcessedDocument.documentId of the run that just succeeded)
+   */
+  async deleteStaleChunks(
+    uploadedDocumentId: string,
+    currentDocumentId: string,
+    collectionName?: string,
+  ): Promise<void> {
+    await this.vectorService.deleteStaleChunks(
+      uploadedDocumentId,
+      currentDocumentId,
+      collectionName,
+    );
+  }
+
   /**
    * Delete document from vector store
    */
-  async deleteDocument(documentId: string): Promise<void> {
+  async deleteDocument(documentId: string, collectionName?: string): Promise<void> {
     try {
-      await this.vectorService.deleteDocumentsByDocId(documentId);
+      await this.vectorService.deleteDocumentsByDocId(documentId, collectionName);
       this.logger.log(`Deleted document: ${documentId}`);
     } catch (error) {
       this.logger.error(`Failed to delete document: ${documentId}`, error.stack);
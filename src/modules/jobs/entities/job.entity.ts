@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+@Entity('jobs')
+@Index(['status', 'runAt'])
+@Index(['documentId', 'createdAt'])
+@Index(['userId', 'createdAt'])
+export class JobEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  type: string; // e.g. 'document.ingest'
+
+  @Column({ type: 'varchar', length: 50, default: 'queued' })
+  status: JobStatus;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  documentId: string; // Document the job works on, if any
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: Record<string, any>;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Incremented each time a worker claims the job
+
+  @Column({ type: 'int', default: 3 })
+  maxAttempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  runAt: Date; // Not picked up before this time (retry backoff)
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt: Date; // Heartbeat of the worker running the job
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+}
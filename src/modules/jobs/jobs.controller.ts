@@ -0,0 +1,56 @@
+import { Controller, Get, Param, Query, UseGuards, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { JobStatus } from './entities/job.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('jobs')
+@Controller('jobs')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List background jobs of the current user' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['queued', 'processing', 'completed', 'failed'],
+  })
+  @ApiQuery({ name: 'type', required: false, example: 'document.ingest' })
+  @ApiQuery({ name: 'limit', required: false, example: 50 })
+  @ApiResponse({ status: 200, description: 'Jobs retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getJobs(
+    @CurrentUser('id') userId: string,
+    @Query('status') status?: JobStatus,
+    @Query('type') type?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const jobs = await this.jobsService.getJobs(userId, {
+      status,
+      type,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return {
+      statusCode: HttpStatus.OK,
+      data: jobs,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a background job by ID' })
+  @ApiResponse({ status: 200, description: 'Job retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getJob(@CurrentUser('id') userId: string, @Param('id') jobId: string) {
+    const job = await this.jobsService.getJob(jobId, userId);
+    return {
+      statusCode: HttpStatus.OK,
+      data: job,
+    };
+  }
+}
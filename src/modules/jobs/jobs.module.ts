@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { JobEntity } from './entities/job.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([JobEntity])],
+  controllers: [JobsController],
+  providers: [JobsService],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { JobEntity } from './entities/job.entity';
+import { JobHandler, JobsService } from './jobs.service';
+import { InMemoryRepository } from '../../common/testing/in-memory-repository';
+
+describe('JobsService', () => {
+  const now = Date.UTC(2024, 0, 1);
+  let repository: InMemoryRepository<JobEntity>;
+  let service: JobsService;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    repository = new InMemoryRepository<JobEntity>();
+    service = new JobsService(
+      repository as any,
+      new ConfigService({
+        jobs: {
+          enabled: false,
+          concurrency: 1,
+          pollIntervalMs: 1000,
+          maxAttempts: 3,
+          backoffMs: 5000,
+          lockTimeoutMs: 60000,
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /** Store a job as claimed by a worker for the given attempt and run it */
+  async function runAttempt(handler: JobHandler, attempts: number): Promise<JobEntity> {
+    service.registerHandler('test', handler);
+    const job = await repository.save(
+      repository.create({
+        type: 'test',
+        payload: {},
+        status: 'processing',
+        attempts,
+        maxAttempts: 3,
+        runAt: new Date(now),
+      }),
+    );
+
+    await service['runJob'](job);
+    return repository.findOne({ where: { id: job.id } });
+  }
+
+  const failing: JobHandler = {
+    handle: async () => {
+      throw new Error('boom');
+    },
+  };
+
+  it('records the result of a successful job', async () => {
+    const job = await runAttempt({ handle: async () => ({ chunks: 3 }) }, 1);
+
+    expect(job.status).toBe('completed');
+    expect(job.result).toEqual({ chunks: 3 });
+    expect(job.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('retries a failed attempt after the base backoff', async () => {
+    const job = await runAttempt(failing, 1);
+
+    expect(job.status).toBe('queued');
+    expect(job.lastError).toBe('boom');
+    expect(job.runAt.getTime()).toBe(now + 5000);
+  });
+
+  it('doubles the backoff with each attempt', async () => {
+    const job = await runAttempt(failing, 2);
+
+    expect(job.status).toBe('queued');
+    expect(job.runAt.getTime()).toBe(now + 10000);
+  });
+
+  it('fails the job after its last attempt and calls the failure hook', async () => {
+    const onFailed = jest.fn();
+    const job = await runAttempt({ ...failing, onFailed }, 3);
+
+    expect(job.status).toBe('failed');
+    expect(job.lastError).toBe('boom');
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id }),
+      expect.any(Error),
+    );
+  });
+});
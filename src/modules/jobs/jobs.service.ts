@@ -0,0 +1,354 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { JobEntity, JobStatus } from './entities/job.entity';
+
+export interface JobHandler {
+  /** Run the job; throw to fail the attempt. The returned value is stored as the job result */
+  handle(job: JobEntity): Promise<Record<string, any> | void>;
+  /** Called once the job has failed its last attempt */
+  onFailed?(job: JobEntity, error: Error): Promise<void>;
+}
+
+export interface EnqueueJobOptions {
+  userId?: string;
+  documentId?: string;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Jobs Service
+ * Postgres-backed job queue: jobs survive restarts, are claimed with SKIP LOCKED so several
+ * app instances can share the table, and failed attempts are retried with exponential backoff.
+ * Jobs whose worker stops heartbeating (crash, restart) are picked up again after jobs.lockTimeoutMs.
+ */
+@Injectable()
+export class JobsService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly runningJobs = new Set<Promise<void>>();
+  private readonly enabled: boolean;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly lockTimeoutMs: number;
+  private pollTimer: NodeJS.Timeout;
+  private polling = false;
+  private stopped = true;
+  private lastRecoveryAt = 0;
+
+  constructor(
+    @InjectRepository(JobEntity)
+    private jobRepository: Repository<JobEntity>,
+    private configService: ConfigService,
+  ) {
+    this.enabled = this.configService.get<boolean>('jobs.enabled');
+    this.concurrency = this.configService.get<number>('jobs.concurrency');
+    this.pollIntervalMs = this.configService.get<number>('jobs.pollIntervalMs');
+    this.maxAttempts = this.configService.get<number>('jobs.maxAttempts');
+    this.backoffMs = this.configService.get<number>('jobs.backoffMs');
+    this.lockTimeoutMs = this.configService.get<number>('jobs.lockTimeoutMs');
+  }
+
+  /**
+   * Start workers once every module has registered its handlers
+   */
+  async onApplicationBootstrap() {
+    if (!this.enabled) {
+      this.logger.warn('⚠️  Job workers disabled in this process (JOBS_ENABLED=false)');
+      return;
+    }
+
+    this.stopped = false;
+    await this.recoverStaleJobs();
+
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.logger.log(
+      `✅ Job workers started (concurrency: ${this.concurrency}, handlers: ${[...this.handlers.keys()].join(', ')})`,
+    );
+
+    this.poll();
+  }
+
+  /**
+   * Stop polling and let in-flight jobs finish
+   */
+  async onApplicationShutdown() {
+    this.stopped = true;
+    clearInterval(this.pollTimer);
+
+    if (this.runningJobs.size > 0) {
+      this.logger.log(`Waiting for ${this.runningJobs.size} running jobs to finish...`);
+      await Promise.allSettled([...this.runningJobs]);
+    }
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue(
+    type: string,
+    payload: Record<string, any> = {},
+    options: EnqueueJobOptions = {},
+  ): Promise<JobEntity> {
+    const job = this.jobRepository.create({
+      type,
+      payload,
+      userId: options.userId || null,
+      documentId: options.documentId || null,
+      maxAttempts: options.maxAttempts || this.maxAttempts,
+      runAt: new Date(Date.now() + (options.delayMs || 0)),
+      status: 'queued',
+    });
+
+    const savedJob = await this.jobRepository.save(job);
+    this.logger.log(`Queued job ${savedJob.id} (${type})`);
+
+    // Pick it up right away instead of waiting for the next poll
+    setImmediate(() => this.poll());
+
+    return savedJob;
+  }
+
+  /**
+   * Get a job owned by a user
+   */
+  async getJob(jobId: string, userId: string): Promise<JobEntity> {
+    const job = await this.jobRepository.findOne({ where: { id: jobId, userId } });
+
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * List a user's jobs, newest first
+   */
+  async getJobs(
+    userId: string,
+    filter: { status?: JobStatus; type?: string; limit?: number } = {},
+  ): Promise<JobEntity[]> {
+    const where: any = { userId };
+    if (filter.status) {
+      where.status = filter.status;
+    }
+    if (filter.type) {
+      where.type = filter.type;
+    }
+
+    return this.jobRepository.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: Math.min(filter.limit || 50, 200),
+    });
+  }
+
+  /**
+   * List the jobs of a document, newest first
+   */
+  async getDocumentJobs(documentId: string): Promise<JobEntity[]> {
+    return this.jobRepository.find({
+      where: { documentId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Whether a document already has a queued or running job (optionally of one type)
+   */
+  async hasActiveJob(documentId: string, type?: string): Promise<boolean> {
+    const where: any = { documentId, status: In(['queued', 'processing']) };
+    if (type) {
+      where.type = type;
+    }
+
+    const count = await this.jobRepository.count({ where });
+    return count > 0;
+  }
+
+  /**
+   * Whether a job of this type is queued, running or completed (for one-off jobs)
+   */
+  async hasJobOfType(type: string): Promise<boolean> {
+    const count = await this.jobRepository.count({
+      where: { type, status: In(['queued', 'processing', 'completed']) },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Claim and start jobs until the concurrency limit is reached or the queue is empty
+   */
+  private async poll(): Promise<void> {
+    if (this.stopped || this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      if (Date.now() - this.lastRecoveryAt > this.lockTimeoutMs / 2) {
+        await this.recoverStaleJobs();
+      }
+
+      while (!this.stopped && this.runningJobs.size < this.concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) {
+          break;
+        }
+
+        const running = this.runJob(job).finally(() => {
+          this.runningJobs.delete(running);
+          setImmediate(() => this.poll());
+        });
+        this.runningJobs.add(running);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to poll job queue: ${error.message}`, error.stack);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Atomically mark the next due job as processing (safe across instances)
+   */
+  private async claimNextJob(): Promise<JobEntity | null> {
+    const types = [...this.handlers.keys()];
+    if (types.length === 0) {
+      return null;
+    }
+
+    const now = new Date();
+    const [rows] = await this.jobRepository.query(
+      `UPDATE "jobs"
+       SET "status" = 'processing', "attempts" = "attempts" + 1, "lockedAt" = $1, "startedAt" = $1
+       WHERE "id" = (
+         SELECT "id" FROM "jobs"
+         WHERE "status" = 'queued' AND "runAt" <= $1 AND "type" = ANY($2)
+         ORDER BY "runAt" ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING "id"`,
+      [now, types],
+    );
+
+    if (!rows || rows.length === 0) {
+      return null;
+    }
+
+    return this.jobRepository.findOne({ where: { id: rows[0].id } });
+  }
+
+  /**
+   * Run a claimed job, then record success, schedule a retry or mark it failed
+   */
+  private async runJob(job: JobEntity): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    const heartbeat = setInterval(
+      () =>
+        this.jobRepository
+          .update({ id: job.id, status: 'processing' }, { lockedAt: new Date() })
+          .catch((error) => this.logger.warn(`Job heartbeat failed: ${error.message}`)),
+      this.lockTimeoutMs / 3,
+    );
+
+    this.logger.log(
+      `▶️  Running job ${job.id} (${job.type}, attempt ${job.attempts}/${job.maxAttempts})`,
+    );
+
+    try {
+      const result = await handler.handle(job);
+
+      await this.jobRepository.update(job.id, {
+        status: 'completed',
+        result: result || null,
+        lastError: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      this.logger.log(`✅ Job ${job.id} completed`);
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async handleFailure(job: JobEntity, error: Error): Promise<void> {
+    if (job.attempts < job.maxAttempts) {
+      const delayMs = this.backoffMs * Math.pow(2, job.attempts - 1);
+
+      await this.jobRepository.update(job.id, {
+        status: 'queued',
+        lastError: error.message,
+        lockedAt: null,
+        runAt: new Date(Date.now() + delayMs),
+      });
+      this.logger.warn(
+        `⚠️  Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms: ${error.message}`,
+      );
+      return;
+    }
+
+    await this.jobRepository.update(job.id, {
+      status: 'failed',
+      lastError: error.message,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+    this.logger.error(`❌ Job ${job.id} failed after ${job.attempts} attempts: ${error.message}`);
+
+    try {
+      await this.handlers.get(job.type)?.onFailed?.(job, error);
+    } catch (hookError) {
+      this.logger.error(`Failure handler for job ${job.id} threw: ${hookError.message}`);
+    }
+  }
+
+  /**
+   * Requeue processing jobs whose worker stopped heartbeating (e.g. the app restarted mid-job)
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    this.lastRecoveryAt = Date.now();
+
+    const staleJobs = await this.jobRepository.find({
+      where: {
+        status: 'processing',
+        lockedAt: LessThan(new Date(Date.now() - this.lockTimeoutMs)),
+      },
+    });
+
+    for (const job of staleJobs) {
+      // Another instance may be recovering the same job
+      const { affected } = await this.jobRepository.update(
+        { id: job.id, status: 'processing', lockedAt: job.lockedAt },
+        { lockedAt: new Date() },
+      );
+      if (!affected) {
+        continue;
+      }
+
+      this.logger.warn(`Recovering stale job ${job.id} (${job.type})`);
+      await this.handleFailure(job, new Error('Worker stopped while processing the job'));
+    }
+  }
+}
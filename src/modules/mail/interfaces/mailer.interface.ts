@@ -0,0 +1,19 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Contract implemented by every mail transport (mail.provider)
+ */
+export interface Mailer {
+  /** Transport name as used in configuration (mail.provider) */
+  readonly name: string;
+
+  /** Prepare the transport (connect, create directories); throws if unusable */
+  initialize(): Promise<void>;
+
+  send(message: MailMessage): Promise<void>;
+}
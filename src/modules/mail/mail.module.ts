@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import { SmtpMailer } from './transports/smtp.mailer';
+import { FileMailer } from './transports/file.mailer';
+
+@Module({
+  providers: [MailService, SmtpMailer, FileMailer],
+  exports: [MailService],
+})
+export class MailModule {}
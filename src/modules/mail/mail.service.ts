@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Mailer, MailMessage } from './interfaces/mailer.interface';
+import { SmtpMailer } from './transports/smtp.mailer';
+import { FileMailer } from './transports/file.mailer';
+
+/**
+ * Mail Service
+ * Delegates to the mail transport selected by mail.provider (smtp or file)
+ */
+@Injectable()
+export class MailService implements OnModuleInit {
+  private readonly logger = new Logger(MailService.name);
+  private readonly mailer: Mailer;
+
+  constructor(
+    private configService: ConfigService,
+    smtpMailer: SmtpMailer,
+    fileMailer: FileMailer,
+  ) {
+    const provider = this.configService.get<string>('mail.provider');
+    const transports: Mailer[] = [smtpMailer, fileMailer];
+    this.mailer = transports.find((transport) => transport.name === provider);
+
+    if (!this.mailer) {
+      throw new Error(
+        `Unknown mail provider "${provider}". Available: ${transports.map((t) => t.name).join(', ')}`,
+      );
+    }
+  }
+
+  async onModuleInit() {
+    try {
+      await this.mailer.initialize();
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to initialize mail transport (${this.mailer.name})`,
+        error.message,
+      );
+      this.logger.warn('⚠️  Emails will fail until the mail transport is reachable.');
+    }
+  }
+
+  /**
+   * Link into the web app, e.g. appLink('/reset-password', { token })
+   */
+  appLink(pathName: string, query: Record<string, string>): string {
+    const baseUrl = this.configService.get<string>('mail.appUrl');
+    return `${baseUrl}${pathName}?${new URLSearchParams(query).toString()}`;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.mailer.send(message);
+  }
+}
+
+// Re-export types for convenience
+export { MailMessage };
@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Mailer, MailMessage } from '../interfaces/mailer.interface';
+
+/**
+ * Local testing: writes each message to mail.outputDir as JSON and logs it instead of sending
+ */
+@Injectable()
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileMailer.name);
+  private outputDir: string;
+
+  constructor(private configService: ConfigService) {}
+
+  async initialize(): Promise<void> {
+    this.outputDir = path.resolve(this.configService.get<string>('mail.outputDir'));
+    await fs.mkdir(this.outputDir, { recursive: true });
+    this.logger.log(`✅ Writing outgoing mail to: ${this.outputDir}`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${message.to}.json`;
+
+    await fs.writeFile(
+      path.join(this.outputDir, fileName),
+      JSON.stringify(
+        { from: this.configService.get<string>('mail.from'), ...message, sentAt },
+        null,
+        2,
+      ),
+    );
+    this.logger.log(`📧 Mail to ${message.to}: "${message.subject}"\n${message.text}`);
+  }
+}
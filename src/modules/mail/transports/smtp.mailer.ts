@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { Mailer, MailMessage } from '../interfaces/mailer.interface';
+
+/**
+ * Sends mail through an SMTP server
+ */
+@Injectable()
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpMailer.name);
+  private transporter: nodemailer.Transporter;
+
+  constructor(private configService: ConfigService) {}
+
+  async initialize(): Promise<void> {
+    const host = this.configService.get<string>('mail.smtpHost');
+    if (!host) {
+      throw new Error('SMTP_HOST must be set when MAIL_PROVIDER=smtp');
+    }
+
+    const user = this.configService.get<string>('mail.smtpUser');
+    this.transporter = nodemailer.createTransport({
+      host,
+      port: this.configService.get<number>('mail.smtpPort'),
+      secure: this.configService.get<boolean>('mail.smtpSecure'),
+      auth: user ? { user, pass: this.configService.get<string>('mail.smtpPassword') } : undefined,
+    });
+
+    await this.transporter.verify();
+    this.logger.log(`✅ Sending mail through SMTP server: ${host}`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.configService.get<string>('mail.from'),
+      ...message,
+    });
+  }
+}
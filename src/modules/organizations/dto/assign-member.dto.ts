@@ -0,0 +1,11 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AssignMemberDto {
+  @ApiPropertyOptional({
+    description: 'Franchise (outlet) of the organization; omit to make the user an HQ member',
+  })
+  @IsUUID()
+  @IsOptional()
+  franchiseId?: string;
+}
@@ -0,0 +1,15 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateFranchiseDto {
+  @ApiProperty({ description: 'Outlet name', example: 'Acme Coffee Downtown' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Outlet code', example: 'DT-001' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  code?: string;
+}
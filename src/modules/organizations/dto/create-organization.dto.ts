@@ -0,0 +1,9 @@
+import { IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateOrganizationDto {
+  @ApiProperty({ description: 'Franchisor name', example: 'Acme Coffee' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+}
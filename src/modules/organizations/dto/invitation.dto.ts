@@ -0,0 +1,28 @@
+import { IsBoolean, IsEmail, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateInvitationDto {
+  @ApiProperty({ description: 'Email of the user to invite', example: 'owner@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Franchise (outlet) of the organization; omit to invite to HQ',
+  })
+  @IsUUID()
+  @IsOptional()
+  franchiseId?: string;
+}
+
+export class AcceptInvitationDto {
+  @ApiPropertyOptional({
+    description:
+      'Move your existing documents, folders and cached answers into the organization, where ' +
+      'other members can read them (by default they stay private)',
+    example: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  moveContent?: boolean;
+}
@@ -0,0 +1,25 @@
+import { IsBoolean, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateOrganizationSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Queue answers generated without knowledge base context for review, and use approved ones',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  selfLearningEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum similarity (0.5-1) for a cached answer to be reused; null restores the default',
+    example: 0.9,
+    nullable: true,
+  })
+  @IsNumber()
+  @Min(0.5)
+  @Max(1)
+  @IsOptional()
+  cacheSimilarityThreshold?: number | null;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { OrganizationEntity } from '../../../entities/organization.entity';
+
+export const INVITATION_STATUSES = ['pending', 'accepted', 'declined', 'revoked'] as const;
+export type InvitationStatus = (typeof INVITATION_STATUSES)[number];
+
+/**
+ * Invitation of a user (by email) to join an organization's HQ or one of its franchises.
+ * Membership only starts when the invited user accepts.
+ */
+@Entity('organization_invitations')
+@Index(['email', 'status'])
+@Index(['organizationId', 'status'])
+export class OrganizationInvitationEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  organizationId: string;
+
+  @ManyToOne(() => OrganizationEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  franchiseId: string; // Null: HQ membership
+
+  @Column({ type: 'varchar', length: 255 })
+  email: string; // Lowercased
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: InvitationStatus;
+
+  @Column({ type: 'varchar', length: 255 })
+  invitedBy: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  respondedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
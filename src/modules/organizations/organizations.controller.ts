@@ -0,0 +1,268 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { OrganizationsService } from './organizations.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { User } from '../../common/interfaces/user.interface';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { CreateFranchiseDto } from './dto/create-franchise.dto';
+import { AssignMemberDto } from './dto/assign-member.dto';
+import { UpdateOrganizationSettingsDto } from './dto/update-organization-settings.dto';
+import { AcceptInvitationDto, CreateInvitationDto } from './dto/invitation.dto';
+
+@ApiTags('organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @Roles(UserRole.PLATFORM_ADMIN)
+  @ApiOperation({ summary: 'Create an organization (franchisor) (platform admin)' })
+  @ApiResponse({ status: 201, description: 'Organization created successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async createOrganization(@Body() dto: CreateOrganizationDto) {
+    const organization = await this.organizationsService.createOrganization(dto);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Organization created successfully',
+      data: organization,
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List organizations (all for platform admins, otherwise the user's)" })
+  @ApiResponse({ status: 200, description: 'Organizations retrieved successfully' })
+  async getOrganizations(@CurrentUser() user: User) {
+    const organizations = await this.organizationsService.getOrganizations(user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: organizations,
+    };
+  }
+
+  @Get('invitations')
+  @ApiOperation({ summary: 'List pending invitations addressed to you' })
+  @ApiResponse({ status: 200, description: 'Invitations retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
+  async getMyInvitations(@CurrentUser() user: User) {
+    const invitations = await this.organizationsService.getMyInvitations(user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: invitations,
+    };
+  }
+
+  @Post('invitations/:invitationId/accept')
+  @ApiOperation({
+    summary: 'Accept an invitation and join the organization',
+    description:
+      'Your existing documents, folders and cached answers stay private unless moveContent is true',
+  })
+  @ApiResponse({ status: 200, description: 'Invitation accepted' })
+  @ApiResponse({ status: 400, description: 'You belong to another organization' })
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async acceptInvitation(
+    @Param('invitationId') invitationId: string,
+    @Body() dto: AcceptInvitationDto,
+    @CurrentUser() user: User,
+  ) {
+    const member = await this.organizationsService.acceptInvitation(
+      invitationId,
+      user,
+      dto.moveContent,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Invitation accepted',
+      data: member,
+    };
+  }
+
+  @Post('invitations/:invitationId/decline')
+  @ApiOperation({ summary: 'Decline an invitation' })
+  @ApiResponse({ status: 200, description: 'Invitation declined' })
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async declineInvitation(@Param('invitationId') invitationId: string, @CurrentUser() user: User) {
+    await this.organizationsService.declineInvitation(invitationId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Invitation declined',
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an organization with its franchises' })
+  @ApiResponse({ status: 200, description: 'Organization retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async getOrganization(@Param('id') id: string, @CurrentUser() user: User) {
+    const organization = await this.organizationsService.getOrganization(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: organization,
+    };
+  }
+
+  @Patch(':id/settings')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'Update organization settings (e.g. self-learning)' })
+  @ApiResponse({ status: 200, description: 'Settings updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async updateSettings(
+    @Param('id') id: string,
+    @Body() dto: UpdateOrganizationSettingsDto,
+    @CurrentUser() user: User,
+  ) {
+    const organization = await this.organizationsService.updateSettings(id, dto, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Settings updated successfully',
+      data: organization,
+    };
+  }
+
+  @Post(':id/franchises')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'Add a franchise (outlet) to an organization' })
+  @ApiResponse({ status: 201, description: 'Franchise created successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async createFranchise(
+    @Param('id') id: string,
+    @Body() dto: CreateFranchiseDto,
+    @CurrentUser() user: User,
+  ) {
+    const franchise = await this.organizationsService.createFranchise(id, dto, user);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Franchise created successfully',
+      data: franchise,
+    };
+  }
+
+  @Get(':id/members')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'List members of an organization' })
+  @ApiResponse({ status: 200, description: 'Members retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getMembers(@Param('id') id: string, @CurrentUser() user: User) {
+    const members = await this.organizationsService.getMembers(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: members,
+    };
+  }
+
+  @Post(':id/invitations')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'Invite a user (by email) to HQ or one of the franchises' })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async createInvitation(
+    @Param('id') id: string,
+    @Body() dto: CreateInvitationDto,
+    @CurrentUser() user: User,
+  ) {
+    const invitation = await this.organizationsService.createInvitation(id, dto, user);
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Invitation sent',
+      data: invitation,
+    };
+  }
+
+  @Get(':id/invitations')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'List pending invitations of an organization' })
+  @ApiResponse({ status: 200, description: 'Invitations retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getInvitations(@Param('id') id: string, @CurrentUser() user: User) {
+    const invitations = await this.organizationsService.getInvitations(id, user);
+    return {
+      statusCode: HttpStatus.OK,
+      data: invitations,
+    };
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async revokeInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.organizationsService.revokeInvitation(id, invitationId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Invitation revoked',
+    };
+  }
+
+  @Put(':id/members/:userId')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({
+    summary: 'Move a member between HQ and franchises (platform admins: assign any user)',
+    description:
+      'Franchisors can only reassign their own members; other users join through invitations. ' +
+      'Content the user already owns is not moved.',
+  })
+  @ApiResponse({ status: 200, description: 'Member assigned successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'User or organization not found' })
+  async assignMember(
+    @Param('id') id: string,
+    @Param('userId') memberId: string,
+    @Body() dto: AssignMemberDto,
+    @CurrentUser() user: User,
+  ) {
+    const member = await this.organizationsService.assignMember(
+      id,
+      memberId,
+      dto.franchiseId,
+      user,
+    );
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Member assigned successfully',
+      data: member,
+    };
+  }
+
+  @Delete(':id/members/:userId')
+  @Roles(UserRole.FRANCHISOR)
+  @ApiOperation({ summary: 'Remove a user from an organization' })
+  @ApiResponse({ status: 200, description: 'Member removed successfully' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  async removeMember(
+    @Param('id') id: string,
+    @Param('userId') memberId: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.organizationsService.removeMember(id, memberId, user);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Member removed successfully',
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationEntity } from '../../entities/organization.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+import { UserEntity } from '../../entities/user.entity';
+import { DocumentEntity } from '../../entities/document.entity';
+import { FolderEntity } from '../../entities/folder.entity';
+import { OrganizationInvitationEntity } from './entities/organization-invitation.entity';
+import { VectorModule } from '../vector/vector.module';
+import { ChatModule } from '../chat/chat.module';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      OrganizationEntity,
+      FranchiseEntity,
+      UserEntity,
+      DocumentEntity,
+      FolderEntity,
+      OrganizationInvitationEntity,
+    ]),
+    VectorModule,
+    ChatModule,
+    MailModule,
+  ],
+  controllers: [OrganizationsController],
+  providers: [OrganizationsService],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
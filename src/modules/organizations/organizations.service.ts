@@ -0,0 +1,450 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OrganizationEntity } from '../../entities/organization.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+import { UserEntity } from '../../entities/user.entity';
+import { DocumentEntity } from '../../entities/document.entity';
+import { FolderEntity } from '../../entities/folder.entity';
+import { OrganizationInvitationEntity } from './entities/organization-invitation.entity';
+import { VectorService } from '../vector/vector.service';
+import { QACacheService } from '../chat/services/qa-cache.service';
+import { MailService } from '../mail/mail.service';
+import { User } from '../../common/interfaces/user.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { getTenantScope } from '../../common/utils/tenant-scope';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { CreateFranchiseDto } from './dto/create-franchise.dto';
+import { UpdateOrganizationSettingsDto } from './dto/update-organization-settings.dto';
+import { CreateInvitationDto } from './dto/invitation.dto';
+
+const MEMBER_FIELDS: (keyof UserEntity)[] = [
+  'id',
+  'email',
+  'username',
+  'role',
+  'organizationId',
+  'franchiseId',
+  'createdAt',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Organizations Service
+ * Franchisors (organizations), their outlets (franchises) and user memberships.
+ * Users without an organization join by accepting an invitation (platform admins can assign
+ * them directly). Content they owned before stays private unless they choose to move it in.
+ */
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(
+    @InjectRepository(OrganizationEntity)
+    private organizationRepository: Repository<OrganizationEntity>,
+    @InjectRepository(FranchiseEntity)
+    private franchiseRepository: Repository<FranchiseEntity>,
+    @InjectRepository(UserEntity)
+    private userRepository: Repository<UserEntity>,
+    @InjectRepository(DocumentEntity)
+    private documentRepository: Repository<DocumentEntity>,
+    @InjectRepository(FolderEntity)
+    private folderRepository: Repository<FolderEntity>,
+    @InjectRepository(OrganizationInvitationEntity)
+    private invitationRepository: Repository<OrganizationInvitationEntity>,
+    private vectorService: VectorService,
+    private qaCacheService: QACacheService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) {}
+
+  async createOrganization(dto: CreateOrganizationDto): Promise<OrganizationEntity> {
+    const organization = await this.organizationRepository.save(
+      this.organizationRepository.create({ name: dto.name }),
+    );
+
+    this.logger.log(`🏢 Created organization: ${organization.name}`);
+    return organization;
+  }
+
+  /**
+   * All organizations for platform admins, otherwise the user's own
+   */
+  async getOrganizations(user: User): Promise<OrganizationEntity[]> {
+    if (user.role === UserRole.PLATFORM_ADMIN) {
+      return this.organizationRepository.find({ order: { name: 'ASC' } });
+    }
+    if (!user.organizationId) {
+      return [];
+    }
+    return this.organizationRepository.find({ where: { id: user.organizationId } });
+  }
+
+  /**
+   * Get an organization with its franchises (platform admins and members only)
+   */
+  async getOrganization(organizationId: string, user: User): Promise<OrganizationEntity> {
+    if (user.role !== UserRole.PLATFORM_ADMIN && user.organizationId !== organizationId) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+      relations: ['franchises'],
+      order: { franchises: { name: 'ASC' } },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return organization;
+  }
+
+  async updateSettings(
+    organizationId: string,
+    dto: UpdateOrganizationSettingsDto,
+    user: User,
+  ): Promise<OrganizationEntity> {
+    const organization = await this.getManagedOrganization(organizationId, user);
+
+    if (dto.selfLearningEnabled !== undefined) {
+      organization.selfLearningEnabled = dto.selfLearningEnabled;
+    }
+    if (dto.cacheSimilarityThreshold !== undefined) {
+      organization.cacheSimilarityThreshold = dto.cacheSimilarityThreshold;
+    }
+
+    const saved = await this.organizationRepository.save(organization);
+    this.logger.log(
+      `⚙️ Updated settings of ${organization.name} (self-learning: ${saved.selfLearningEnabled}, cache threshold: ${saved.cacheSimilarityThreshold ?? 'default'})`,
+    );
+    return saved;
+  }
+
+  async createFranchise(
+    organizationId: string,
+    dto: CreateFranchiseDto,
+    user: User,
+  ): Promise<FranchiseEntity> {
+    const organization = await this.getManagedOrganization(organizationId, user);
+
+    const franchise = await this.franchiseRepository.save(
+      this.franchiseRepository.create({
+        organizationId: organization.id,
+        name: dto.name,
+        code: dto.code || null,
+      }),
+    );
+
+    this.logger.log(`🏪 Created franchise ${franchise.name} in ${organization.name}`);
+    return franchise;
+  }
+
+  async getMembers(organizationId: string, user: User): Promise<User[]> {
+    await this.getManagedOrganization(organizationId, user);
+
+    return this.userRepository.find({
+      where: { organizationId },
+      select: MEMBER_FIELDS,
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Make a user an HQ member of the organization, or a member of one of its franchises.
+   * Franchisors can only move their own members between HQ and franchises; users without an
+   * organization must accept an invitation (platform admins can assign anyone). Content the
+   * user already owns stays where it is.
+   */
+  async assignMember(
+    organizationId: string,
+    memberId: string,
+    franchiseId: string | undefined,
+    user: User,
+  ): Promise<User> {
+    const organization = await this.getManagedOrganization(organizationId, user);
+
+    const member = await this.userRepository.findOne({
+      where: { id: memberId },
+      select: MEMBER_FIELDS,
+    });
+    if (!member) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role !== UserRole.PLATFORM_ADMIN && member.organizationId !== organizationId) {
+      throw new ForbiddenException(
+        member.organizationId
+          ? 'User belongs to another organization'
+          : 'Invite the user instead: they join once they accept',
+      );
+    }
+
+    await this.assertFranchise(organizationId, franchiseId);
+    await this.setMembership(member, organization, franchiseId);
+    return member;
+  }
+
+  /**
+   * Invite a user by email to HQ or a franchise (a pending invitation for the same email is
+   * replaced)
+   */
+  async createInvitation(
+    organizationId: string,
+    dto: CreateInvitationDto,
+    user: User,
+  ): Promise<OrganizationInvitationEntity> {
+    const organization = await this.getManagedOrganization(organizationId, user);
+    await this.assertFranchise(organizationId, dto.franchiseId);
+
+    const email = dto.email.trim().toLowerCase();
+    const ttlDays = this.configService.get<number>('organizations.invitationTtlDays');
+
+    const invitation =
+      (await this.invitationRepository.findOne({
+        where: { organizationId, email, status: 'pending' },
+      })) || this.invitationRepository.create({ organizationId, email });
+
+    invitation.franchiseId = dto.franchiseId || null;
+    invitation.invitedBy = user.id;
+    invitation.expiresAt = new Date(Date.now() + ttlDays * DAY_MS);
+
+    const saved = await this.invitationRepository.save(invitation);
+    this.logger.log(`✉️ ${user.email} invited ${email} to ${organization.name}`);
+
+    try {
+      await this.mailService.send({
+        to: email,
+        subject: `Invitation to join ${organization.name}`,
+        text: `Hi,
+
+${user.username} invited you to join ${organization.name}. Sign in to accept or decline (valid for ${ttlDays} days):
+${this.mailService.appLink('/invitations', { id: saved.id })}
+
+Your existing documents stay private unless you choose to move them into the organization.`,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send invitation email to ${email}: ${error.message}`);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Pending invitations of an organization
+   */
+  async getInvitations(
+    organizationId: string,
+    user: User,
+  ): Promise<OrganizationInvitationEntity[]> {
+    await this.getManagedOrganization(organizationId, user);
+
+    return this.invitationRepository.find({
+      where: { organizationId, status: 'pending' },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revokeInvitation(organizationId: string, invitationId: string, user: User): Promise<void> {
+    await this.getManagedOrganization(organizationId, user);
+
+    const { affected } = await this.invitationRepository.update(
+      { id: invitationId, organizationId, status: 'pending' },
+      { status: 'revoked', respondedAt: new Date() },
+    );
+    if (!affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * Pending, unexpired invitations addressed to the user's (verified) email
+   */
+  async getMyInvitations(user: User): Promise<OrganizationInvitationEntity[]> {
+    this.assertEmailVerified(user);
+
+    const invitations = await this.invitationRepository.find({
+      where: { email: user.email.toLowerCase(), status: 'pending' },
+      relations: ['organization'],
+      order: { createdAt: 'DESC' },
+    });
+    return invitations.filter((invitation) => invitation.expiresAt.getTime() > Date.now());
+  }
+
+  /**
+   * Join the organization of an invitation. The user's existing documents, folders and cached
+   * answers only move into the organization if they ask for it (moveContent).
+   */
+  async acceptInvitation(invitationId: string, user: User, moveContent = false): Promise<User> {
+    const invitation = await this.getOwnInvitation(invitationId, user);
+
+    if (user.organizationId && user.organizationId !== invitation.organizationId) {
+      throw new BadRequestException('Leave your current organization before joining another');
+    }
+    await this.assertFranchise(invitation.organizationId, invitation.franchiseId);
+
+    const member = await this.userRepository.findOne({
+      where: { id: user.id },
+      select: MEMBER_FIELDS,
+    });
+    await this.setMembership(member, invitation.organization, invitation.franchiseId);
+
+    invitation.status = 'accepted';
+    invitation.respondedAt = new Date();
+    await this.invitationRepository.save(invitation);
+
+    if (moveContent) {
+      await this.moveOwnedContent(member);
+    }
+
+    return member;
+  }
+
+  async declineInvitation(invitationId: string, user: User): Promise<void> {
+    const invitation = await this.getOwnInvitation(invitationId, user);
+
+    invitation.status = 'declined';
+    invitation.respondedAt = new Date();
+    await this.invitationRepository.save(invitation);
+  }
+
+  /**
+   * Remove a user from the organization; content they created as a member (or moved in when
+   * joining) stays with the organization
+   */
+  async removeMember(organizationId: string, memberId: string, user: User): Promise<void> {
+    await this.getManagedOrganization(organizationId, user);
+
+    const { affected } = await this.userRepository.update(
+      { id: memberId, organizationId },
+      { organizationId: null, franchiseId: null },
+    );
+
+    if (!affected) {
+      throw new NotFoundException('Member not found');
+    }
+
+    this.logger.log(`User ${memberId} removed from organization ${organizationId}`);
+  }
+
+  private async setMembership(
+    member: UserEntity,
+    organization: OrganizationEntity,
+    franchiseId: string | null | undefined,
+  ): Promise<void> {
+    member.organizationId = organization.id;
+    member.franchiseId = franchiseId || null;
+    await this.userRepository.update(member.id, {
+      organizationId: member.organizationId,
+      franchiseId: member.franchiseId,
+    });
+
+    this.logger.log(
+      `👥 ${member.email} joined ${organization.name}${franchiseId ? ` (franchise ${franchiseId})` : ' (HQ)'}`,
+    );
+  }
+
+  private async assertFranchise(organizationId: string, franchiseId?: string | null) {
+    if (!franchiseId) {
+      return;
+    }
+
+    const franchise = await this.franchiseRepository.findOne({
+      where: { id: franchiseId, organizationId },
+    });
+    if (!franchise) {
+      throw new BadRequestException('Franchise not found in this organization');
+    }
+  }
+
+  /**
+   * A pending, unexpired invitation addressed to the user's (verified) email
+   */
+  private async getOwnInvitation(
+    invitationId: string,
+    user: User,
+  ): Promise<OrganizationInvitationEntity> {
+    this.assertEmailVerified(user);
+
+    const invitation = await this.invitationRepository.findOne({
+      where: { id: invitationId, email: user.email.toLowerCase(), status: 'pending' },
+      relations: ['organization'],
+    });
+
+    if (!invitation || invitation.expiresAt.getTime() <= Date.now()) {
+      throw new NotFoundException('Invitation not found');
+    }
+    return invitation;
+  }
+
+  /**
+   * Invitations are matched on email, so only an owner who proved the address may use them
+   */
+  private assertEmailVerified(user: User): void {
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenException('Verify your email address to use invitations sent to it');
+    }
+  }
+
+  /**
+   * Organization the user may manage: platform admins manage all, franchisor HQ users their own
+   */
+  private async getManagedOrganization(
+    organizationId: string,
+    user: User,
+  ): Promise<OrganizationEntity> {
+    const isAdmin = user.role === UserRole.PLATFORM_ADMIN;
+    const isHq =
+      user.role === UserRole.FRANCHISOR &&
+      user.organizationId === organizationId &&
+      !user.franchiseId;
+
+    if (!isAdmin && !isHq) {
+      throw new ForbiddenException('Only the franchisor HQ can manage this organization');
+    }
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+    });
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Re-stamp the member's documents, folders, chunks and cached answers with their tenant
+   * (only at the member's request, see acceptInvitation)
+   */
+  private async moveOwnedContent(member: UserEntity): Promise<void> {
+    const tenant = {
+      organizationId: member.organizationId,
+      franchiseId: member.franchiseId,
+    };
+    const scope = getTenantScope({ userId: member.id, ...tenant });
+
+    await this.folderRepository.update({ userId: member.id }, tenant);
+    await this.documentRepository.update({ userId: member.id }, tenant);
+    await this.qaCacheService.moveUserEntries(member.id, scope);
+
+    const documents = await this.documentRepository.find({
+      where: { userId: member.id },
+      select: ['id'],
+    });
+    for (const document of documents) {
+      await this.vectorService.updateDocumentMetadata(document.id, { scope });
+    }
+
+    this.logger.log(`Moved ${documents.length} documents of ${member.email} to ${scope}`);
+  }
+}
@@ -9,8 +9,10 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { SearchService, SearchResult } from './search.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ApiKeyScope } from '../../common/decorators/api-key-scope.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { SearchDocumentsDto } from '../folders/dto/search-documents.dto';
+import { User } from '../../common/interfaces/user.interface';
 
 @ApiTags('search')
 @Controller('search')
@@ -20,14 +22,15 @@ export class SearchController {
   constructor(private readonly searchService: SearchService) {}
 
   @Post()
+  @ApiKeyScope('documents:read')
   @ApiOperation({ summary: 'AI-powered search across folders and documents' })
   @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async searchDocuments(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: User,
     @Body() searchDto: SearchDocumentsDto,
   ) {
-    const results = await this.searchService.searchDocuments(userId, searchDto);
+    const results = await this.searchService.searchDocuments(user, searchDto);
     return {
       statusCode: HttpStatus.OK,
       data: results,
@@ -35,7 +38,7 @@ export class SearchController {
   }
 
   @Get('stats')
-  @ApiOperation({ summary: 'Get document statistics by category/folder' })
+  @ApiOperation({ summary: 'Get document counts per category' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async getStatsByCategory(@CurrentUser('id') userId: string) {
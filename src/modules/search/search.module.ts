@@ -6,12 +6,16 @@ import { DocumentEntity } from '../../entities/document.entity';
 import { FolderEntity } from '../../entities/folder.entity';
 import { VectorModule } from '../vector/vector.module';
 import { ChatModule } from '../chat/chat.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { SharingModule } from '../sharing/sharing.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([DocumentEntity, FolderEntity]),
     VectorModule,
     ChatModule,
+    DocumentsModule,
+    SharingModule,
   ],
   controllers: [SearchController],
   providers: [SearchService],
@@ -1,11 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In, IsNull } from 'typeorm';
+import { Repository } from 'typeorm';
 import { DocumentEntity } from '../../entities/document.entity';
 import { FolderEntity } from '../../entities/folder.entity';
 import { VectorService } from '../vector/vector.service';
 import { AIService } from '../chat/services/ai.service';
+import { SharingService } from '../sharing/sharing.service';
+import { DocumentAccessService } from '../documents/services/document-access.service';
 import { SearchDocumentsDto } from '../folders/dto/search-documents.dto';
+import { User } from '../../common/interfaces/user.interface';
+import { getReadableScopes, readableCondition } from '../../common/utils/tenant-scope';
 
 export interface SearchResult {
   folders: FolderEntity[];
@@ -14,6 +19,12 @@ export interface SearchResult {
   relevanceScore?: number;
 }
 
+// Who is searching: tenant access plus the folders shared with them
+interface SearchReader {
+  user: User;
+  sharedFolderIds: string[];
+}
+
 @Injectable()
 export class SearchService {
   private readonly logger = new Logger(SearchService.name);
@@ -25,18 +36,26 @@ export class SearchService {
     private folderRepository: Repository<FolderEntity>,
     private vectorService: VectorService,
     private aiService: AIService,
+    private configService: ConfigService,
+    private sharingService: SharingService,
+    private documentAccessService: DocumentAccessService,
   ) {}
 
   /**
    * AI-powered search across folders and documents
    */
   async searchDocuments(
-    userId: string,
+    user: User,
     searchDto: SearchDocumentsDto,
   ): Promise<SearchResult> {
     const { query, folderId, includeSubfolders = true, limit = 20 } = searchDto;
 
-    this.logger.log(`Searching for: "${query}" by user: ${userId}`);
+    this.logger.log(`Searching for: "${query}" by user: ${user.id}`);
+
+    const reader: SearchReader = {
+      user,
+      sharedFolderIds: await this.sharingService.getSharedFolderIds(user),
+    };
 
     const results: SearchResult = {
       folders: [],
@@ -45,11 +64,11 @@ export class SearchService {
     };
 
     // 1. Search folders by name/description
-    results.folders = await this.searchFolders(userId, query, folderId, includeSubfolders);
+    results.folders = await this.searchFolders(reader, query, folderId, includeSubfolders);
 
     // 2. Search documents using vector similarity (AI-powered)
     const vectorResults = await this.vectorSearchDocuments(
-      userId,
+      reader,
       query,
       folderId,
       includeSubfolders,
@@ -72,24 +91,34 @@ export class SearchService {
    * Search folders by name and description
    */
   private async searchFolders(
-    userId: string,
+    reader: SearchReader,
     query: string,
     folderId?: string,
     includeSubfolders: boolean = true,
   ): Promise<FolderEntity[]> {
     const queryBuilder = this.folderRepository
       .createQueryBuilder('folder')
-      .where('folder.userId = :userId', { userId })
-      .andWhere(
+      .where(
         '(LOWER(folder.name) LIKE LOWER(:query) OR LOWER(folder.description) LIKE LOWER(:query))',
         { query: `%${query}%` },
       );
 
+    // Only folders the user can read or that were shared with them
+    const readable = readableCondition('folder', reader.user);
+    if (readable && reader.sharedFolderIds.length > 0) {
+      queryBuilder.andWhere(`(${readable.sql} OR folder.id IN (:...sharedFolderIds))`, {
+        ...readable.params,
+        sharedFolderIds: reader.sharedFolderIds,
+      });
+    } else if (readable) {
+      queryBuilder.andWhere(readable.sql, readable.params);
+    }
+
     // Filter by parent folder if specified
     if (folderId) {
       if (includeSubfolders) {
         // Get all descendant folder IDs recursively
-        const descendantIds = await this.getDescendantFolderIds(folderId, userId);
+        const descendantIds = await this.getDescendantFolderIds(folderId);
         descendantIds.push(folderId); // Include the parent folder itself
         
         if (descendantIds.length > 0) {
@@ -110,7 +139,7 @@ export class SearchService {
    * Vector-based semantic search for documents using AI
    */
   private async vectorSearchDocuments(
-    userId: string,
+    reader: SearchReader,
     query: string,
     folderId?: string,
     includeSubfolders: boolean = true,
@@ -120,16 +149,23 @@ export class SearchService {
       // Generate embedding for query
       const queryEmbedding = await this.aiService.generateEmbedding(query);
       
-      // Perform vector search using ChromaDB
-      const vectorResults = await this.vectorService.search(queryEmbedding, limit);
+      // Perform vector search using ChromaDB (only uploaded documents the user can read)
+      const vectorResults = await this.vectorService.search(queryEmbedding, limit, {
+        access: {
+          userIds: [reader.user.id],
+          scopes: getReadableScopes(reader.user),
+          folderIds: reader.sharedFolderIds,
+        },
+        sources: ['upload'],
+      });
 
       if (!vectorResults || vectorResults.length === 0) {
         return { documents: [], relevanceScore: 0 };
       }
 
-      // Extract document IDs from metadata
+      // Extract uploaded document IDs from metadata
       const documentIds = vectorResults
-        .map(result => result.metadata?.documentId)
+        .map(result => result.metadata?.uploadedDocumentId)
         .filter(id => id);
 
       if (documentIds.length === 0) {
@@ -137,17 +173,16 @@ export class SearchService {
       }
 
       // Fetch documents from database
-      const queryBuilder = this.documentRepository
-        .createQueryBuilder('document')
-        .where('document.userId = :userId', { userId })
-        .andWhere('document.id IN (:...documentIds)', { documentIds })
-        .leftJoinAndSelect('document.folder', 'folder');
+      const queryBuilder = this.documentAccessService
+        .createQuery()
+        .where('document.id IN (:...documentIds)', { documentIds });
+      this.documentAccessService.scopeToReadable(queryBuilder, reader.user, reader.sharedFolderIds);
 
       // Filter by folder if specified
       if (folderId) {
         if (includeSubfolders) {
           // Get all descendant folder IDs recursively
-          const descendantIds = await this.getDescendantFolderIds(folderId, userId);
+          const descendantIds = await this.getDescendantFolderIds(folderId);
           const folderIds = [folderId, ...descendantIds];
           
           if (folderIds.length > 0) {
@@ -165,8 +200,8 @@ export class SearchService {
 
       // Sort documents by vector search relevance
       const sortedDocuments = documents.sort((a, b) => {
-        const scoreA = vectorResults.find(r => r.metadata?.documentId === a.id)?.score || 0;
-        const scoreB = vectorResults.find(r => r.metadata?.documentId === b.id)?.score || 0;
+        const scoreA = vectorResults.find(r => r.metadata?.uploadedDocumentId === a.id)?.score || 0;
+        const scoreB = vectorResults.find(r => r.metadata?.uploadedDocumentId === b.id)?.score || 0;
         return scoreB - scoreA;
       });
 
@@ -175,7 +210,7 @@ export class SearchService {
       this.logger.error('Vector search failed', error.stack);
       
       // Fallback to simple text search
-      return this.fallbackTextSearch(userId, query, folderId, includeSubfolders, limit);
+      return this.fallbackTextSearch(reader, query, folderId, includeSubfolders, limit);
     }
   }
 
@@ -183,26 +218,25 @@ export class SearchService {
    * Fallback text search when vector search fails
    */
   private async fallbackTextSearch(
-    userId: string,
+    reader: SearchReader,
     query: string,
     folderId?: string,
     includeSubfolders: boolean = true,
     limit: number = 20,
   ): Promise<{ documents: DocumentEntity[]; relevanceScore: number }> {
-    const queryBuilder = this.documentRepository
-      .createQueryBuilder('document')
-      .where('document.userId = :userId', { userId })
-      .andWhere(
+    const queryBuilder = this.documentAccessService
+      .createQuery()
+      .where(
         '(LOWER(document.originalName) LIKE LOWER(:query) OR LOWER(document.fileName) LIKE LOWER(:query))',
         { query: `%${query}%` },
-      )
-      .leftJoinAndSelect('document.folder', 'folder');
+      );
+    this.documentAccessService.scopeToReadable(queryBuilder, reader.user, reader.sharedFolderIds);
 
     // Filter by folder if specified
     if (folderId) {
       if (includeSubfolders) {
         // Get all descendant folder IDs recursively
-        const descendantIds = await this.getDescendantFolderIds(folderId, userId);
+        const descendantIds = await this.getDescendantFolderIds(folderId);
         const folderIds = [folderId, ...descendantIds];
         
         if (folderIds.length > 0) {
@@ -254,14 +288,14 @@ Return only the suggestions as a JSON array of strings.`;
   }
 
   /**
-   * Get all descendant folder IDs recursively
+   * Get all descendant folder IDs recursively (access is checked by the queries using them)
    */
-  private async getDescendantFolderIds(folderId: string, userId: string): Promise<string[]> {
+  private async getDescendantFolderIds(folderId: string): Promise<string[]> {
     const descendantIds: string[] = [];
     
     const getChildren = async (parentId: string) => {
       const children = await this.folderRepository.find({
-        where: { parentId, userId },
+        where: { parentId },
       });
       
       for (const child of children) {
@@ -296,33 +330,26 @@ Return only the suggestions as a JSON array of strings.`;
   }
 
   /**
-   * Get document statistics by category/folder
+   * Get document statistics by category (every taxonomy category is listed, even when empty)
    */
   async getDocumentStatsByCategory(userId: string): Promise<any> {
-    const folders = await this.folderRepository.find({
+    const documents = await this.documentRepository.find({
       where: { userId },
-      relations: ['documents'],
+      select: ['id', 'metadata'],
     });
 
-    const stats = folders.map(folder => ({
-      folderId: folder.id,
-      folderName: folder.name,
-      documentCount: folder.documents?.length || 0,
-    }));
-
-    // Add root level documents (no folder)
-    const rootDocuments = await this.documentRepository.count({
-      where: { userId, folderId: IsNull() },
-    });
+    const counts = new Map<string, number>(
+      this.configService.get<string[]>('enrichment.categories').map((category) => [category, 0]),
+    );
 
-    if (rootDocuments > 0) {
-      stats.unshift({
-        folderId: null,
-        folderName: 'Root',
-        documentCount: rootDocuments,
-      });
+    for (const document of documents) {
+      const category = document.metadata?.category || 'Uncategorized';
+      counts.set(category, (counts.get(category) || 0) + 1);
     }
 
-    return stats.sort((a, b) => b.documentCount - a.documentCount);
+    return [...counts.entries()]
+      .map(([category, documentCount]) => ({ category, documentCount }))
+      .filter((stat) => stat.documentCount > 0 || stat.category !== 'Uncategorized')
+      .sort((a, b) => b.documentCount - a.documentCount);
   }
 }
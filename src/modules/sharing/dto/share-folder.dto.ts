@@ -0,0 +1,23 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  SHARE_GRANTEE_TYPES,
+  SHARE_PERMISSIONS,
+  ShareGranteeType,
+  SharePermission,
+} from '../entities/folder-share.entity';
+
+export class ShareFolderDto {
+  @ApiProperty({ enum: SHARE_GRANTEE_TYPES, example: 'user' })
+  @IsIn(SHARE_GRANTEE_TYPES)
+  granteeType: ShareGranteeType;
+
+  @ApiProperty({ description: 'User ID, role (e.g. franchise_staff) or franchise ID' })
+  @IsString()
+  granteeId: string;
+
+  @ApiPropertyOptional({ enum: SHARE_PERMISSIONS, default: 'viewer' })
+  @IsIn(SHARE_PERMISSIONS)
+  @IsOptional()
+  permission?: SharePermission;
+}
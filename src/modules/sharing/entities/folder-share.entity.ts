@@ -0,0 +1,57 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { FolderEntity } from '../../../entities/folder.entity';
+
+export const SHARE_GRANTEE_TYPES = ['user', 'role', 'franchise'] as const;
+export type ShareGranteeType = (typeof SHARE_GRANTEE_TYPES)[number];
+
+export const SHARE_PERMISSIONS = ['viewer', 'editor'] as const;
+export type SharePermission = (typeof SHARE_PERMISSIONS)[number];
+
+/**
+ * Grants a user, a role (within the folder's organization) or a franchise access to a folder
+ * and everything below it
+ */
+@Entity('folder_shares')
+@Index(['folderId', 'granteeType', 'granteeId'], { unique: true })
+@Index(['granteeType', 'granteeId'])
+export class FolderShareEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  folderId: string;
+
+  @ManyToOne(() => FolderEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'folderId' })
+  folder: FolderEntity;
+
+  @Column({ type: 'varchar', length: 20 })
+  granteeType: ShareGranteeType;
+
+  @Column({ type: 'varchar', length: 255 })
+  granteeId: string; // User ID, role name or franchise ID
+
+  @Column({ type: 'varchar', length: 20, default: 'viewer' })
+  permission: SharePermission;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  organizationId: string; // Organization of the folder; role shares only apply within it
+
+  @Column({ type: 'varchar', length: 255 })
+  createdBy: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SharingService } from './sharing.service';
+import { FolderShareEntity } from './entities/folder-share.entity';
+import { FolderEntity } from '../../entities/folder.entity';
+import { UserEntity } from '../../entities/user.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FolderShareEntity, FolderEntity, UserEntity, FranchiseEntity]),
+  ],
+  providers: [SharingService],
+  exports: [SharingService],
+})
+export class SharingModule {}
@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+import { FolderEntity } from '../../entities/folder.entity';
+import { UserEntity } from '../../entities/user.entity';
+import { FranchiseEntity } from '../../entities/franchise.entity';
+import { FolderShareEntity, SharePermission } from './entities/folder-share.entity';
+import { User } from '../../common/interfaces/user.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { canModifyTenantContent, canReadTenantContent } from '../../common/utils/tenant-scope';
+import { ShareFolderDto } from './dto/share-folder.dto';
+
+export interface SharedFolder {
+  folder: FolderEntity;
+  permission: SharePermission;
+}
+
+const PERMISSION_RANK: Record<SharePermission, number> = { viewer: 1, editor: 2 };
+
+function strongest(permissions: (SharePermission | null)[]): SharePermission | null {
+  return permissions.reduce<SharePermission | null>(
+    (best, permission) =>
+      permission && (!best || PERMISSION_RANK[permission] > PERMISSION_RANK[best])
+        ? permission
+        : best,
+    null,
+  );
+}
+
+/**
+ * Sharing Service
+ * Folder shares with users, roles and franchises. A share applies to the folder and its whole
+ * subtree; when several apply, the strongest permission wins. Tenant access (see tenant-scope)
+ * counts as viewer for readable folders and editor for folders the user may modify.
+ */
+@Injectable()
+export class SharingService {
+  private readonly logger = new Logger(SharingService.name);
+
+  constructor(
+    @InjectRepository(FolderShareEntity)
+    private shareRepository: Repository<FolderShareEntity>,
+    @InjectRepository(FolderEntity)
+    private folderRepository: Repository<FolderEntity>,
+    @InjectRepository(UserEntity)
+    private userRepository: Repository<UserEntity>,
+    @InjectRepository(FranchiseEntity)
+    private franchiseRepository: Repository<FranchiseEntity>,
+  ) {}
+
+  /**
+   * Share a folder (and its subtree), or change the permission of an existing share
+   */
+  async shareFolder(folderId: string, dto: ShareFolderDto, user: User): Promise<FolderShareEntity> {
+    const folder = await this.getManagedFolder(folderId, user);
+    await this.validateGrantee(folder, dto, user);
+
+    const permission = dto.permission || 'viewer';
+    const existing = await this.shareRepository.findOne({
+      where: { folderId, granteeType: dto.granteeType, granteeId: dto.granteeId },
+    });
+
+    if (existing) {
+      existing.permission = permission;
+      return this.shareRepository.save(existing);
+    }
+
+    const share = await this.shareRepository.save(
+      this.shareRepository.create({
+        folderId,
+        granteeType: dto.granteeType,
+        granteeId: dto.granteeId,
+        permission,
+        organizationId: folder.organizationId || null,
+        createdBy: user.id,
+      }),
+    );
+
+    this.logger.log(
+      `🔗 Shared folder ${folder.name} with ${dto.granteeType} ${dto.granteeId} (${permission})`,
+    );
+    return share;
+  }
+
+  async getShares(folderId: string, user: User): Promise<FolderShareEntity[]> {
+    await this.getManagedFolder(folderId, user);
+    return this.shareRepository.find({ where: { folderId }, order: { createdAt: 'ASC' } });
+  }
+
+  async revokeShare(folderId: string, shareId: string, user: User): Promise<void> {
+    await this.getManagedFolder(folderId, user);
+
+    const { affected } = await this.shareRepository.delete({ id: shareId, folderId });
+    if (!affected) {
+      throw new NotFoundException('Share not found');
+    }
+  }
+
+  /**
+   * Folders shared with the user, directly or through their role or franchise
+   */
+  async getSharedWithMe(user: User): Promise<SharedFolder[]> {
+    const shares = await this.shareRepository.find({
+      where: this.granteeWhere(user),
+      relations: ['folder'],
+      order: { createdAt: 'DESC' },
+    });
+
+    const byFolder = new Map<string, SharedFolder>();
+    for (const share of shares) {
+      // The user's own folders are not "shared with" them
+      if (!share.folder || share.folder.userId === user.id) {
+        continue;
+      }
+      const current = byFolder.get(share.folderId);
+      byFolder.set(share.folderId, {
+        folder: share.folder,
+        permission: strongest([current?.permission || null, share.permission]),
+      });
+    }
+
+    return [...byFolder.values()];
+  }
+
+  /**
+   * Strongest permission granted to the user on the folder by shares on it or its ancestors
+   */
+  async getSharedPermission(folderId: string, user: User): Promise<SharePermission | null> {
+    const folderIds = await this.getAncestorIds(folderId);
+    const shares = await this.shareRepository.find({
+      where: this.granteeWhere(user, { folderId: In(folderIds) }),
+      select: ['id', 'permission'],
+    });
+
+    return strongest(shares.map((share) => share.permission));
+  }
+
+  /**
+   * The user's permission on a folder from tenant access and shares (null: no access)
+   */
+  async getFolderPermission(folder: FolderEntity, user: User): Promise<SharePermission | null> {
+    if (canModifyTenantContent(user, folder)) {
+      return 'editor';
+    }
+
+    const shared = await this.getSharedPermission(folder.id, user);
+    return strongest([shared, canReadTenantContent(user, folder) ? 'viewer' : null]);
+  }
+
+  /**
+   * Get a folder the user holds at least the given permission on
+   */
+  async assertFolderPermission(
+    folderId: string,
+    user: User,
+    required: SharePermission,
+  ): Promise<FolderEntity> {
+    const folder = await this.folderRepository.findOne({ where: { id: folderId } });
+    const permission = folder ? await this.getFolderPermission(folder, user) : null;
+
+    if (!permission) {
+      throw new NotFoundException('Folder not found');
+    }
+    if (PERMISSION_RANK[permission] < PERMISSION_RANK[required]) {
+      throw new ForbiddenException(`You need ${required} access to this folder`);
+    }
+
+    return folder;
+  }
+
+  /**
+   * IDs of every folder the user can reach through shares (shared folders and their subtrees)
+   */
+  async getSharedFolderIds(user: User): Promise<string[]> {
+    const shares = await this.shareRepository.find({
+      where: this.granteeWhere(user),
+      select: ['id', 'folderId'],
+    });
+
+    const folderIds = new Set(shares.map((share) => share.folderId));
+    let parentIds = [...folderIds];
+
+    while (parentIds.length > 0) {
+      const children = await this.folderRepository.find({
+        where: { parentId: In(parentIds) },
+        select: ['id'],
+      });
+      parentIds = children.map((child) => child.id).filter((id) => !folderIds.has(id));
+      parentIds.forEach((id) => folderIds.add(id));
+    }
+
+    return [...folderIds];
+  }
+
+  /**
+   * Shares that apply to the user; role shares only count within the folder's organization
+   */
+  private granteeWhere(
+    user: User,
+    where: FindOptionsWhere<FolderShareEntity> = {},
+  ): FindOptionsWhere<FolderShareEntity>[] {
+    const conditions: FindOptionsWhere<FolderShareEntity>[] = [
+      { ...where, granteeType: 'user', granteeId: user.id },
+    ];
+    if (user.organizationId) {
+      conditions.push({
+        ...where,
+        granteeType: 'role',
+        granteeId: user.role,
+        organizationId: user.organizationId,
+      });
+    }
+    if (user.franchiseId) {
+      conditions.push({ ...where, granteeType: 'franchise', granteeId: user.franchiseId });
+    }
+    return conditions;
+  }
+
+  private async getAncestorIds(folderId: string): Promise<string[]> {
+    const ids: string[] = [];
+    let currentId: string | null = folderId;
+
+    // Guard against cycles in corrupted trees
+    while (currentId && !ids.includes(currentId)) {
+      ids.push(currentId);
+      const folder = await this.folderRepository.findOne({
+        where: { id: currentId },
+        select: ['id', 'parentId'],
+      });
+      currentId = folder?.parentId || null;
+    }
+
+    return ids;
+  }
+
+  /**
+   * Folder whose shares the user may manage (owner, tenant editors and platform admins)
+   */
+  private async getManagedFolder(folderId: string, user: User): Promise<FolderEntity> {
+    const folder = await this.folderRepository.findOne({ where: { id: folderId } });
+
+    if (!folder || !canReadTenantContent(user, folder)) {
+      throw new NotFoundException('Folder not found');
+    }
+    if (!canModifyTenantContent(user, folder)) {
+      throw new ForbiddenException('You are not allowed to share this folder');
+    }
+
+    return folder;
+  }
+
+  private async validateGrantee(folder: FolderEntity, dto: ShareFolderDto, user: User) {
+    const isAdmin = user.role === UserRole.PLATFORM_ADMIN;
+
+    switch (dto.granteeType) {
+      case 'user': {
+        const grantee = await this.userRepository.findOne({ where: { id: dto.granteeId } });
+        if (!grantee || (!isAdmin && grantee.organizationId !== folder.organizationId)) {
+          throw new BadRequestException('User not found in this organization');
+        }
+        break;
+      }
+      case 'role':
+        if (!Object.values(UserRole).includes(dto.granteeId as UserRole)) {
+          throw new BadRequestException(
+            `Invalid role "${dto.granteeId}". Allowed: ${Object.values(UserRole).join(', ')}`,
+          );
+        }
+        if (!folder.organizationId) {
+          throw new BadRequestException('Only organization folders can be shared with a role');
+        }
+        break;
+      case 'franchise': {
+        const franchise = await this.franchiseRepository.findOne({
+          where: { id: dto.granteeId },
+        });
+        if (!franchise || (!isAdmin && franchise.organizationId !== folder.organizationId)) {
+          throw new BadRequestException('Franchise not found in this organization');
+        }
+        break;
+      }
+    }
+  }
+}
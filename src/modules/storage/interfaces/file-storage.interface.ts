@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+
+export interface StoredFileInfo {
+  size: number;
+  lastModified?: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Contract implemented by every file storage backend (storage.provider)
+ *
+ * Files are addressed by a key relative to the backend root, e.g. "<folderId>/<fileName>".
+ */
+export interface FileStorage {
+  /** Backend name as used in configuration (storage.provider) */
+  readonly name: string;
+
+  /** Prepare the backend (create directories, check the bucket); throws if unusable */
+  initialize(): Promise<void>;
+
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  /** Whole file contents; throws if the file does not exist */
+  get(key: string): Promise<Buffer>;
+
+  /** Null when the file does not exist */
+  stat(key: string): Promise<StoredFileInfo | null>;
+
+  /** Stream the file, or only the given byte range */
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /** Deleting a missing file is not an error */
+  delete(key: string): Promise<void>;
+}
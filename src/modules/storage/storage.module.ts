@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+import { LocalFileStorage } from './stores/local-file.storage';
+import { S3FileStorage } from './stores/s3-file.storage';
+import { InMemoryFileStorage } from './stores/in-memory-file.storage';
+
+@Module({
+  providers: [StorageService, LocalFileStorage, S3FileStorage, InMemoryFileStorage],
+  exports: [StorageService],
+})
+export class StorageModule {}
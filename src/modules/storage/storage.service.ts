@@ -0,0 +1,80 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import { ByteRange, FileStorage, StoredFileInfo } from './interfaces/file-storage.interface';
+import { LocalFileStorage } from './stores/local-file.storage';
+import { S3FileStorage } from './stores/s3-file.storage';
+import { InMemoryFileStorage } from './stores/in-memory-file.storage';
+
+/**
+ * Storage Service
+ * Delegates to the file storage backend selected by storage.provider (local, s3 or memory)
+ */
+@Injectable()
+export class StorageService implements OnModuleInit {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly storage: FileStorage;
+
+  constructor(
+    private configService: ConfigService,
+    localStorage: LocalFileStorage,
+    s3Storage: S3FileStorage,
+    inMemoryStorage: InMemoryFileStorage,
+  ) {
+    const provider = this.configService.get<string>('storage.provider');
+    const backends: FileStorage[] = [localStorage, s3Storage, inMemoryStorage];
+    this.storage = backends.find((backend) => backend.name === provider);
+
+    if (!this.storage) {
+      throw new Error(
+        `Unknown storage provider "${provider}". Available: ${backends.map((b) => b.name).join(', ')}`,
+      );
+    }
+  }
+
+  async onModuleInit() {
+    try {
+      await this.storage.initialize();
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to initialize file storage (${this.storage.name})`,
+        error.message,
+      );
+      this.logger.warn('⚠️  Uploads and downloads will fail until storage is reachable.');
+    }
+  }
+
+  get provider(): string {
+    return this.storage.name;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.storage.put(key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return this.storage.get(key);
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    return this.storage.stat(key);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.storage.createReadStream(key, range);
+  }
+
+  /**
+   * Delete a file; failures are logged rather than thrown so callers can finish cleaning up
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.storage.delete(key);
+    } catch (error) {
+      this.logger.warn(`Failed to delete file ${key}: ${error.message}`);
+    }
+  }
+}
+
+// Re-export types for convenience
+export { ByteRange, StoredFileInfo };
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ByteRange, FileStorage, StoredFileInfo } from '../interfaces/file-storage.interface';
+
+interface StoredFile {
+  data: Buffer;
+  lastModified: Date;
+}
+
+/**
+ * In-process backend for tests and local development - nothing is persisted
+ */
+@Injectable()
+export class InMemoryFileStorage implements FileStorage {
+  readonly name = 'memory';
+  private readonly logger = new Logger(InMemoryFileStorage.name);
+  private readonly files = new Map<string, StoredFile>();
+
+  async initialize(): Promise<void> {
+    this.logger.log('✅ Storing files in memory (not persisted)');
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, { data: Buffer.from(data), lastModified: new Date() });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return Buffer.from(this.getFile(key).data);
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    const file = this.files.get(key);
+    return file ? { size: file.data.length, lastModified: file.lastModified } : null;
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const { data } = this.getFile(key);
+    return Readable.from([range ? data.subarray(range.start, range.end + 1) : data]);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  private getFile(key: string): StoredFile {
+    const file = this.files.get(key);
+    if (!file) {
+      throw new Error(`File not found: ${key}`);
+    }
+    return file;
+  }
+}
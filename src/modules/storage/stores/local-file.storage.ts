@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ByteRange, FileStorage, StoredFileInfo } from '../interfaces/file-storage.interface';
+
+/**
+ * Files on local disk under storage.localDir (the default, single-instance setup)
+ */
+@Injectable()
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalFileStorage.name);
+  private readonly rootDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.rootDir = path.resolve(this.configService.get<string>('storage.localDir'));
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    this.logger.log(`✅ Storing files on local disk: ${this.rootDir}`);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return { size: stats.size, lastModified: stats.mtime };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the root directory.
+   * Absolute paths are documents uploaded before keys were introduced and are used as-is.
+   */
+  private resolve(key: string): string {
+    if (path.isAbsolute(key)) {
+      return key;
+    }
+
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
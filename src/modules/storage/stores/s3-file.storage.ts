@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { ByteRange, FileStorage, StoredFileInfo } from '../interfaces/file-storage.interface';
+
+/**
+ * AWS S3 or any S3-compatible service (MinIO, R2, ...) - lets several API instances share files
+ */
+@Injectable()
+export class S3FileStorage implements FileStorage {
+  readonly name = 's3';
+  private readonly logger = new Logger(S3FileStorage.name);
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(private configService: ConfigService) {}
+
+  async initialize(): Promise<void> {
+    this.bucket = this.configService.get<string>('aws.s3Bucket');
+    if (!this.bucket) {
+      throw new Error('AWS_S3_BUCKET must be set when STORAGE_PROVIDER=s3');
+    }
+
+    const accessKeyId = this.configService.get<string>('aws.accessKeyId');
+    const secretAccessKey = this.configService.get<string>('aws.secretAccessKey');
+    const endpoint = this.configService.get<string>('storage.s3Endpoint');
+
+    this.prefix = this.configService.get<string>('storage.s3Prefix');
+    this.client = new S3Client({
+      region: this.configService.get<string>('aws.region'),
+      // Fall back to the default credential chain (IAM role, profile) when no keys are set
+      credentials: accessKeyId ? { accessKeyId, secretAccessKey } : undefined,
+      endpoint: endpoint || undefined,
+      forcePathStyle: this.configService.get<boolean>('storage.s3ForcePathStyle'),
+    });
+
+    await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    this.logger.log(
+      `✅ Storing files in S3 bucket: ${this.bucket}${endpoint ? ` (${endpoint})` : ''}`,
+    );
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+    );
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+      );
+      return { size: response.ContentLength, lastModified: response.LastModified };
+    } catch (error) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }),
+    );
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+    );
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key;
+  }
+}
@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ enum: UserRole, example: UserRole.FRANCHISE_STAFF })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
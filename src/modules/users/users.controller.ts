@@ -0,0 +1,48 @@
+import { Controller, Get, Patch, Body, Param, UseGuards, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../common/enums/user-role.enum';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+
+@ApiTags('users')
+@Controller('users')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.PLATFORM_ADMIN)
+@ApiBearerAuth()
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List users with their roles (platform admin)' })
+  @ApiResponse({ status: 200, description: 'Users retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async getUsers() {
+    const users = await this.usersService.findAll();
+    return {
+      statusCode: HttpStatus.OK,
+      data: users,
+    };
+  }
+
+  @Patch(':id/role')
+  @ApiOperation({ summary: "Change a user's role (platform admin)" })
+  @ApiResponse({ status: 200, description: 'Role updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async updateRole(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserRoleDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    const user = await this.usersService.updateRole(id, dto.role, userId);
+    return {
+      statusCode: HttpStatus.OK,
+      message: 'Role updated successfully',
+      data: user,
+    };
+  }
+}
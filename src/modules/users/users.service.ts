@@ -0,0 +1,102 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { UserEntity } from '../../entities/user.entity';
+import { User } from '../../common/interfaces/user.interface';
+import { UserRole } from '../../common/enums/user-role.enum';
+
+const USER_FIELDS: (keyof UserEntity)[] = [
+  'id',
+  'email',
+  'username',
+  'role',
+  'organizationId',
+  'franchiseId',
+  'createdAt',
+];
+
+/**
+ * Users Service
+ * Role assignment; platform admins are bootstrapped from auth.platformAdminEmails once their
+ * email is verified.
+ */
+@Injectable()
+export class UsersService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UsersService.name);
+  private readonly platformAdminEmails: string[];
+
+  constructor(
+    @InjectRepository(UserEntity)
+    private userRepository: Repository<UserEntity>,
+    private configService: ConfigService,
+  ) {
+    this.platformAdminEmails = this.configService.get<string[]>('auth.platformAdminEmails') || [];
+  }
+
+  async onApplicationBootstrap() {
+    if (this.platformAdminEmails.length === 0) {
+      return;
+    }
+
+    try {
+      const users = await this.userRepository.find({
+        where: { email: In(this.platformAdminEmails), emailVerifiedAt: Not(IsNull()) },
+      });
+      for (const user of users) {
+        await this.promoteToPlatformAdmin(user);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to promote platform admins: ${error.message}`);
+    }
+  }
+
+  /**
+   * Give the platform_admin role to a user whose verified email is listed in
+   * auth.platformAdminEmails (called once the user proves the address)
+   */
+  async grantPlatformAdminIfListed(userId: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (user?.emailVerifiedAt && this.platformAdminEmails.includes(user.email.toLowerCase())) {
+      await this.promoteToPlatformAdmin(user);
+    }
+  }
+
+  private async promoteToPlatformAdmin(user: UserEntity): Promise<void> {
+    if (user.role !== UserRole.PLATFORM_ADMIN) {
+      await this.userRepository.update(user.id, { role: UserRole.PLATFORM_ADMIN });
+      this.logger.log(`👑 Promoted ${user.email} to platform admin`);
+    }
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.userRepository.find({ select: USER_FIELDS, order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Change a user's role (admins cannot change their own, so one always remains)
+   */
+  async updateRole(userId: string, role: UserRole, actingUserId: string): Promise<User> {
+    if (userId === actingUserId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId }, select: USER_FIELDS });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    user.role = role;
+    await this.userRepository.update(userId, { role });
+
+    this.logger.log(`Role of ${user.email} changed to ${role}`);
+    return user;
+  }
+}
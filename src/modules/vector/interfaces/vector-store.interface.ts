@@ -0,0 +1,143 @@
+export interface DocumentChunk {
+  id?: string;
+  content: string;
+  metadata: {
+    documentId: string;
+    fileName: string;
+    chunkIndex: number;
+    totalChunks: number;
+    source?: string;
+    [key: string]: any;
+  };
+}
+
+// A chunk is accessible if its owner is in userIds, its tenant scope is in scopes
+// or its folder is in folderIds
+export interface VectorAccessFilter {
+  userIds?: string[]; // Chunk metadata: userId
+  scopes?: string[]; // Chunk metadata: scope (see getTenantScope)
+  folderIds?: string[]; // Chunk metadata: folderId (e.g. folders shared with the user)
+}
+
+export interface VectorSearchFilter {
+  access?: VectorAccessFilter;
+  folderIds?: string[];
+  documentIds?: string[]; // Uploaded document entity IDs (chunk metadata: uploadedDocumentId)
+  sources?: string[]; // e.g. 'upload', 'ai_generated'
+  aiGenerated?: 'approved' | 'none'; // AI-generated Q&A to include: reviewed only, or none (default: all)
+}
+
+export interface IndexedChunk {
+  id: string;
+  content: string;
+  metadata: any;
+}
+
+export interface SearchResult {
+  id: string;
+  content: string;
+  metadata: any;
+  score: number;
+}
+
+/**
+ * Contract implemented by every vector database backend (vector.provider)
+ *
+ * Scores are 1 - squared L2 distance, which is what ChromaDB returns for its default
+ * space, so relevance thresholds carry over unchanged between backends.
+ * Chunks are deleted by either their ingestion documentId or their uploadedDocumentId.
+ * Operations apply to the active collection; writes and searches can target another collection
+ * (e.g. a shadow collection being built for an embedding-model migration).
+ */
+export interface VectorStore {
+  /** Backend name as used in configuration (vector.provider) */
+  readonly name: string;
+
+  /** Connect and get or create the named collection; throws if the backend is unreachable */
+  initialize(collectionName: string): Promise<void>;
+
+  /** Get or create a collection and make it the active one */
+  useCollection(collectionName: string): Promise<void>;
+
+  /** Write chunks, replacing existing chunks with the same id */
+  addDocuments(
+    chunks: DocumentChunk[],
+    embeddings: number[][],
+    collectionName?: string,
+  ): Promise<void>;
+
+  search(
+    queryEmbedding: number[],
+    topK: number,
+    filter?: VectorSearchFilter,
+    collectionName?: string,
+  ): Promise<SearchResult[]>;
+
+  /** Every chunk of an uploaded document, in no particular order */
+  getDocumentChunks(uploadedDocumentId: string): Promise<IndexedChunk[]>;
+
+  /** Every chunk matching a filter, in no particular order */
+  getChunks(filter: VectorSearchFilter): Promise<IndexedChunk[]>;
+
+  /** Merge metadata into every chunk of an uploaded document */
+  updateDocumentMetadata(
+    uploadedDocumentId: string,
+    metadata: Record<string, string | number | boolean>,
+    collectionName?: string,
+  ): Promise<number>;
+
+  /** Returns the number of chunks deleted */
+  deleteDocumentsByDocId(documentId: string, collectionName?: string): Promise<number>;
+
+  /**
+   * Delete the chunks of an uploaded document written by other ingestion runs than
+   * keepDocumentId (e.g. the previous version, once the new one is indexed)
+   */
+  deleteStaleChunks(
+    uploadedDocumentId: string,
+    keepDocumentId: string,
+    collectionName?: string,
+  ): Promise<number>;
+
+  count(collectionName?: string): Promise<number>;
+
+  /** Delete every chunk in the collection */
+  clearCollection(): Promise<void>;
+
+  /** Drop a collection other than the active one */
+  deleteCollection(collectionName: string): Promise<void>;
+}
+
+/**
+ * Evaluate a search filter against chunk metadata (for stores without native filtering)
+ */
+export function matchesFilter(metadata: Record<string, any>, filter?: VectorSearchFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (
+    filter.access &&
+    !filter.access.userIds?.includes(metadata.userId) &&
+    !filter.access.scopes?.includes(metadata.scope) &&
+    !filter.access.folderIds?.includes(metadata.folderId)
+  ) {
+    return false;
+  }
+  if (filter.folderIds?.length && !filter.folderIds.includes(metadata.folderId)) {
+    return false;
+  }
+  if (filter.documentIds?.length && !filter.documentIds.includes(metadata.uploadedDocumentId)) {
+    return false;
+  }
+  if (filter.sources?.length && !filter.sources.includes(metadata.source)) {
+    return false;
+  }
+  if (
+    filter.aiGenerated &&
+    metadata.source === 'ai_generated' &&
+    (filter.aiGenerated === 'none' || metadata.reviewStatus !== 'approved')
+  ) {
+    return false;
+  }
+  return true;
+}
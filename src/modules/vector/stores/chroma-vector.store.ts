@@ -0,0 +1,334 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChromaClient, CloudClient, Collection, Where } from 'chromadb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DocumentChunk,
+  IndexedChunk,
+  SearchResult,
+  VectorSearchFilter,
+  VectorStore,
+} from '../interfaces/vector-store.interface';
+
+/**
+ * ChromaDB backend (local server or Chroma Cloud)
+ */
+@Injectable()
+export class ChromaVectorStore implements VectorStore {
+  readonly name = 'chroma';
+  private readonly logger = new Logger(ChromaVectorStore.name);
+  private client: ChromaClient;
+  private collection: Collection;
+  private collectionName: string;
+  private readonly collections = new Map<string, Collection>();
+
+  constructor(private configService: ConfigService) {}
+
+  async initialize(collectionName: string): Promise<void> {
+    this.collectionName = collectionName;
+    const chromaMode = this.configService.get<string>('vector.chromaMode');
+
+    this.logger.log(`Initializing ChromaDB (mode: ${chromaMode})...`);
+
+    try {
+      // Initialize based on mode
+      if (chromaMode === 'cloud') {
+        await this.initializeCloudClient();
+      } else {
+        await this.initializeLocalClient();
+      }
+
+      // Get or create collection
+      this.collection = await this.getCollection(this.collectionName);
+      this.logger.log(`✅ Connected to collection: ${this.collectionName}`);
+    } catch (error) {
+      if (chromaMode === 'local') {
+        this.logger.warn('💡 To enable RAG functionality, run ChromaDB server:');
+        this.logger.warn('   docker-compose up -d');
+      }
+      throw error;
+    }
+  }
+
+  private async initializeCloudClient() {
+    const apiKey = this.configService.get<string>('vector.chromaCloud.apiKey');
+    const tenant = this.configService.get<string>('vector.chromaCloud.tenant');
+    const database = this.configService.get<string>('vector.chromaCloud.database');
+
+    if (!apiKey || !tenant || !database) {
+      throw new Error('ChromaDB Cloud credentials not configured in .env');
+    }
+
+    this.logger.log('☁️  Connecting to ChromaDB Cloud...');
+    this.logger.log(`   Tenant: ${tenant}`);
+    this.logger.log(`   Database: ${database}`);
+
+    this.client = new CloudClient({
+      apiKey,
+      tenant,
+      database,
+    }) as any; // Type cast as CloudClient extends ChromaClient
+
+    this.logger.log('✅ Connected to ChromaDB Cloud');
+  }
+
+  private async initializeLocalClient() {
+    const chromaUrl = this.configService.get<string>('vector.chromaUrl');
+
+    // Check if we should skip initialization
+    if (!chromaUrl || chromaUrl === 'in-memory' || chromaUrl === 'disabled') {
+      throw new Error('ChromaDB local server not configured');
+    }
+
+    this.logger.log(`🔗 Connecting to local ChromaDB server at: ${chromaUrl}`);
+
+    this.client = new ChromaClient({
+      path: chromaUrl,
+    });
+
+    this.logger.log('✅ Connected to local ChromaDB server');
+  }
+
+  async useCollection(collectionName: string): Promise<void> {
+    this.collection = await this.getCollection(collectionName);
+    this.collectionName = collectionName;
+  }
+
+  private async getCollection(collectionName: string): Promise<Collection> {
+    if (!this.collections.has(collectionName)) {
+      const collection = await this.client.getOrCreateCollection({
+        name: collectionName,
+        metadata: { description: 'AI Assistant document embeddings' },
+      });
+      this.collections.set(collectionName, collection);
+    }
+    return this.collections.get(collectionName);
+  }
+
+  async addDocuments(
+    chunks: DocumentChunk[],
+    embeddings: number[][],
+    collectionName?: string,
+  ): Promise<void> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    await collection.upsert({
+      ids: chunks.map((chunk) => chunk.id || uuidv4()),
+      embeddings,
+      documents: chunks.map((chunk) => chunk.content),
+      metadatas: chunks.map((chunk) => chunk.metadata),
+    });
+  }
+
+  async search(
+    queryEmbedding: number[],
+    topK: number,
+    filter?: VectorSearchFilter,
+    collectionName?: string,
+  ): Promise<SearchResult[]> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    const where = this.buildWhereClause(filter);
+
+    const results = await collection.query({
+      queryEmbeddings: [queryEmbedding],
+      nResults: topK,
+      ...(where && { where }),
+    });
+
+    if (!results.ids || !results.ids[0] || results.ids[0].length === 0) {
+      return [];
+    }
+
+    const searchResults: SearchResult[] = [];
+
+    for (let i = 0; i < results.ids[0].length; i++) {
+      searchResults.push({
+        id: results.ids[0][i],
+        content: results.documents[0][i] as string,
+        metadata: results.metadatas[0][i] as any,
+        score: results.distances ? 1 - results.distances[0][i] : 0, // Convert distance to similarity score
+      });
+    }
+
+    return searchResults;
+  }
+
+  /**
+   * Convert a search filter into a ChromaDB where clause
+   */
+  private buildWhereClause(filter?: VectorSearchFilter): Where | undefined {
+    if (!filter) {
+      return undefined;
+    }
+
+    const conditions: Where[] = [];
+
+    if (filter.access) {
+      const { userIds = [], scopes = [], folderIds = [] } = filter.access;
+      const access: Where[] = [
+        ...(userIds.length > 0 ? [{ userId: { $in: userIds } }] : []),
+        ...(scopes.length > 0 ? [{ scope: { $in: scopes } }] : []),
+        ...(folderIds.length > 0 ? [{ folderId: { $in: folderIds } }] : []),
+      ];
+      // Nothing is accessible without owners, scopes or folders
+      conditions.push(
+        access.length === 0
+          ? { userId: { $in: [''] } }
+          : access.length === 1
+            ? access[0]
+            : { $or: access },
+      );
+    }
+    if (filter.folderIds && filter.folderIds.length > 0) {
+      conditions.push({ folderId: { $in: filter.folderIds } });
+    }
+    if (filter.documentIds && filter.documentIds.length > 0) {
+      conditions.push({ uploadedDocumentId: { $in: filter.documentIds } });
+    }
+    if (filter.sources && filter.sources.length > 0) {
+      conditions.push({ source: { $in: filter.sources } });
+    }
+    if (filter.aiGenerated) {
+      // Every chunk has a source, so $ne does not drop chunks missing the key
+      const notGenerated: Where = { source: { $ne: 'ai_generated' } };
+      conditions.push(
+        filter.aiGenerated === 'none'
+          ? notGenerated
+          : { $or: [notGenerated, { reviewStatus: { $eq: 'approved' } }] },
+      );
+    }
+
+    if (conditions.length === 0) {
+      return undefined;
+    }
+
+    // ChromaDB rejects $and with a single operand
+    return conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+
+  async getDocumentChunks(uploadedDocumentId: string): Promise<IndexedChunk[]> {
+    const results = await this.collection.get({
+      where: { uploadedDocumentId: uploadedDocumentId },
+    });
+
+    return (results.ids || []).map((id, index) => ({
+      id,
+      content: results.documents[index] as string,
+      metadata: results.metadatas[index],
+    }));
+  }
+
+  async getChunks(filter: VectorSearchFilter): Promise<IndexedChunk[]> {
+    const where = this.buildWhereClause(filter);
+    const results = await this.collection.get(where ? { where } : {});
+
+    return (results.ids || []).map((id, index) => ({
+      id,
+      content: results.documents[index] as string,
+      metadata: results.metadatas[index],
+    }));
+  }
+
+  async updateDocumentMetadata(
+    uploadedDocumentId: string,
+    metadata: Record<string, string | number | boolean>,
+    collectionName?: string,
+  ): Promise<number> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    const results = await collection.get({
+      where: { uploadedDocumentId: uploadedDocumentId },
+    });
+
+    if (!results.ids || results.ids.length === 0) {
+      return 0;
+    }
+
+    await collection.update({
+      ids: results.ids,
+      metadatas: results.metadatas.map((existing) => ({ ...existing, ...metadata })),
+    });
+
+    return results.ids.length;
+  }
+
+  async deleteDocumentsByDocId(documentId: string, collectionName?: string): Promise<number> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    const where: Where = {
+      $or: [{ documentId: { $eq: documentId } }, { uploadedDocumentId: { $eq: documentId } }],
+    };
+
+    // Method 1: Get matching chunks, then delete by IDs
+    try {
+      const results = await collection.get({ where });
+
+      if (results.ids && results.ids.length > 0) {
+        this.logger.log(`Found ${results.ids.length} chunks, deleting...`);
+        await collection.delete({
+          ids: results.ids,
+        });
+      }
+      return results.ids?.length || 0;
+    } catch (getError) {
+      this.logger.warn(`Get with where clause failed: ${getError.message}`);
+    }
+
+    // Method 2: Fallback - get all and filter locally
+    this.logger.log(`Trying fallback method: fetching all documents...`);
+    const allDocs = await collection.get({});
+
+    const idsToDelete = (allDocs.ids || []).filter((id, index) => {
+      const metadata = allDocs.metadatas[index] as any;
+      return (
+        metadata &&
+        (metadata.documentId === documentId || metadata.uploadedDocumentId === documentId)
+      );
+    });
+
+    if (idsToDelete.length > 0) {
+      await collection.delete({
+        ids: idsToDelete,
+      });
+    }
+    return idsToDelete.length;
+  }
+
+  async deleteStaleChunks(
+    uploadedDocumentId: string,
+    keepDocumentId: string,
+    collectionName?: string,
+  ): Promise<number> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    const results = await collection.get({
+      where: {
+        $and: [
+          { uploadedDocumentId: { $eq: uploadedDocumentId } },
+          { documentId: { $ne: keepDocumentId } },
+        ],
+      },
+    });
+
+    if (results.ids && results.ids.length > 0) {
+      await collection.delete({ ids: results.ids });
+    }
+    return results.ids?.length || 0;
+  }
+
+  async count(collectionName?: string): Promise<number> {
+    const collection = collectionName ? await this.getCollection(collectionName) : this.collection;
+    return collection.count();
+  }
+
+  async clearCollection(): Promise<void> {
+    // Delete and recreate collection
+    await this.client.deleteCollection({ name: this.collectionName });
+    this.collections.delete(this.collectionName);
+    this.collection = await this.getCollection(this.collectionName);
+  }
+
+  async deleteCollection(collectionName: string): Promise<void> {
+    if (collectionName === this.collectionName) {
+      throw new Error('Cannot delete the active collection');
+    }
+    await this.client.deleteCollection({ name: collectionName });
+    this.collections.delete(collectionName);
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DocumentChunk,
+  IndexedChunk,
+  SearchResult,
+  VectorSearchFilter,
+  VectorStore,
+  matchesFilter,
+} from '../interfaces/vector-store.interface';
+
+interface StoredChunk {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+/**
+ * In-process backend for tests and local development - nothing is persisted
+ */
+@Injectable()
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private readonly logger = new Logger(InMemoryVectorStore.name);
+  private readonly collections = new Map<string, Map<string, StoredChunk>>();
+  private collectionName: string;
+
+  async initialize(collectionName: string): Promise<void> {
+    this.collectionName = collectionName;
+    if (!this.collections.has(collectionName)) {
+      this.collections.set(collectionName, new Map());
+    }
+    this.logger.log(`✅ Using in-memory collection: ${collectionName} (not persisted)`);
+  }
+
+  async useCollection(collectionName: string): Promise<void> {
+    this.getCollection(collectionName);
+    this.collectionName = collectionName;
+  }
+
+  private getCollection(collectionName: string): Map<string, StoredChunk> {
+    if (!this.collections.has(collectionName)) {
+      this.collections.set(collectionName, new Map());
+    }
+    return this.collections.get(collectionName);
+  }
+
+  private get chunks(): Map<string, StoredChunk> {
+    return this.collections.get(this.collectionName);
+  }
+
+  async addDocuments(
+    chunks: DocumentChunk[],
+    embeddings: number[][],
+    collectionName?: string,
+  ): Promise<void> {
+    const collection = collectionName ? this.getCollection(collectionName) : this.chunks;
+    chunks.forEach((chunk, index) => {
+      const id = chunk.id || uuidv4();
+      collection.set(id, {
+        id,
+        content: chunk.content,
+        metadata: { ...chunk.metadata },
+        embedding: embeddings[index],
+      });
+    });
+  }
+
+  async search(
+    queryEmbedding: number[],
+    topK: number,
+    filter?: VectorSearchFilter,
+    collectionName?: string,
+  ): Promise<SearchResult[]> {
+    const collection = collectionName ? this.getCollection(collectionName) : this.chunks;
+    return [...collection.values()]
+      .filter((chunk) => matchesFilter(chunk.metadata, filter))
+      .map((chunk) => ({
+        id: chunk.id,
+        content: chunk.content,
+        metadata: { ...chunk.metadata },
+        score: 1 - this.squaredDistance(queryEmbedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async getDocumentChunks(uploadedDocumentId: string): Promise<IndexedChunk[]> {
+    return [...this.chunks.values()]
+      .filter((chunk) => chunk.metadata.uploadedDocumentId === uploadedDocumentId)
+      .map((chunk) => ({ id: chunk.id, content: chunk.content, metadata: { ...chunk.metadata } }));
+  }
+
+  async getChunks(filter: VectorSearchFilter): Promise<IndexedChunk[]> {
+    return [...this.chunks.values()]
+      .filter((chunk) => matchesFilter(chunk.metadata, filter))
+      .map((chunk) => ({ id: chunk.id, content: chunk.content, metadata: { ...chunk.metadata } }));
+  }
+
+  async updateDocumentMetadata(
+    uploadedDocumentId: string,
+    metadata: Record<string, string | number | boolean>,
+    collectionName?: string,
+  ): Promise<number> {
+    const collection = collectionName ? this.getCollection(collectionName) : this.chunks;
+    let updated = 0;
+    for (const chunk of collection.values()) {
+      if (chunk.metadata.uploadedDocumentId === uploadedDocumentId) {
+        Object.assign(chunk.metadata, metadata);
+        updated++;
+      }
+    }
+    return updated;
+  }
+
+  async deleteDocumentsByDocId(documentId: string, collectionName?: string): Promise<number> {
+    const collection = collectionName ? this.getCollection(collectionName) : this.chunks;
+    let deleted = 0;
+    for (const [id, chunk] of collection) {
+      if (
+        chunk.metadata.documentId === documentId ||
+        chunk.metadata.uploadedDocumentId === documentId
+      ) {
+        collection.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async deleteStaleChunks(
+    uploadedDocumentId: string,
+    keepDocumentId: string,
+    collectionName?: string,
+  ): Promise<number> {
+    const collection = collectionName ? this.getCollection(collectionName) : this.chunks;
+    let deleted = 0;
+    for (const [id, chunk] of collection) {
+      if (
+        chunk.metadata.uploadedDocumentId === uploadedDocumentId &&
+        chunk.metadata.documentId !== keepDocumentId
+      ) {
+        collection.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async count(collectionName?: string): Promise<number> {
+    return (collectionName ? this.getCollection(collectionName) : this.chunks).size;
+  }
+
+  async clearCollection(): Promise<void> {
+    this.chunks.clear();
+  }
+
+  async deleteCollection(collectionName: string): Promise<void> {
+    if (collectionName === this.collectionName) {
+      throw new Error('Cannot delete the active collection');
+    }
+    this.collections.delete(collectionName);
+  }
+
+  private squaredDistance(vecA: number[], vecB: number[]): number {
+    if (vecA.length !== vecB.length) {
+      throw new Error(`Embedding dimension mismatch: ${vecA.length} vs ${vecB.length}`);
+    }
+
+    let sum = 0;
+    for (let i = 0; i < vecA.length; i++) {
+      const diff = vecA[i] - vecB[i];
+      sum += diff * diff;
+    }
+    return sum;
+  }
+}
@@ -0,0 +1,352 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DocumentChunk,
+  IndexedChunk,
+  SearchResult,
+  VectorSearchFilter,
+  VectorStore,
+} from '../interfaces/vector-store.interface';
+
+const MAX_INDEXED_DIMENSIONS = 2000; // pgvector cannot build HNSW indexes on larger vectors
+const MAX_TABLE_NAME_LENGTH = 48; // Leaves room for index name suffixes (63-character limit)
+
+/**
+ * pgvector backend on the application's Postgres database (via the TypeORM connection)
+ * Each collection has its own table, created on first write with an embedding column sized for
+ * the collection's model and an HNSW index, so searches never scan other collections.
+ */
+@Injectable()
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector';
+  private readonly logger = new Logger(PgVectorStore.name);
+  private readonly tableName: string; // Prefix of the collection tables
+  private readonly efSearch: number;
+  private readonly tables = new Set<string>(); // Collection tables known to exist
+  private collectionName: string;
+
+  constructor(
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {
+    this.tableName = this.configService.get<string>('vector.pgvectorTable');
+    this.efSearch = this.configService.get<number>('vector.pgvectorEfSearch');
+  }
+
+  async initialize(collectionName: string): Promise<void> {
+    this.collectionName = collectionName;
+
+    this.logger.log(`Initializing pgvector (tables: ${this.tableName}_*)...`);
+
+    await this.dataSource.query('CREATE EXTENSION IF NOT EXISTS vector');
+
+    this.logger.log(`✅ Connected to collection: ${this.collectionName}`);
+  }
+
+  async useCollection(collectionName: string): Promise<void> {
+    this.collectionName = collectionName;
+  }
+
+  async addDocuments(
+    chunks: DocumentChunk[],
+    embeddings: number[][],
+    collectionName?: string,
+  ): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const table = await this.getTable(collectionName || this.collectionName, embeddings[0].length);
+    const params: any[] = [];
+    const values = chunks.map((chunk, index) => {
+      const offset = params.length;
+      params.push(
+        chunk.id || uuidv4(),
+        chunk.content,
+        JSON.stringify(chunk.metadata),
+        this.toVectorLiteral(embeddings[index]),
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}::jsonb, $${offset + 4}::vector)`;
+    });
+
+    await this.dataSource.query(
+      `INSERT INTO "${table}" ("id", "content", "metadata", "embedding")
+       VALUES ${values.join(', ')}
+       ON CONFLICT ("id") DO UPDATE
+       SET "content" = EXCLUDED."content", "metadata" = EXCLUDED."metadata", "embedding" = EXCLUDED."embedding"`,
+      params,
+    );
+  }
+
+  async search(
+    queryEmbedding: number[],
+    topK: number,
+    filter?: VectorSearchFilter,
+    collectionName?: string,
+  ): Promise<SearchResult[]> {
+    const table = await this.getTable(collectionName || this.collectionName);
+    if (!table) {
+      return [];
+    }
+
+    const params: any[] = [this.toVectorLiteral(queryEmbedding), topK];
+    const conditions = this.buildFilterConditions(filter, params);
+
+    // The HNSW index returns ef_search candidates before filters apply: scan enough of them
+    // for filtered searches to still fill topK
+    const rows = await this.dataSource.transaction(async (manager) => {
+      await manager.query(`SET LOCAL hnsw.ef_search = ${Math.max(this.efSearch, topK)}`);
+
+      // <-> is L2 distance; square it to match ChromaDB's default scoring
+      return manager.query(
+        `SELECT "id", "content", "metadata", 1 - power("embedding" <-> $1::vector, 2) AS "score"
+         FROM "${table}"
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY "embedding" <-> $1::vector
+         LIMIT $2`,
+        params,
+      );
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      content: row.content,
+      metadata: row.metadata,
+      score: Number(row.score),
+    }));
+  }
+
+  /**
+   * Convert a search filter into SQL conditions on the metadata column
+   */
+  private buildFilterConditions(filter: VectorSearchFilter | undefined, params: any[]): string[] {
+    if (!filter) {
+      return [];
+    }
+
+    const conditions: string[] = [];
+    const addCondition = (key: string, value: string | string[]) => {
+      params.push(value);
+      conditions.push(
+        Array.isArray(value)
+          ? `"metadata"->>'${key}' = ANY($${params.length}::text[])`
+          : `"metadata"->>'${key}' = $${params.length}`,
+      );
+    };
+
+    if (filter.access) {
+      const { userIds = [], scopes = [], folderIds = [] } = filter.access;
+      params.push(userIds, scopes, folderIds);
+      conditions.push(
+        `("metadata"->>'userId' = ANY($${params.length - 2}::text[]) OR "metadata"->>'scope' = ANY($${params.length - 1}::text[]) OR "metadata"->>'folderId' = ANY($${params.length}::text[]))`,
+      );
+    }
+    if (filter.folderIds && filter.folderIds.length > 0) {
+      addCondition('folderId', filter.folderIds);
+    }
+    if (filter.documentIds && filter.documentIds.length > 0) {
+      addCondition('uploadedDocumentId', filter.documentIds);
+    }
+    if (filter.sources && filter.sources.length > 0) {
+      addCondition('source', filter.sources);
+    }
+    if (filter.aiGenerated) {
+      const notGenerated = `"metadata"->>'source' IS DISTINCT FROM 'ai_generated'`;
+      conditions.push(
+        filter.aiGenerated === 'none'
+          ? notGenerated
+          : `(${notGenerated} OR "metadata"->>'reviewStatus' = 'approved')`,
+      );
+    }
+
+    return conditions;
+  }
+
+  async getDocumentChunks(uploadedDocumentId: string): Promise<IndexedChunk[]> {
+    const table = await this.getTable(this.collectionName);
+    if (!table) {
+      return [];
+    }
+
+    return this.dataSource.query(
+      `SELECT "id", "content", "metadata" FROM "${table}"
+       WHERE "metadata"->>'uploadedDocumentId' = $1`,
+      [uploadedDocumentId],
+    );
+  }
+
+  async getChunks(filter: VectorSearchFilter): Promise<IndexedChunk[]> {
+    const table = await this.getTable(this.collectionName);
+    if (!table) {
+      return [];
+    }
+
+    const params: any[] = [];
+    const conditions = this.buildFilterConditions(filter, params);
+
+    return this.dataSource.query(
+      `SELECT "id", "content", "metadata" FROM "${table}"
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+      params,
+    );
+  }
+
+  async updateDocumentMetadata(
+    uploadedDocumentId: string,
+    metadata: Record<string, string | number | boolean>,
+    collectionName?: string,
+  ): Promise<number> {
+    const table = await this.getTable(collectionName || this.collectionName);
+    if (!table) {
+      return 0;
+    }
+
+    const [, affected] = await this.dataSource.query(
+      `UPDATE "${table}" SET "metadata" = "metadata" || $1::jsonb
+       WHERE "metadata"->>'uploadedDocumentId' = $2`,
+      [JSON.stringify(metadata), uploadedDocumentId],
+    );
+    return affected || 0;
+  }
+
+  async deleteDocumentsByDocId(documentId: string, collectionName?: string): Promise<number> {
+    const table = await this.getTable(collectionName || this.collectionName);
+    if (!table) {
+      return 0;
+    }
+
+    const [, affected] = await this.dataSource.query(
+      `DELETE FROM "${table}"
+       WHERE "metadata"->>'documentId' = $1 OR "metadata"->>'uploadedDocumentId' = $1`,
+      [documentId],
+    );
+    return affected || 0;
+  }
+
+  async deleteStaleChunks(
+    uploadedDocumentId: string,
+    keepDocumentId: string,
+    collectionName?: string,
+  ): Promise<number> {
+    const table = await this.getTable(collectionName || this.collectionName);
+    if (!table) {
+      return 0;
+    }
+
+    const [, affected] = await this.dataSource.query(
+      `DELETE FROM "${table}"
+       WHERE "metadata"->>'uploadedDocumentId' = $1
+         AND "metadata"->>'documentId' IS DISTINCT FROM $2`,
+      [uploadedDocumentId, keepDocumentId],
+    );
+    return affected || 0;
+  }
+
+  async count(collectionName?: string): Promise<number> {
+    const table = await this.getTable(collectionName || this.collectionName);
+    if (!table) {
+      return 0;
+    }
+
+    const [row] = await this.dataSource.query(`SELECT COUNT(*)::int AS "count" FROM "${table}"`);
+    return row?.count || 0;
+  }
+
+  async clearCollection(): Promise<void> {
+    const table = await this.getTable(this.collectionName);
+    if (table) {
+      await this.dataSource.query(`DELETE FROM "${table}"`);
+    }
+  }
+
+  async deleteCollection(collectionName: string): Promise<void> {
+    if (collectionName === this.collectionName) {
+      throw new Error('Cannot delete the active collection');
+    }
+
+    const table = this.getTableName(collectionName);
+    await this.dataSource.query(`DROP TABLE IF EXISTS "${table}"`);
+    this.tables.delete(table);
+  }
+
+  /**
+   * Table of a collection; created (for embeddings of the given size) if it does not exist yet.
+   * Returns null for a collection without a table when no size is given.
+   */
+  private async getTable(collectionName: string, dimensions?: number): Promise<string | null> {
+    const table = this.getTableName(collectionName);
+    if (this.tables.has(table)) {
+      return table;
+    }
+
+    if (!(await this.tableExists(table))) {
+      if (!dimensions) {
+        return null;
+      }
+      await this.createTable(table, dimensions);
+    }
+
+    this.tables.add(table);
+    return table;
+  }
+
+  /**
+   * Lowercase identifier derived from the table prefix and the collection name; a hash of the
+   * name keeps collections that only differ in other characters (or are too long) apart
+   */
+  private getTableName(collectionName: string): string {
+    const name = `${this.tableName}_${collectionName}`;
+    const safeName = name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+
+    if (safeName === name && name.length <= MAX_TABLE_NAME_LENGTH) {
+      return name;
+    }
+
+    const hash = createHash('sha256').update(collectionName).digest('hex').substring(0, 8);
+    return `${safeName.substring(0, MAX_TABLE_NAME_LENGTH - hash.length - 1)}_${hash}`;
+  }
+
+  private async tableExists(table: string): Promise<boolean> {
+    const [row] = await this.dataSource.query('SELECT to_regclass($1) IS NOT NULL AS "exists"', [
+      `"${table}"`,
+    ]);
+    return !!row?.exists;
+  }
+
+  private async createTable(table: string, dimensions: number): Promise<void> {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Invalid embedding size: ${dimensions}`);
+    }
+
+    await this.dataSource.query(`
+      CREATE TABLE IF NOT EXISTS "${table}" (
+        "id" varchar(255) PRIMARY KEY,
+        "content" text NOT NULL,
+        "metadata" jsonb NOT NULL DEFAULT '{}',
+        "embedding" vector(${dimensions}) NOT NULL
+      )
+    `);
+    await this.dataSource.query(
+      `CREATE INDEX IF NOT EXISTS "${table}_metadata_idx" ON "${table}" USING gin ("metadata")`,
+    );
+
+    if (dimensions <= MAX_INDEXED_DIMENSIONS) {
+      await this.dataSource.query(
+        `CREATE INDEX IF NOT EXISTS "${table}_embedding_idx" ON "${table}" USING hnsw ("embedding" vector_l2_ops)`,
+      );
+    } else {
+      this.logger.warn(
+        `⚠️ ${dimensions}-dimension embeddings cannot be indexed: searches on ${table} scan the table`,
+      );
+    }
+
+    this.logger.log(`Created vector table ${table} (${dimensions} dimensions)`);
+  }
+
+  private toVectorLiteral(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+  }
+}
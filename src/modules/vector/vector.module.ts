@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { VectorService } from './vector.service';
+import { ChromaVectorStore } from './stores/chroma-vector.store';
+import { PgVectorStore } from './stores/pgvector.store';
+import { InMemoryVectorStore } from './stores/in-memory-vector.store';
 
 @Module({
-  providers: [VectorService],
+  providers: [VectorService, ChromaVectorStore, PgVectorStore, InMemoryVectorStore],
   exports: [VectorService],
 })
 export class VectorModule { }
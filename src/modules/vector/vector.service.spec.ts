@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+import { VectorService } from './vector.service';
+import { InMemoryVectorStore } from './stores/in-memory-vector.store';
+import { DocumentChunk } from './interfaces/vector-store.interface';
+
+describe('VectorService', () => {
+  let store: InMemoryVectorStore;
+  let service: VectorService;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore();
+    service = new VectorService(
+      new ConfigService({ vector: { provider: 'memory', collectionName: 'documents' } }),
+      { name: 'chroma' } as any,
+      { name: 'pgvector' } as any,
+      store,
+    );
+    await service.onModuleInit();
+
+    const chunk: DocumentChunk = {
+      id: 'chunk-1',
+      content: 'text',
+      metadata: {
+        documentId: 'ingest-1',
+        uploadedDocumentId: 'doc-1',
+        fileName: 'a.txt',
+        chunkIndex: 0,
+        totalChunks: 1,
+      },
+    };
+    await store.addDocuments([chunk], [[1]]);
+    await store.addDocuments([chunk], [[1]], 'documents_v2');
+  });
+
+  it('updates document metadata in the active collection only when no migration runs', async () => {
+    await service.updateDocumentMetadata('doc-1', { folderId: 'folder-2' });
+
+    const [active] = await store.getDocumentChunks('doc-1');
+    expect(active.metadata.folderId).toBe('folder-2');
+
+    await store.useCollection('documents_v2');
+    const [target] = await store.getDocumentChunks('doc-1');
+    expect(target.metadata.folderId).toBeUndefined();
+  });
+
+  it("also updates document metadata in a running migration's target collection", async () => {
+    service.setMigrationTargetResolver(async () => 'documents_v2');
+
+    await service.updateDocumentMetadata('doc-1', { folderId: 'folder-2' });
+
+    await store.useCollection('documents_v2');
+    const [target] = await store.getDocumentChunks('doc-1');
+    expect(target.metadata.folderId).toBe('folder-2');
+  });
+});
@@ -1,140 +1,118 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ChromaClient, CloudClient, Collection } from 'chromadb';
-import { v4 as uuidv4 } from 'uuid';
-
-export interface DocumentChunk {
-  id?: string;
-  content: string;
-  metadata: {
-    documentId: string;
-    fileName: string;
-    chunkIndex: number;
-    totalChunks: number;
-    source?: string;
-    [key: string]: any;
-  };
-}
-
-export interface SearchResult {
-  id: string;
-  content: string;
-  metadata: any;
-  score: number;
-}
-
+import {
+  DocumentChunk,
+  IndexedChunk,
+  SearchResult,
+  VectorSearchFilter,
+  VectorAccessFilter,
+  VectorStore,
+} from './interfaces/vector-store.interface';
+import { ChromaVectorStore } from './stores/chroma-vector.store';
+import { PgVectorStore } from './stores/pgvector.store';
+import { InMemoryVectorStore } from './stores/in-memory-vector.store';
+
+/**
+ * Vector Service
+ * Delegates to the vector store selected by vector.provider (chroma, pgvector or memory)
+ */
 @Injectable()
 export class VectorService implements OnModuleInit {
   private readonly logger = new Logger(VectorService.name);
-  private client: ChromaClient;
-  private collection: Collection;
+  private readonly store: VectorStore;
   private collectionName: string;
-
-  constructor(private configService: ConfigService) {
+  private available = false;
+  private migrationTargetResolver: () => Promise<string | null> = async () => null;
+
+  constructor(
+    private configService: ConfigService,
+    chromaStore: ChromaVectorStore,
+    pgVectorStore: PgVectorStore,
+    inMemoryStore: InMemoryVectorStore,
+  ) {
     this.collectionName = this.configService.get<string>('vector.collectionName');
+
+    const provider = this.configService.get<string>('vector.provider');
+    const stores: VectorStore[] = [chromaStore, pgVectorStore, inMemoryStore];
+    this.store = stores.find((store) => store.name === provider);
+
+    if (!this.store) {
+      throw new Error(
+        `Unknown vector provider "${provider}". Available: ${stores.map((s) => s.name).join(', ')}`,
+      );
+    }
   }
 
   async onModuleInit() {
-    await this.initializeChroma();
+    await this.initializeStore();
   }
 
-  private async initializeChroma() {
+  private async initializeStore() {
     try {
-      const chromaMode = this.configService.get<string>('vector.chromaMode');
-      
-      this.logger.log(`Initializing ChromaDB (mode: ${chromaMode})...`);
+      await this.store.initialize(this.collectionName);
+      this.available = true;
 
-      // Initialize based on mode
-      if (chromaMode === 'cloud') {
-        await this.initializeCloudClient();
-      } else {
-        await this.initializeLocalClient();
-      }
-
-      // Get or create collection
-      this.collection = await this.client.getOrCreateCollection({
-        name: this.collectionName,
-        metadata: { description: 'AI Assistant document embeddings' },
-      });
-      this.logger.log(`✅ Connected to collection: ${this.collectionName}`);
-
-      const count = await this.collection.count();
+      const count = await this.store.count();
       this.logger.log(`Collection contains ${count} documents`);
     } catch (error) {
-      this.logger.error('❌ Failed to connect to ChromaDB', error.message);
+      this.logger.error(`❌ Failed to connect to vector store (${this.store.name})`, error.message);
       this.logger.warn('⚠️  Vector search will not be available.');
-      if (this.configService.get<string>('vector.chromaMode') === 'local') {
-        this.logger.warn('💡 To enable RAG functionality, run ChromaDB server:');
-        this.logger.warn('   docker-compose up -d');
-      }
-      // Don't throw - allow app to start without ChromaDB
+      // Don't throw - allow app to start without a vector store
     }
   }
 
-  private async initializeCloudClient() {
-    const apiKey = this.configService.get<string>('vector.chromaCloud.apiKey');
-    const tenant = this.configService.get<string>('vector.chromaCloud.tenant');
-    const database = this.configService.get<string>('vector.chromaCloud.database');
-
-    if (!apiKey || !tenant || !database) {
-      throw new Error('ChromaDB Cloud credentials not configured in .env');
-    }
-
-    this.logger.log('☁️  Connecting to ChromaDB Cloud...');
-    this.logger.log(`   Tenant: ${tenant}`);
-    this.logger.log(`   Database: ${database}`);
-
-    this.client = new CloudClient({
-      apiKey,
-      tenant,
-      database,
-    }) as any; // Type cast as CloudClient extends ChromaClient
+  /**
+   * Name of the collection that searches run against
+   */
+  getCollectionName(): string {
+    return this.collectionName;
+  }
 
-    this.logger.log('✅ Connected to ChromaDB Cloud');
+  /**
+   * Register how to look up the collection a running migration is writing to, so updates
+   * to existing chunks reach it as well as the active collection
+   */
+  setMigrationTargetResolver(resolver: () => Promise<string | null>): void {
+    this.migrationTargetResolver = resolver;
   }
 
-  private async initializeLocalClient() {
-    const chromaUrl = this.configService.get<string>('vector.chromaUrl');
+  /**
+   * Make another collection the active one (e.g. a finished shadow collection)
+   */
+  async switchCollection(collectionName: string): Promise<void> {
+    this.ensureAvailable();
 
-    // Check if we should skip initialization
-    if (!chromaUrl || chromaUrl === 'in-memory' || chromaUrl === 'disabled') {
-      throw new Error('ChromaDB local server not configured');
+    if (collectionName === this.collectionName) {
+      return;
     }
 
-    this.logger.log(`🔗 Connecting to local ChromaDB server at: ${chromaUrl}`);
-    
-    this.client = new ChromaClient({
-      path: chromaUrl,
-    });
+    await this.store.useCollection(collectionName);
+    const previous = this.collectionName;
+    this.collectionName = collectionName;
 
-    this.logger.log('✅ Connected to local ChromaDB server');
+    this.logger.log(`🔀 Switched active collection: ${previous} -> ${collectionName}`);
   }
 
   /**
-   * Add document chunks with embeddings to the vector store
+   * Add document chunks with embeddings to the active collection, or to the named one
    */
-  async addDocuments(chunks: DocumentChunk[], embeddings: number[][]): Promise<void> {
-    if (!this.collection) {
-      throw new Error('ChromaDB is not initialized. Please start ChromaDB server.');
-    }
+  async addDocuments(
+    chunks: DocumentChunk[],
+    embeddings: number[][],
+    collectionName?: string,
+  ): Promise<void> {
+    this.ensureAvailable();
 
     try {
       if (chunks.length !== embeddings.length) {
         throw new Error('Number of chunks must match number of embeddings');
       }
 
-      const ids = chunks.map((chunk) => chunk.id || uuidv4());
-      const documents = chunks.map((chunk) => chunk.content);
-      const metadatas = chunks.map((chunk) => chunk.metadata);
-
-      await this.collection.add({
-        ids,
-        embeddings,
-        documents,
-        metadatas,
-      });
+      await this.store.addDocuments(chunks, embeddings, collectionName);
 
-      this.logger.log(`Added ${chunks.length} document chunks to vector store`);
+      this.logger.log(
+        `Added ${chunks.length} document chunks to ${collectionName || 'vector store'}`,
+      );
     } catch (error) {
       this.logger.error('Failed to add documents to vector store', error.stack);
       throw error;
@@ -142,35 +120,25 @@ export class VectorService implements OnModuleInit {
   }
 
   /**
-   * Search for similar documents using query embedding
+   * Search for similar documents using query embedding, optionally restricted by metadata filter.
+   * Searches the active collection unless another one is named.
    */
-  async search(queryEmbedding: number[], topK: number = 5): Promise<SearchResult[]> {
-    if (!this.collection) {
-      throw new Error('ChromaDB is not initialized. Please start ChromaDB server.');
-    }
+  async search(
+    queryEmbedding: number[],
+    topK: number = 5,
+    filter?: VectorSearchFilter,
+    collectionName?: string,
+  ): Promise<SearchResult[]> {
+    this.ensureAvailable();
 
     try {
-      const results = await this.collection.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: topK,
-      });
+      const searchResults = await this.store.search(queryEmbedding, topK, filter, collectionName);
 
-      if (!results.ids || !results.ids[0] || results.ids[0].length === 0) {
+      if (searchResults.length === 0) {
         this.logger.log('No results found for query');
         return [];
       }
 
-      const searchResults: SearchResult[] = [];
-
-      for (let i = 0; i < results.ids[0].length; i++) {
-        searchResults.push({
-          id: results.ids[0][i],
-          content: results.documents[0][i] as string,
-          metadata: results.metadatas[0][i] as any,
-          score: results.distances ? 1 - results.distances[0][i] : 0, // Convert distance to similarity score
-        });
-      }
-
       this.logger.log(`Found ${searchResults.length} similar documents`);
       return searchResults;
     } catch (error) {
@@ -180,129 +148,178 @@ export class VectorService implements OnModuleInit {
   }
 
   /**
-   * Delete documents by document ID
+   * Get the chunks of an uploaded document as indexed, ordered by chunkIndex
+   */
+  async getDocumentChunks(uploadedDocumentId: string): Promise<IndexedChunk[]> {
+    this.ensureAvailable();
+
+    const chunks = await this.store.getDocumentChunks(uploadedDocumentId);
+    return chunks.sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0));
+  }
+
+  /**
+   * Get every chunk of the active collection matching a filter
+   */
+  async getChunks(filter: VectorSearchFilter): Promise<IndexedChunk[]> {
+    this.ensureAvailable();
+    return this.store.getChunks(filter);
+  }
+
+  /**
+   * Update metadata on every chunk of an uploaded document (e.g. after it moves folder),
+   * in the active collection and in the target of a running migration
    */
-  async deleteDocumentsByDocId(documentId: string): Promise<void> {
-    if (!this.collection) {
-      this.logger.warn('ChromaDB collection not initialized - skipping deletion');
+  async updateDocumentMetadata(
+    uploadedDocumentId: string,
+    metadata: Record<string, string | number | boolean>,
+  ): Promise<void> {
+    if (!this.available) {
+      this.logger.warn('Vector store not initialized - skipping metadata update');
       return;
     }
 
+    const collections = [this.collectionName];
     try {
-      this.logger.log(`Attempting to delete chunks for document: ${documentId}`);
-      
-      // Method 1: Try direct delete with where clause
-      try {
-        await this.collection.delete({
-          where: { documentId: documentId },
-        });
-        this.logger.log(`✅ Deleted chunks for document ${documentId} using where clause`);
-        return;
-      } catch (whereError) {
-        this.logger.warn(`Where clause delete failed: ${whereError.message}`);
+      const target = await this.migrationTargetResolver();
+      if (target && target !== this.collectionName) {
+        collections.push(target);
       }
+    } catch (error) {
+      this.logger.error('Failed to look up the running migration', error.stack);
+    }
 
-      // Method 2: Get documents first, then delete by IDs
+    for (const collectionName of collections) {
       try {
-        const results = await this.collection.get({
-          where: { documentId: documentId },
-        });
-
-        if (results.ids && results.ids.length > 0) {
-          this.logger.log(`Found ${results.ids.length} chunks, deleting...`);
-          await this.collection.delete({
-            ids: results.ids,
-          });
-          this.logger.log(`✅ Deleted ${results.ids.length} chunks for document ${documentId}`);
-          return;
-        } else {
-          this.logger.log(`No chunks found for document ${documentId} - may already be deleted`);
-          return;
+        const updated = await this.store.updateDocumentMetadata(
+          uploadedDocumentId,
+          metadata,
+          collectionName,
+        );
+        if (updated > 0) {
+          this.logger.log(
+            `Updated metadata on ${updated} chunks for document ${uploadedDocumentId} in ${collectionName}`,
+          );
         }
-      } catch (getError) {
-        this.logger.warn(`Get with where clause failed: ${getError.message}`);
+      } catch (error) {
+        this.logger.error(
+          `Failed to update metadata for document ${uploadedDocumentId} in ${collectionName}`,
+          error.stack,
+        );
       }
+    }
+  }
 
-      // Method 3: Fallback - get all and filter locally
-      try {
-        this.logger.log(`Trying fallback method: fetching all documents...`);
-        const allDocs = await this.collection.get({});
-        
-        if (allDocs.ids && allDocs.metadatas) {
-          const idsToDelete = allDocs.ids.filter((id, index) => {
-            const metadata = allDocs.metadatas[index] as any;
-            return metadata && metadata.documentId === documentId;
-          });
-
-          if (idsToDelete.length > 0) {
-            await this.collection.delete({
-              ids: idsToDelete,
-            });
-            this.logger.log(`✅ Deleted ${idsToDelete.length} chunks (fallback method)`);
-            return;
-          } else {
-            this.logger.log(`No chunks found for document ${documentId} - may already be deleted`);
-            return;
-          }
-        }
-      } catch (fallbackError) {
-        this.logger.warn(`Fallback method also failed: ${fallbackError.message}`);
-      }
+  /**
+   * Delete document chunks by ingestion document ID or uploaded document ID
+   */
+  async deleteDocumentsByDocId(documentId: string, collectionName?: string): Promise<void> {
+    if (!this.available) {
+      this.logger.warn('Vector store not initialized - skipping deletion');
+      return;
+    }
 
-      // If all methods fail, log warning but don't throw
-      this.logger.warn(`⚠️  Could not delete chunks for document ${documentId} - will add new chunks anyway`);
-      
+    try {
+      this.logger.log(`Attempting to delete chunks for document: ${documentId}`);
+
+      const deleted = await this.store.deleteDocumentsByDocId(documentId, collectionName);
+      if (deleted > 0) {
+        this.logger.log(`✅ Deleted ${deleted} chunks for document ${documentId}`);
+      } else {
+        this.logger.log(`No chunks found for document ${documentId} - may already be deleted`);
+      }
     } catch (error) {
-      // Catch any unexpected errors
       this.logger.error(`Unexpected error during deletion: ${error.message}`);
       this.logger.warn(`⚠️  Continuing without deletion - new embeddings will be added`);
     }
   }
 
+  /**
+   * Delete an uploaded document's chunks from earlier ingestion runs, keeping keepDocumentId's
+   */
+  async deleteStaleChunks(
+    uploadedDocumentId: string,
+    keepDocumentId: string,
+    collectionName?: string,
+  ): Promise<number> {
+    this.ensureAvailable();
+
+    const deleted = await this.store.deleteStaleChunks(
+      uploadedDocumentId,
+      keepDocumentId,
+      collectionName,
+    );
+    if (deleted > 0) {
+      this.logger.log(`🧹 Deleted ${deleted} stale chunks of document ${uploadedDocumentId}`);
+    }
+    return deleted;
+  }
+
   /**
    * Get collection statistics
    */
-  async getStats(): Promise<{ count: number; collectionName: string; available: boolean }> {
-    if (!this.collection) {
-      return {
-        count: 0,
-        collectionName: this.collectionName,
-        available: false,
-      };
+  async getStats(): Promise<{
+    count: number;
+    collectionName: string;
+    available: boolean;
+    provider: string;
+  }> {
+    const stats = {
+      count: 0,
+      collectionName: this.collectionName,
+      available: false,
+      provider: this.store.name,
+    };
+
+    if (!this.available) {
+      return stats;
     }
 
     try {
-      const count = await this.collection.count();
-      return {
-        count,
-        collectionName: this.collectionName,
-        available: true,
-      };
+      return { ...stats, count: await this.store.count(), available: true };
     } catch (error) {
       this.logger.error('Failed to get vector store stats', error.stack);
-      return {
-        count: 0,
-        collectionName: this.collectionName,
-        available: false,
-      };
+      return stats;
     }
   }
 
+  /**
+   * Count the chunks of the active collection, or of the named one
+   */
+  async count(collectionName?: string): Promise<number> {
+    this.ensureAvailable();
+    return this.store.count(collectionName);
+  }
+
+  /**
+   * Drop a collection that is not active (e.g. an abandoned or replaced shadow collection)
+   */
+  async deleteCollection(collectionName: string): Promise<void> {
+    this.ensureAvailable();
+    await this.store.deleteCollection(collectionName);
+    this.logger.warn(`Deleted collection: ${collectionName}`);
+  }
+
   /**
    * Clear all documents from collection (use with caution!)
    */
   async clearCollection(): Promise<void> {
+    this.ensureAvailable();
+
     try {
-      // Delete and recreate collection
-      await this.client.deleteCollection({ name: this.collectionName });
-      this.collection = await this.client.createCollection({
-        name: this.collectionName,
-        metadata: { description: 'AI Assistant document embeddings' },
-      });
+      await this.store.clearCollection();
       this.logger.warn('Collection cleared - all documents deleted');
     } catch (error) {
       this.logger.error('Failed to clear collection', error.stack);
       throw error;
     }
   }
+
+  private ensureAvailable(): void {
+    if (!this.available) {
+      throw new Error(`Vector store (${this.store.name}) is not initialized.`);
+    }
+  }
 }
+
+// Re-export types for convenience
+export { DocumentChunk, IndexedChunk, SearchResult, VectorSearchFilter, VectorAccessFilter };